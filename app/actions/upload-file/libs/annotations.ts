@@ -0,0 +1,142 @@
+import * as XLSX from 'xlsx';
+import type { DuckDBConnection } from '@duckdb/node-api';
+import { TableProfile, TableSchema } from './types';
+import { appendRows } from './duckdb';
+import { locateCell, TableColumnLocation } from './formulas';
+
+// Companion table holding the workbook's cell comments and hyperlinks
+export const ANNOTATIONS_TABLE = '__annotations';
+
+export interface AnnotationCell {
+  sheet: string;
+  cell: string;
+  row: number;
+  column: number;
+  kind: 'comment' | 'hyperlink';
+  // Comment text, or a hyperlink's tooltip
+  text: string | null;
+  // Hyperlink URL, or #Sheet!A1 for a link within the workbook
+  target: string | null;
+  author: string | null;
+  // Displayed value of the annotated cell
+  value: string | null;
+}
+
+/**
+ * Collect the comments and hyperlinks of a worksheet, one entry per comment (threaded
+ * replies included) and per link
+ */
+export function readAnnotationCells(ws: XLSX.WorkSheet, sheetName: string): AnnotationCell[] {
+  const annotations: AnnotationCell[] = [];
+
+  for (const address of Object.keys(ws)) {
+    if (address.startsWith('!')) continue;
+
+    const cell = ws[address] as XLSX.CellObject;
+    if (!cell?.c?.length && !cell?.l) continue;
+
+    const { r, c } = XLSX.utils.decode_cell(address);
+    const location = { sheet: sheetName, cell: address, row: r, column: c };
+    const value = cell.v === undefined || cell.v === null ? null : XLSX.utils.format_cell(cell);
+
+    for (const comment of cell.c || []) {
+      annotations.push({
+        ...location,
+        kind: 'comment',
+        text: comment.t?.trim() || null,
+        target: null,
+        author: comment.a || null,
+        value
+      });
+    }
+    if (cell.l?.Target) {
+      annotations.push({
+        ...location,
+        kind: 'hyperlink',
+        text: cell.l.Tooltip || null,
+        target: cell.l.Target,
+        author: null,
+        value
+      });
+    }
+  }
+
+  return annotations.sort((a, b) => a.row - b.row || a.column - b.column);
+}
+
+/**
+ * Create the annotations table: one row per comment or hyperlink with its sheet, address,
+ * the table, column and spreadsheet row it belongs to, and its text or target
+ */
+export async function createAnnotationsTable(
+  connection: DuckDBConnection,
+  annotations: AnnotationCell[],
+  locations: TableColumnLocation[]
+): Promise<void> {
+  await connection.run(`DROP TABLE IF EXISTS ${ANNOTATIONS_TABLE};`);
+  await connection.run(`CREATE TABLE ${ANNOTATIONS_TABLE} (
+    "sheet" VARCHAR,
+    "cell" VARCHAR,
+    "table_name" VARCHAR,
+    "column_name" VARCHAR,
+    "header" VARCHAR,
+    "row_number" INTEGER,
+    "kind" VARCHAR,
+    "text" VARCHAR,
+    "target" VARCHAR,
+    "author" VARCHAR,
+    "value" VARCHAR
+  )`);
+
+  await appendRows(connection, ANNOTATIONS_TABLE, annotations.map(annotation => {
+    const location = locateCell(annotation, locations);
+    return [
+      annotation.sheet,
+      annotation.cell,
+      location?.table,
+      location?.name,
+      location?.header,
+      String(annotation.row + 1),
+      annotation.kind,
+      annotation.text,
+      annotation.target,
+      annotation.author,
+      annotation.value
+    ];
+  }));
+
+  console.log(`💬 Stored ${annotations.length} comments and hyperlinks in ${ANNOTATIONS_TABLE}`);
+}
+
+// Columns of the annotations table: name, type, header and fixed description
+const ANNOTATIONS_COLUMNS: [string, string, string, string][] = [
+  ['sheet', 'VARCHAR', 'Sheet', 'Worksheet name the annotated cell is on'],
+  ['cell', 'VARCHAR', 'Cell', 'Cell address, e.g. D5'],
+  ['table_name', 'VARCHAR', 'Table', 'Imported table the cell belongs to, NULL if outside any table'],
+  ['column_name', 'VARCHAR', 'Column', 'Database column of that table the cell belongs to'],
+  ['header', 'VARCHAR', 'Header', 'Original spreadsheet header of that column'],
+  ['row_number', 'INTEGER', 'Row', 'Spreadsheet row number of the cell'],
+  ['kind', 'VARCHAR', 'Kind', "'comment' or 'hyperlink'"],
+  ['text', 'VARCHAR', 'Text', 'Comment text, or the tooltip of a hyperlink'],
+  ['target', 'VARCHAR', 'Target', 'Hyperlink URL, or #Sheet!A1 for a link within the workbook'],
+  ['author', 'VARCHAR', 'Author', 'Author of the comment'],
+  ['value', 'VARCHAR', 'Value', 'Displayed value of the annotated cell']
+];
+
+/**
+ * Fixed schema of the annotations table, with the profile of its columns when there is one
+ */
+export function describeAnnotationsTable(profile?: TableProfile): TableSchema {
+  return {
+    tableName: ANNOTATIONS_TABLE,
+    description: 'Cell comments and hyperlinks of the workbook',
+    columns: ANNOTATIONS_COLUMNS.map(([name, type, header, description]) => ({
+      name,
+      type,
+      header,
+      samples: [],
+      description,
+      ...(profile?.columns[name] ? { profile: profile.columns[name] } : {})
+    }))
+  };
+}
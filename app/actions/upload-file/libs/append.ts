@@ -0,0 +1,642 @@
+import { DuckDBInstance, DuckDBConnection } from '@duckdb/node-api';
+import path from 'node:path';
+import {
+  ColumnInfo,
+  DatasetBatch,
+  ExcelMetadata,
+  TableDrift,
+  TableSchema,
+  TableTransform,
+  WorkbookProfile
+} from './types';
+import { buildTableSchema } from './schema';
+import { detectCrosstab } from './crosstab';
+import { tryProfileDatabase, PROFILE_FILE_NAME } from './profile';
+import { tryDetectRelationships } from './relationships';
+import { closeDatabase } from './duckdb';
+import { FORMULAS_TABLE, describeFormulasTable } from './formulas';
+import { ANNOTATIONS_TABLE, describeAnnotationsTable } from './annotations';
+import {
+  createPivotTable,
+  createUnpivotTable,
+  DerivedTable,
+  generateDerivedSchema,
+  LONG_TABLE_SUFFIX,
+  schemaColumns
+} from './transforms';
+import { ProgressReporter } from './progress';
+
+// Columns labelling every row of a dataset with the upload it came from
+export const BATCH_COLUMN = '_batch';
+export const SOURCE_COLUMN = '_source';
+const BATCH_COLUMNS = [BATCH_COLUMN, SOURCE_COLUMN];
+
+// Companion tables of formula cells and of comments and hyperlinks, with a fixed layout
+const CELL_TABLES = [FORMULAS_TABLE, ANNOTATIONS_TABLE];
+
+// Share of columns an upload's table must have in common with a dataset table to be appended to it
+const MIN_TABLE_MATCH = 0.5;
+
+// Each rebuilt database gets its own folder next to the uploads, named after the batch and
+// the job that built it: duckdb/{sha}/rev2-1a2b3c4d/
+const REVISION_FOLDER = /^rev\d+-[0-9a-f]+$/;
+
+const INTEGER_TYPE = /^(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT)$/;
+const NUMBER_TYPE = /^(FLOAT|REAL|DOUBLE|DECIMAL)/;
+const DATETIME_TYPE = /^(DATE|TIMESTAMP)/;
+
+/**
+ * An upload processed on its own, to be appended to a dataset
+ */
+export interface AppendedUpload {
+  dbFile: string;
+  metadata: ExcelMetadata;
+  originalName: string;
+}
+
+/**
+ * Where an upload's rows go: the dataset table and the upload's table, with their column overlap
+ */
+export interface TableMatch {
+  table: string;
+  source: string;
+  match: number;
+}
+
+/**
+ * How an upload's columns line up with a dataset table's
+ */
+interface ColumnComparison {
+  // Dataset column -> upload column whose values are appended to it
+  mapping: Record<string, string>;
+  added: ColumnInfo[];
+  removed: ColumnInfo[];
+  renamed: { from: ColumnInfo; to: ColumnInfo }[];
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * A name not yet used, suffixed _2, _3, ... when taken
+ */
+function uniqueName(name: string, used: Set<string>): string {
+  let unique = name;
+  for (let n = 2; used.has(unique); n++) {
+    unique = `${name}_${n}`;
+  }
+  used.add(unique);
+  return unique;
+}
+
+/**
+ * Storage folder of a dataset's uploads, whichever revision of its database is current
+ */
+export function getDatasetFolder(duckdbPath: string): string {
+  const folder = path.posix.dirname(duckdbPath);
+  return isRevisionFolder(path.posix.basename(folder)) ? path.posix.dirname(folder) : folder;
+}
+
+export function isRevisionFolder(name: string): boolean {
+  return REVISION_FOLDER.test(name);
+}
+
+/**
+ * Storage paths of a dataset rebuilt by an append job or a transform. The database,
+ * metadata.json and profile.json go to a new folder, so the current ones stay untouched
+ * until the file record points elsewhere, and two rebuilds at once never write to the
+ * same files.
+ */
+export function getRevisionPaths(duckdbPath: string, batch: number, revisionId: string): {
+  duckdbPath: string;
+  metadataPath: string;
+  profilePath: string;
+} {
+  const revision = `rev${batch}-${revisionId.replace(/-/g, '').slice(0, 8)}`;
+  const folder = path.posix.join(getDatasetFolder(duckdbPath), revision);
+  return {
+    duckdbPath: path.posix.join(folder, path.posix.basename(duckdbPath)),
+    metadataPath: path.posix.join(folder, 'metadata.json'),
+    profilePath: path.posix.join(folder, PROFILE_FILE_NAME)
+  };
+}
+
+/**
+ * A type holding the values of both columns: the wider integer type, DOUBLE for mixed
+ * numbers, TIMESTAMP for dates and timestamps, otherwise VARCHAR
+ */
+export function commonColumnType(a: string, b: string): string {
+  if (a === b) return a;
+  if (INTEGER_TYPE.test(a) && INTEGER_TYPE.test(b)) {
+    return a === 'HUGEINT' || b === 'HUGEINT' ? 'HUGEINT' : 'BIGINT';
+  }
+  const isNumber = (type: string) => INTEGER_TYPE.test(type) || NUMBER_TYPE.test(type);
+  if (isNumber(a) && isNumber(b)) return 'DOUBLE';
+  if (DATETIME_TYPE.test(a) && DATETIME_TYPE.test(b)) return 'TIMESTAMP';
+  return 'VARCHAR';
+}
+
+function dataColumns(columns: ColumnInfo[]): ColumnInfo[] {
+  return columns.filter(column => !BATCH_COLUMNS.includes(column.name));
+}
+
+function columnOverlap(a: ColumnInfo[], b: ColumnInfo[]): number {
+  const names = new Set(a.map(column => column.name));
+  const others = new Set(b.map(column => column.name));
+  const common = [...names].filter(name => others.has(name)).length;
+  const all = new Set([...names, ...others]).size;
+  return all ? common / all : 0;
+}
+
+/**
+ * Pair the upload's tables with the dataset tables sharing most of their columns, best
+ * pairs first. Pairs sharing less than MIN_TABLE_MATCH of their columns are left out.
+ */
+export function matchTables(existing: TableSchema[], incoming: TableSchema[]): TableMatch[] {
+  const candidates = existing.flatMap(target => incoming.map(source => ({
+    table: target.tableName,
+    source: source.tableName,
+    match: columnOverlap(dataColumns(target.columns), source.columns)
+  }))).filter(candidate => candidate.match >= MIN_TABLE_MATCH);
+
+  // Equal overlaps go to the table with the same name
+  candidates.sort((a, b) => b.match - a.match || Number(b.table === b.source) - Number(a.table === a.source));
+
+  const matches: TableMatch[] = [];
+  for (const candidate of candidates) {
+    if (matches.some(match => match.table === candidate.table || match.source === candidate.source)) continue;
+    matches.push(candidate);
+  }
+  return matches;
+}
+
+/**
+ * Line up a dataset table's columns with an upload's. Columns with the same name are the
+ * same column; of the rest, one at the same position with a compatible type is taken as
+ * renamed.
+ */
+function compareColumns(existing: ColumnInfo[], incoming: ColumnInfo[]): ColumnComparison {
+  const existingNames = new Set(existing.map(column => column.name));
+  const unmatched = incoming.filter(column => !existingNames.has(column.name));
+  const mapping: Record<string, string> = {};
+  const removed: ColumnInfo[] = [];
+  const renamed: ColumnComparison['renamed'] = [];
+
+  for (const [i, column] of existing.entries()) {
+    if (incoming.some(other => other.name === column.name)) {
+      mapping[column.name] = column.name;
+      continue;
+    }
+    const candidate = incoming[i];
+    const compatible = candidate
+      && unmatched.includes(candidate)
+      && (candidate.type === column.type || commonColumnType(column.type, candidate.type) !== 'VARCHAR');
+    if (compatible) {
+      mapping[column.name] = candidate.name;
+      renamed.push({ from: column, to: candidate });
+      unmatched.splice(unmatched.indexOf(candidate), 1);
+    } else {
+      removed.push(column);
+    }
+  }
+
+  return { mapping, added: unmatched, removed, renamed };
+}
+
+function batchColumnInfos(): ColumnInfo[] {
+  return [
+    {
+      name: BATCH_COLUMN,
+      type: 'INTEGER',
+      header: 'Batch',
+      samples: [],
+      description: 'Number of the upload the row came from: 1 for the first file, then one per appended file'
+    },
+    {
+      name: SOURCE_COLUMN,
+      type: 'VARCHAR',
+      header: 'Source file',
+      samples: [],
+      description: 'Name of the uploaded file the row came from'
+    }
+  ];
+}
+
+function withBatchColumns(schema: TableSchema): TableSchema {
+  return { ...schema, columns: [...schema.columns, ...batchColumnInfos()] };
+}
+
+async function countRows(connection: DuckDBConnection, table: string): Promise<number> {
+  const result = await connection.run(`SELECT count(*) FROM ${table}`);
+  const [[count]] = await result.getRows();
+  return Number(count);
+}
+
+async function readSample(connection: DuckDBConnection, table: string): Promise<Record<string, unknown>[]> {
+  const result = await connection.run(`SELECT * FROM ${quoteIdentifier(table)} LIMIT 5`);
+  return result.getRowObjectsJson();
+}
+
+/**
+ * Append the upload's formula cells, or comments and hyperlinks, to the dataset's table
+ * of them, labelled with the batch like data rows. The dataset's own rows are labelled
+ * as batch 1 the first time. Returns the number of rows appended.
+ */
+async function appendCellTable(
+  connection: DuckDBConnection,
+  table: string,
+  dataset: ExcelMetadata,
+  upload: ExcelMetadata,
+  batch: number,
+  sourceFile: string,
+  firstSourceFile: string
+): Promise<number> {
+  const tbl = quoteIdentifier(table);
+  const existing = dataset.table_schemas[table];
+  if (existing && !existing.columns.some(column => column.name === BATCH_COLUMN)) {
+    await addBatchColumns(connection, table, 1, firstSourceFile);
+  }
+  if (!upload.table_schemas[table]) return 0;
+
+  const rows = await countRows(connection, `upload_db.${tbl}`);
+  const select = `
+    SELECT *, ${batch} AS ${quoteIdentifier(BATCH_COLUMN)}, ${quoteLiteral(sourceFile)} AS ${quoteIdentifier(SOURCE_COLUMN)}
+    FROM upload_db.${tbl}
+  `;
+  await connection.run(existing
+    ? `INSERT INTO ${tbl} BY NAME ${select}`
+    : `CREATE TABLE ${tbl} AS ${select}`);
+  console.log(`📎 Appended ${rows} rows to ${table} (batch ${batch})`);
+  return rows;
+}
+
+/**
+ * Label a dataset table's rows with the first batch, before any file is appended to it
+ */
+async function addBatchColumns(
+  connection: DuckDBConnection,
+  table: string,
+  batch: number,
+  sourceFile: string
+): Promise<void> {
+  const tbl = quoteIdentifier(table);
+  for (const [column, type, value] of [
+    [BATCH_COLUMN, 'INTEGER', String(batch)],
+    [SOURCE_COLUMN, 'VARCHAR', quoteLiteral(sourceFile)]
+  ]) {
+    await connection.run(`ALTER TABLE ${tbl} ADD COLUMN ${quoteIdentifier(column)} ${type} DEFAULT ${value}`);
+    await connection.run(`ALTER TABLE ${tbl} ALTER COLUMN ${quoteIdentifier(column)} DROP DEFAULT`);
+  }
+}
+
+/**
+ * Append the rows of an upload's table to a dataset table, adding the upload's new columns
+ * and widening columns whose types differ. Returns the table's columns afterwards.
+ */
+async function appendTable(
+  connection: DuckDBConnection,
+  columns: ColumnInfo[],
+  source: TableSchema,
+  sourceName: string,
+  match: TableMatch,
+  batch: number,
+  sourceFile: string
+): Promise<{ columns: ColumnInfo[]; drift: TableDrift }> {
+  const tbl = quoteIdentifier(match.table);
+  const { mapping, added, removed, renamed } = compareColumns(dataColumns(columns), source.columns);
+  const incoming = Object.fromEntries(source.columns.map(column => [column.name, column]));
+  const merged = columns.map(column => ({ ...column }));
+
+  const retyped: TableDrift['retyped_columns'] = [];
+  for (const column of merged) {
+    const from = mapping[column.name];
+    if (!from) continue;
+    const type = commonColumnType(column.type, incoming[from].type);
+    if (type !== column.type) {
+      await connection.run(`ALTER TABLE ${tbl} ALTER COLUMN ${quoteIdentifier(column.name)} SET DATA TYPE ${type}`);
+      retyped.push({ column: column.header, from: column.type, to: type });
+      column.type = type;
+    }
+  }
+
+  // Earlier batches have no values for the upload's new columns
+  for (const column of added) {
+    await connection.run(`ALTER TABLE ${tbl} ADD COLUMN ${quoteIdentifier(column.name)} ${column.type}`);
+    merged.push({ ...column });
+    mapping[column.name] = column.name;
+  }
+
+  const types = Object.fromEntries(merged.map(column => [column.name, column.type]));
+  const targets = Object.keys(mapping);
+  const selects = targets.map(target => `CAST(${quoteIdentifier(mapping[target])} AS ${types[target]})`);
+  const upload = `upload_db.${quoteIdentifier(source.tableName)}`;
+  await connection.run(`
+    INSERT INTO ${tbl} (${[...targets, ...BATCH_COLUMNS].map(quoteIdentifier).join(', ')})
+    SELECT ${[...selects, String(batch), quoteLiteral(sourceFile)].join(', ')}
+    FROM ${upload}
+  `);
+  const rows = await countRows(connection, upload);
+  console.log(`➕ Appended ${rows} rows of ${source.tableName} to ${match.table} (batch ${batch})`);
+
+  return {
+    columns: merged,
+    drift: {
+      table: match.table,
+      source: sourceName,
+      match: Math.round(match.match * 100) / 100,
+      rows,
+      added_columns: added.map(column => column.header),
+      removed_columns: removed.map(column => column.header),
+      renamed_columns: renamed.map(({ from, to }) => ({ from: from.header, to: to.header })),
+      retyped_columns: retyped
+    }
+  };
+}
+
+/**
+ * Create the derived tables of a dataset again from its grown tables. A transform whose
+ * columns are gone is dropped along with its table.
+ */
+async function rebuildTransforms(
+  connection: DuckDBConnection,
+  transforms: TableTransform[],
+  tableColumns: Record<string, ColumnInfo[]>
+): Promise<DerivedTable[]> {
+  const rebuilt: DerivedTable[] = [];
+  const derivedColumns: Record<string, TableSchema['columns']> = {};
+
+  for (const transform of transforms) {
+    const sourceColumns = tableColumns[transform.source_table] || derivedColumns[transform.source_table];
+    if (!sourceColumns) continue;
+    const columns = schemaColumns({ tableName: transform.source_table, columns: sourceColumns });
+    const exists = (column: string) => columns.names.includes(column);
+
+    try {
+      let derived: DerivedTable;
+      if (transform.kind === 'unpivot') {
+        // A long form made at ingestion follows the crosstab as it grows, so periods added
+        // by an append are unpivoted too; a user's transform keeps the columns they chose
+        const layout = transform.origin === 'ingestion' ? detectCrosstab(dataColumns(sourceColumns)) : null;
+        const valueColumns = layout ? layout.valueColumns : transform.value_columns.filter(exists);
+        if (!valueColumns.length) {
+          throw new Error('none of its columns are left');
+        }
+        // Long rows keep the batch of the row they came from
+        const idColumns = layout ? [...layout.idColumns] : transform.id_columns.filter(exists);
+        idColumns.push(...BATCH_COLUMNS.filter(column => exists(column) && !idColumns.includes(column)));
+        derived = await createUnpivotTable(connection, transform.source_table, transform.table, columns, {
+          idColumns,
+          valueColumns
+        }, transform.origin);
+      } else {
+        if (!exists(transform.pivot_column) || !exists(transform.value_column)) {
+          throw new Error(`${transform.pivot_column} or ${transform.value_column} is gone`);
+        }
+        derived = await createPivotTable(connection, transform.source_table, transform.table, columns, {
+          rowColumns: transform.row_columns.filter(exists),
+          pivotColumn: transform.pivot_column,
+          valueColumn: transform.value_column,
+          aggregate: transform.aggregate
+        }, transform.origin);
+      }
+      rebuilt.push(derived);
+      derivedColumns[transform.table] = derived.columns.names.map(name => ({
+        name,
+        type: derived.columns.types[name],
+        header: derived.columns.headers[name] ?? name,
+        samples: []
+      }));
+    } catch (error) {
+      console.error(`⚠️ Dropping ${transform.table}, it no longer applies to ${transform.source_table}:`, error);
+      await connection.run(`DROP TABLE IF EXISTS ${quoteIdentifier(transform.table)}`);
+    }
+  }
+
+  return rebuilt;
+}
+
+/**
+ * A table's schema rebuilt after an append, keeping the descriptions written for its columns
+ */
+function mergeSchema(
+  table: string,
+  sample: Record<string, unknown>[],
+  columns: ColumnInfo[],
+  previous: TableSchema | undefined,
+  profile: WorkbookProfile | null
+): TableSchema {
+  const schema = buildTableSchema(
+    table,
+    sample,
+    schemaColumns({ tableName: table, columns }),
+    profile?.tables[table]
+  );
+  const descriptions = Object.fromEntries(columns.map(column => [column.name, column.description]));
+  return {
+    ...schema,
+    ...(previous?.description ? { description: previous.description } : {}),
+    columns: schema.columns.map(column => descriptions[column.name]
+      ? { ...column, description: descriptions[column.name] }
+      : column)
+  };
+}
+
+/**
+ * Append an upload to a dataset's database, a local copy changed in place. Each of the
+ * upload's tables goes to the dataset table it shares most columns with, or becomes a
+ * new table; every row is labelled with its batch and source file. Derived tables are
+ * rebuilt, then the database is profiled again. Returns the dataset's new metadata, with
+ * the batch and how its tables drifted from the dataset's.
+ */
+export async function mergeIntoDataset(
+  dbPath: string,
+  dataset: ExcelMetadata,
+  upload: AppendedUpload,
+  firstBatch: { sourceFile: string; uploadedAt: string },
+  onProgress?: ProgressReporter
+): Promise<{ metadata: ExcelMetadata; profile: WorkbookProfile | null; batch: DatasetBatch }> {
+  const metadata: ExcelMetadata = structuredClone(dataset);
+  const batches = metadata.batches || [];
+  const batchNumber = (batches.at(-1)?.batch ?? 1) + 1;
+  const tableColumns: Record<string, ColumnInfo[]> = Object.fromEntries(
+    metadata.sheets.map(sheet => [sheet.table, metadata.table_schemas[sheet.table]?.columns || []])
+  );
+  const drift: TableDrift[] = [];
+  const newTables: string[] = [];
+  const samples: Record<string, Record<string, unknown>[]> = {};
+  let derived: DerivedTable[] = [];
+
+  const instance = await DuckDBInstance.create(dbPath);
+  const connection = await instance.connect();
+  try {
+    await connection.run(`ATTACH ${quoteLiteral(upload.dbFile)} AS upload_db (READ_ONLY)`);
+
+    // The first append labels the rows already there as batch 1
+    if (!batches.length) {
+      const tables: TableDrift[] = [];
+      for (const sheet of metadata.sheets) {
+        await addBatchColumns(connection, sheet.table, 1, firstBatch.sourceFile);
+        tableColumns[sheet.table] = [...tableColumns[sheet.table], ...batchColumnInfos()];
+        tables.push({
+          table: sheet.table,
+          source: sheet.name || sheet.original_name,
+          match: 1,
+          rows: await countRows(connection, quoteIdentifier(sheet.table)),
+          added_columns: [],
+          removed_columns: [],
+          renamed_columns: [],
+          retyped_columns: []
+        });
+      }
+      batches.push({
+        batch: 1,
+        source_file: firstBatch.sourceFile,
+        appended_at: firstBatch.uploadedAt,
+        tables,
+        missing_tables: []
+      });
+    }
+
+    const incoming = upload.metadata.sheets
+      .map(sheet => upload.metadata.table_schemas[sheet.table])
+      .filter(Boolean);
+    const matches = matchTables(
+      metadata.sheets.map(sheet => ({ tableName: sheet.table, columns: tableColumns[sheet.table] })),
+      incoming
+    );
+
+    const tablesResult = await connection.run('SHOW TABLES');
+    const usedTables = new Set((await tablesResult.getRows()).map(([name]) => String(name)));
+
+    for (const sheet of upload.metadata.sheets) {
+      const source = upload.metadata.table_schemas[sheet.table];
+      if (!source) continue;
+      const sourceName = sheet.name || sheet.original_name;
+      const match = matches.find(candidate => candidate.source === sheet.table);
+
+      if (match) {
+        const appended = await appendTable(
+          connection, tableColumns[match.table], source, sourceName, match, batchNumber, upload.originalName
+        );
+        tableColumns[match.table] = appended.columns;
+        drift.push(appended.drift);
+        continue;
+      }
+
+      // Nothing like it in the dataset yet, so the rows become a table of their own
+      const table = uniqueName(sheet.table, usedTables);
+      await connection.run(`
+        CREATE TABLE ${quoteIdentifier(table)} AS
+        SELECT *, ${batchNumber} AS ${quoteIdentifier(BATCH_COLUMN)}, ${quoteLiteral(upload.originalName)} AS ${quoteIdentifier(SOURCE_COLUMN)}
+        FROM upload_db.${quoteIdentifier(sheet.table)}
+      `);
+      metadata.sheets.push({ ...sheet, table });
+      tableColumns[table] = [...source.columns, ...batchColumnInfos()];
+      newTables.push(table);
+      const rows = await countRows(connection, quoteIdentifier(table));
+      console.log(`🆕 Added ${sheet.table} as new table ${table} with ${rows} rows (batch ${batchNumber})`);
+      drift.push({
+        table,
+        source: sourceName,
+        match: 0,
+        new_table: true,
+        rows,
+        added_columns: source.columns.map(column => column.header),
+        removed_columns: [],
+        renamed_columns: [],
+        retyped_columns: []
+      });
+    }
+
+    for (const table of CELL_TABLES) {
+      await appendCellTable(
+        connection, table, dataset, upload.metadata, batchNumber, upload.originalName, firstBatch.sourceFile
+      );
+    }
+
+    await connection.run('DETACH upload_db');
+
+    derived = await rebuildTransforms(connection, metadata.transforms || [], tableColumns);
+
+    // New tables laid out as crosstabs get a long form, like at ingestion
+    for (const table of newTables) {
+      const layout = detectCrosstab(dataColumns(tableColumns[table]));
+      if (!layout) continue;
+      const columns = schemaColumns({ tableName: table, columns: tableColumns[table] });
+      derived.push(await createUnpivotTable(connection, table, uniqueName(`${table}${LONG_TABLE_SUFFIX}`, usedTables), columns, {
+        idColumns: [...layout.idColumns, ...BATCH_COLUMNS],
+        valueColumns: layout.valueColumns
+      }, 'ingestion'));
+    }
+
+    for (const sheet of metadata.sheets) {
+      samples[sheet.table] = await readSample(connection, sheet.table);
+    }
+  } finally {
+    await closeDatabase(instance, connection);
+  }
+
+  onProgress?.({ type: 'stage', stage: 'profiling' });
+  const profile = await tryProfileDatabase(dbPath, metadata.workbook_id, metadata.file_id);
+
+  onProgress?.({ type: 'stage', stage: 'schema' });
+  const derivedTables = derived.map(table => table.transform.table);
+  for (const transform of metadata.transforms || []) {
+    if (!derivedTables.includes(transform.table)) {
+      delete metadata.table_schemas[transform.table];
+    }
+  }
+  for (const sheet of metadata.sheets) {
+    metadata.table_schemas[sheet.table] = mergeSchema(
+      sheet.table,
+      samples[sheet.table],
+      tableColumns[sheet.table],
+      metadata.table_schemas[sheet.table],
+      profile
+    );
+  }
+  for (const table of derived) {
+    const name = table.transform.table;
+    metadata.table_schemas[name] = await generateDerivedSchema(table, profile?.tables[name]);
+  }
+  metadata.transforms = derived.length ? derived.map(table => table.transform) : undefined;
+
+  if (metadata.formulas || upload.metadata.formulas) {
+    metadata.formulas = {
+      table: FORMULAS_TABLE,
+      count: (metadata.formulas?.count || 0) + (upload.metadata.formulas?.count || 0)
+    };
+    metadata.table_schemas[FORMULAS_TABLE] = withBatchColumns(describeFormulasTable(profile?.tables[FORMULAS_TABLE]));
+  }
+  if (metadata.annotations || upload.metadata.annotations) {
+    metadata.annotations = {
+      table: ANNOTATIONS_TABLE,
+      comments: (metadata.annotations?.comments || 0) + (upload.metadata.annotations?.comments || 0),
+      hyperlinks: (metadata.annotations?.hyperlinks || 0) + (upload.metadata.annotations?.hyperlinks || 0)
+    };
+    metadata.table_schemas[ANNOTATIONS_TABLE] = withBatchColumns(describeAnnotationsTable(profile?.tables[ANNOTATIONS_TABLE]));
+  }
+
+  if (profile && metadata.sheets.length > 1) {
+    const excluded = [FORMULAS_TABLE, ANNOTATIONS_TABLE, ...derivedTables];
+    metadata.relationships = await tryDetectRelationships(dbPath, profile, excluded) || undefined;
+  }
+
+  const batch: DatasetBatch = {
+    batch: batchNumber,
+    source_file: upload.originalName,
+    appended_at: new Date().toISOString(),
+    tables: drift,
+    missing_tables: metadata.sheets
+      .map(sheet => sheet.table)
+      .filter(table => !drift.some(entry => entry.table === table))
+  };
+  metadata.batches = [...batches, batch];
+
+  return { metadata, profile, batch };
+}
@@ -0,0 +1,141 @@
+import * as XLSX from 'xlsx';
+import path from 'node:path';
+
+// SheetJS bundles its zip/compound file reader but exports it untyped
+const CFB = XLSX.CFB as {
+  read(data: Buffer, options: { type: 'buffer' }): {
+    FullPaths: string[];
+    // type 2 is a file (stream), 5 the root and 1 a directory
+    FileIndex: { type: number; content?: Uint8Array | number[] }[];
+  };
+};
+
+// Extensions of the spreadsheet formats the processors accept
+export const SPREADSHEET_EXTENSIONS = [
+  '.xlsx', '.xlsb', '.xls', '.ods', '.csv', '.tsv', '.parquet', '.json', '.ndjson', '.jsonl'
+];
+
+// Limits guarding against archives that expand into far more than was uploaded
+const MAX_ARCHIVE_ENTRIES = 100;
+const MAX_ARCHIVE_BYTES = 500 * 1024 * 1024;
+
+export interface ArchiveEntry {
+  // Path inside the archive, e.g. north/2024-01.xlsx
+  name: string;
+  data: Buffer;
+}
+
+/**
+ * Whether an upload is a zip archive of spreadsheets rather than a spreadsheet itself.
+ * .xlsx files are zip packages too, so only the .zip extension counts.
+ */
+export function isZipArchive(fileName: string): boolean {
+  return path.extname(fileName).toLowerCase() === '.zip';
+}
+
+/**
+ * Whether an archive entry is a spreadsheet worth ingesting, rather than a folder, another
+ * file type, a macOS resource fork or an Office lock file
+ */
+function isSpreadsheetEntry(name: string): boolean {
+  const baseName = path.posix.basename(name);
+  return (
+    !name.endsWith('/') &&
+    !name.startsWith('__MACOSX/') &&
+    !baseName.startsWith('.') &&
+    !baseName.startsWith('~$') &&
+    SPREADSHEET_EXTENSIONS.includes(path.posix.extname(baseName).toLowerCase())
+  );
+}
+
+/**
+ * Check the entry count and uncompressed sizes the zip's central directory declares
+ * against the limits, so an archive bomb is rejected before anything is inflated.
+ * Zip64 sizes read as 0xFFFFFFFF here, which is over the limit anyway.
+ */
+function checkDeclaredSizes(data: Buffer): void {
+  // The end of central directory record is 22 bytes plus a comment of up to 64KB
+  const searchFrom = Math.max(0, data.length - 22 - 0xffff);
+  let end = -1;
+  for (let i = data.length - 22; i >= searchFrom; i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Could not read zip archive: end of central directory not found');
+  }
+
+  const entryCount = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  let spreadsheets = 0;
+  let totalBytes = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Could not read zip archive: corrupt central directory');
+    }
+    const uncompressedSize = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    // Every entry is inflated when the archive is read, spreadsheet or not
+    totalBytes += uncompressedSize;
+    if (isSpreadsheetEntry(name)) spreadsheets++;
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  if (spreadsheets > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`The zip archive contains ${spreadsheets} spreadsheets, the limit is ${MAX_ARCHIVE_ENTRIES}`);
+  }
+  if (totalBytes > MAX_ARCHIVE_BYTES) {
+    throw new Error('The zip archive expands to more than 500MB');
+  }
+}
+
+/**
+ * Extract the spreadsheets from a zip archive, skipping folders, other file types,
+ * macOS resource forks and Office lock files
+ */
+export function extractSpreadsheets(data: Buffer): ArchiveEntry[] {
+  checkDeclaredSizes(data);
+
+  let archive: ReturnType<typeof CFB.read>;
+  try {
+    archive = CFB.read(data, { type: 'buffer' });
+  } catch (error) {
+    throw new Error(`Could not read zip archive: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let totalBytes = 0;
+
+  archive.FullPaths.forEach((fullPath, i) => {
+    const entry = archive.FileIndex[i];
+    if (entry.type !== 2 || !entry.content) return;
+
+    // Paths are reported under a synthetic root, e.g. "Root Entry/north/2024-01.xlsx"
+    const name = fullPath.split('/').slice(1).join('/');
+    if (!isSpreadsheetEntry(name)) return;
+
+    totalBytes += entry.content.length;
+    entries.push({ name, data: Buffer.from(entry.content) });
+  });
+
+  if (!entries.length) {
+    throw new Error('The zip archive contains no Excel or CSV/TSV files');
+  }
+  // Checked again on the inflated data in case the central directory understated it
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`The zip archive contains ${entries.length} spreadsheets, the limit is ${MAX_ARCHIVE_ENTRIES}`);
+  }
+  if (totalBytes > MAX_ARCHIVE_BYTES) {
+    throw new Error('The zip archive expands to more than 500MB');
+  }
+
+  console.log(`🗜️ Extracted ${entries.length} spreadsheets from zip archive`);
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,60 @@
+// Wide crosstab detection. Free of Node and DuckDB imports so the schema view can use it.
+
+// A crosstab needs this many period columns before its long form is worth creating
+const MIN_PERIOD_COLUMNS = 3;
+
+const NUMERIC_TYPE = /^(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT|FLOAT|REAL|DOUBLE|DECIMAL)/;
+
+const MONTH = '(jan(uary)?|feb(ruary)?|mar(ch)?|apr(il)?|may|june?|july?|aug(ust)?|sep(t(ember)?)?|oct(ober)?|nov(ember)?|dec(ember)?)';
+const YEAR = "(fy\\s?)?((19|20)\\d{2}|'?\\d{2})";
+const SEPARATOR = '[\\s\\-/.]*';
+
+// Headers naming a period: Jan, January 2024, Jan-24, 2024 Jan, Q1, Q1 2024, FY24 Q3,
+// 2024, FY2024, 2024-01, 2024-01-31, W12, Week 12
+const PERIOD_PATTERNS = [
+  new RegExp(`^${MONTH}(${SEPARATOR}${YEAR})?$`, 'i'),
+  new RegExp(`^${YEAR}${SEPARATOR}${MONTH}$`, 'i'),
+  new RegExp(`^(${YEAR}${SEPARATOR})?q[1-4](${SEPARATOR}${YEAR})?$`, 'i'),
+  /^(fy\s?)?(19|20)\d{2}$/i,
+  /^fy\s?\d{2}$/i,
+  /^(19|20)\d{2}[-/](0?[1-9]|1[0-2])([-/]\d{1,2})?$/,
+  /^(w|wk|week)\s?(0?[1-9]|[1-4]\d|5[0-3])$/i
+];
+
+export interface CrosstabLayout {
+  // Columns naming what each row is, repeated on every row of the long form
+  idColumns: string[];
+  // Period columns turned into rows, in sheet order
+  valueColumns: string[];
+}
+
+export function isNumericType(type: string): boolean {
+  return NUMERIC_TYPE.test(type);
+}
+
+/**
+ * Whether a column header names a period: a month, quarter, year, year-month or week
+ */
+export function isPeriodHeader(header: string): boolean {
+  const text = header.trim();
+  return PERIOD_PATTERNS.some(pattern => pattern.test(text));
+}
+
+/**
+ * Wide crosstab layout of a table: at least three numeric columns headed by periods,
+ * with the text, date and boolean columns naming each row. Other numeric columns, such
+ * as a Total, are left out of the long form. Null when a period repeats, since several
+ * measures per period do not fit one value column.
+ */
+export function detectCrosstab(columns: { name: string; type: string; header: string }[]): CrosstabLayout | null {
+  const periods = columns.filter(column => isNumericType(column.type) && isPeriodHeader(column.header));
+  if (periods.length < MIN_PERIOD_COLUMNS) return null;
+
+  const labels = periods.map(column => column.header.trim().toLowerCase());
+  if (new Set(labels).size !== labels.length) return null;
+
+  const idColumns = columns.filter(column => !isNumericType(column.type)).map(column => column.name);
+  if (!idColumns.length) return null;
+
+  return { idColumns, valueColumns: periods.map(column => column.name) };
+}
@@ -0,0 +1,320 @@
+import type { DuckDBInstance, DuckDBConnection } from '@duckdb/node-api';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  ProcessedExcelResult,
+  ExcelMetadata,
+  ColumnType,
+  ColumnUnit
+} from './types';
+import {
+  sanitizeColumnNames,
+  generateTableSchema,
+  createTableName,
+  TableColumns
+} from './schema';
+import { toColumnType, inferColumnType, fitsColumnType, TYPE_SAMPLE_SIZE } from './inference';
+import { detectNumberConvention, normalizeNumberColumn } from './normalize';
+import {
+  createWorkbookId,
+  getDatabasePath,
+  openDatabase,
+  closeDatabase,
+  writeMetadataFile,
+  testDatabaseFile
+} from './duckdb';
+import { ProgressReporter } from './progress';
+import { tryProfileDatabase } from './profile';
+import { METADATA_VERSION } from './metadata';
+import { unpivotCrosstab, generateDerivedSchema } from './transforms';
+
+type CsvEncoding = 'utf-8' | 'utf-16' | 'latin-1';
+
+// Bytes inspected when sniffing the text encoding
+const ENCODING_SAMPLE_BYTES = 64 * 1024;
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function quoteIdentifier(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Detect the text encoding of a delimited file from its byte order mark and UTF-8 validity
+ */
+export async function detectCsvEncoding(filePath: string): Promise<CsvEncoding> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(ENCODING_SAMPLE_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, ENCODING_SAMPLE_BYTES, 0);
+    const head = buffer.subarray(0, bytesRead);
+
+    if ((head[0] === 0xff && head[1] === 0xfe) || (head[0] === 0xfe && head[1] === 0xff)) {
+      return 'utf-16';
+    }
+
+    try {
+      // stream: true tolerates a multi-byte character cut off at the end of the sample
+      new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+      return 'utf-8';
+    } catch {
+      return 'latin-1';
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Create a table from a CSV/TSV file with DuckDB's reader, renaming columns to sanitized names
+ */
+async function createTableFromCsv(
+  connection: DuckDBConnection,
+  tableName: string,
+  source: string
+): Promise<{ colMapping: Record<string, string>; colTypes: Record<string, ColumnType> }> {
+  const describeResult = await connection.run(`DESCRIBE SELECT * FROM ${source}`);
+  const described = await describeResult.getRows();
+
+  const colMapping: Record<string, string> = {};
+  const colTypes: Record<string, ColumnType> = {};
+  const sanitizedNames = sanitizeColumnNames(described.map(([name]) => String(name)));
+  described.forEach(([name, type], i) => {
+    const col = sanitizedNames[i];
+    colMapping[col] = String(name);
+    colTypes[col] = toColumnType(String(type));
+  });
+
+  const selectList = Object.keys(colMapping)
+    .map(c => `CAST(${quoteIdentifier(colMapping[c])} AS ${colTypes[c]}) AS "${c}"`)
+    .join(', ');
+
+  await connection.run(`DROP TABLE IF EXISTS ${tableName};`);
+  await connection.run(`CREATE TABLE ${tableName} AS SELECT ${selectList} FROM ${source}`);
+
+  return { colMapping, colTypes };
+}
+
+/**
+ * Convert text columns holding locale-formatted numbers (1.234,56 €, (12), 12%) that the
+ * CSV sniffer left as VARCHAR into numeric columns, via a raw -> normalised value lookup
+ */
+async function normalizeNumberColumns(
+  connection: DuckDBConnection,
+  tableName: string,
+  colTypes: Record<string, ColumnType>
+): Promise<Record<string, ColumnUnit>> {
+  const colUnits: Record<string, ColumnUnit> = {};
+
+  for (const col of Object.keys(colTypes)) {
+    if (colTypes[col] !== 'VARCHAR') continue;
+
+    const distinctQuery = `SELECT DISTINCT ${quoteIdentifier(col)} FROM ${tableName} WHERE ${quoteIdentifier(col)} IS NOT NULL`;
+
+    // Rule out text columns on a sample before reading every distinct value
+    const sampleResult = await connection.run(`${distinctQuery} LIMIT ${TYPE_SAMPLE_SIZE}`);
+    const sample = (await sampleResult.getRows()).map(row => row[0]);
+    if (!detectNumberConvention(sample)) continue;
+
+    const distinctResult = await connection.run(distinctQuery);
+    const distinct = (await distinctResult.getRows()).map(row => String(row[0]));
+    const normalized = normalizeNumberColumn(distinct);
+    if (!normalized) continue;
+
+    const type = inferColumnType(normalized.values);
+    if (type === 'VARCHAR' || !fitsColumnType(normalized.values, type)) continue;
+
+    await connection.run(`CREATE TEMP TABLE number_lookup (raw VARCHAR, value VARCHAR)`);
+    const stmt = await connection.prepare(`INSERT INTO number_lookup VALUES (?, ?)`);
+    for (let i = 0; i < distinct.length; i++) {
+      const value = normalized.values[i];
+      stmt.bindVarchar(1, distinct[i]);
+      if (value === null) {
+        stmt.bindNull(2);
+      } else {
+        stmt.bindVarchar(2, value);
+      }
+      await stmt.run();
+    }
+
+    await connection.run(`CREATE OR REPLACE TABLE ${tableName} AS
+      SELECT t.* REPLACE (CAST(n.value AS ${type}) AS ${quoteIdentifier(col)})
+      FROM ${tableName} t LEFT JOIN number_lookup n ON t.${quoteIdentifier(col)} = n.raw
+      ORDER BY t.rowid`);
+    await connection.run(`DROP TABLE number_lookup`);
+
+    colTypes[col] = type;
+    const { decimalSeparator, unit } = normalized.convention;
+    if (unit) colUnits[col] = unit;
+    console.log(`🔢 Normalised ${col} to ${type}: decimal "${decimalSeparator}"${unit ? `, unit ${unit.kind === 'currency' ? unit.currency : '%'}` : ''}`);
+  }
+
+  return colUnits;
+}
+
+/**
+ * Process a CSV/TSV file and convert it to a single-table DuckDB database.
+ * Delimiter, quoting and header row are detected by DuckDB's CSV sniffer.
+ */
+export async function processCsvFile(
+  filePath: string,
+  fileId: string,
+  originalName: string,
+  onProgress?: ProgressReporter
+): Promise<ProcessedExcelResult> {
+  const sha = createWorkbookId(fileId);
+  const dbFile = getDatabasePath(sha);
+  console.log(`Processing delimited file: ${filePath} (ID: ${sha})`);
+
+  const sheetName = path.parse(originalName).name || 'data';
+  const tbl = createTableName(sheetName);
+
+  const encoding = await detectCsvEncoding(filePath);
+  console.log(`Detected encoding: ${encoding}`);
+
+  const { instance, connection } = await openDatabase(dbFile, [tbl]);
+  onProgress?.({ type: 'sheet', sheet: sheetName, index: 0, total: 1 });
+
+  const readerArgs = `${quoteLiteral(filePath)}, encoding = ${quoteLiteral(encoding)}`;
+  let source = `read_csv(${readerArgs})`;
+  let created: Awaited<ReturnType<typeof createTableFromCsv>>;
+
+  try {
+    try {
+      created = await createTableFromCsv(connection, tbl, source);
+    } catch (typedError) {
+      // Rows beyond the sniffer's sample may not fit the detected types
+      console.warn(`⚠️ Typed CSV import failed, retrying with VARCHAR columns:`, typedError);
+      source = `read_csv(${readerArgs}, all_varchar = true)`;
+      created = await createTableFromCsv(connection, tbl, source);
+    }
+  } catch (error) {
+    // Past this point finishSingleTable closes the database
+    await closeDatabase(instance, connection);
+    throw error;
+  }
+
+  return finishSingleTable({
+    instance,
+    connection,
+    sha,
+    dbFile,
+    fileId,
+    tbl,
+    sheetName,
+    originalName,
+    ...created
+  }, onProgress);
+}
+
+/**
+ * A single table created from a file by one of DuckDB's readers, its database still open
+ */
+export interface SingleTableImport {
+  instance: DuckDBInstance;
+  connection: DuckDBConnection;
+  sha: string;
+  dbFile: string;
+  fileId: string;
+  tbl: string;
+  sheetName: string;
+  originalName: string;
+  // Sanitized column name -> the file's own column name
+  colMapping: Record<string, string>;
+  colTypes: Record<string, ColumnType>;
+}
+
+/**
+ * Complete a database of one table read by DuckDB: normalise number columns, check for
+ * rows, add the long form of a crosstab, then profile, generate schemas and write metadata
+ */
+export async function finishSingleTable(
+  imported: SingleTableImport,
+  onProgress?: ProgressReporter
+): Promise<ProcessedExcelResult> {
+  const { instance, connection, sha, dbFile, fileId, tbl, sheetName, originalName, colMapping, colTypes } = imported;
+  const cols = Object.keys(colMapping);
+  let colUnits: Record<string, ColumnUnit>;
+  let columns: TableColumns;
+  let sampleRows: Record<string, unknown>[];
+  let derived: Awaited<ReturnType<typeof unpivotCrosstab>>;
+
+  try {
+    colUnits = await normalizeNumberColumns(connection, tbl, colTypes);
+    console.log(`📊 Processing file: ${originalName} -> table: ${tbl}`);
+    console.log(`🔧 Columns: ${cols.map(c => `${c} ${colTypes[c]}`).join(', ')}`);
+
+    const rowCountResult = await connection.run(`SELECT COUNT(*) FROM ${tbl}`);
+    const rowCountData = await rowCountResult.getRows();
+    const rowCount = Number(rowCountData[0][0]);
+    console.log(`📥 Inserted ${rowCount} rows into ${tbl}`);
+    onProgress?.({ type: 'rows', table: tbl, sheet: sheetName, rows: rowCount, totalRows: rowCount });
+    onProgress?.({ type: 'sheet', index: 1, total: 1 });
+
+    if (rowCount === 0) {
+      throw new Error('File contains no data rows');
+    }
+
+    // Sample rows keyed by column name for schema generation
+    const sampleResult = await connection.run(`SELECT * FROM ${tbl} LIMIT 5`);
+    sampleRows = await sampleResult.getRowObjectsJson();
+
+    columns = { names: cols, types: colTypes, headers: colMapping, units: colUnits };
+    derived = await unpivotCrosstab(connection, tbl, columns);
+  } finally {
+    await closeDatabase(instance, connection);
+  }
+
+  onProgress?.({ type: 'stage', stage: 'profiling' });
+  const profile = await tryProfileDatabase(dbFile, sha, fileId);
+
+  const tableColumnMappings: Record<string, string[]> = { [tbl]: cols };
+  const tableColumnTypes: Record<string, Record<string, ColumnType>> = { [tbl]: colTypes };
+  const tableColumnUnits: Record<string, Record<string, ColumnUnit>> = Object.keys(colUnits).length
+    ? { [tbl]: colUnits }
+    : {};
+
+  onProgress?.({ type: 'schema', table: tbl, index: 0, total: 1 });
+  const schema = await generateTableSchema(
+    tbl,
+    sampleRows,
+    columns,
+    profile?.tables[tbl]
+  );
+  const schemas = { [tbl]: schema };
+  if (derived) {
+    const { table } = derived.transform;
+    schemas[table] = await generateDerivedSchema(derived, profile?.tables[table]);
+  }
+
+  const metadata: ExcelMetadata = {
+    version: METADATA_VERSION,
+    workbook_id: sha,
+    file_id: fileId,
+    sheets: [{
+      table: tbl,
+      original_name: sheetName
+    }],
+    table_schemas: schemas,
+    transforms: derived ? [derived.transform] : undefined
+  };
+
+  onProgress?.({ type: 'schema', index: 1, total: 1 });
+
+  await writeMetadataFile(metadata);
+
+  await testDatabaseFile(dbFile);
+
+  return {
+    sha,
+    dbFile,
+    metadata,
+    profile,
+    sheetsProcessed: 1,
+    tableColumnMappings,
+    tableColumnTypes,
+    tableColumnUnits
+  };
+}
@@ -1,5 +1,8 @@
 import { SupabaseClient } from '@supabase/supabase-js';
-import { DuckDBFileRecord } from './types';
+import { DuckDBFileRecord, UploadSession } from './types';
+
+// Upload size limit for tenants without their own max_upload_bytes
+export const DEFAULT_MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
 
 /**
  * Get a file record from the duckdb_files table
@@ -22,6 +25,76 @@ export async function getFileRecord(
   return data as DuckDBFileRecord;
 }
 
+/**
+ * Find a processed or still processing upload with exactly the same contents
+ */
+export async function findFileByContentHash(
+  supabase: SupabaseClient,
+  contentHash: string
+): Promise<DuckDBFileRecord | null> {
+  const { data, error } = await supabase
+    .from('duckdb_files')
+    .select('*')
+    .eq('content_hash', contentHash)
+    .in('status', ['queued', 'processing', 'appending', 'completed', 'completed_with_warnings'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error looking up file by content hash:', error);
+    return null;
+  }
+
+  return data as DuckDBFileRecord | null;
+}
+
+/**
+ * Whether an upload with exactly the same contents was already appended to a dataset,
+ * or is queued to be
+ */
+export async function hasAppendedContent(
+  supabase: SupabaseClient,
+  fileId: string,
+  contentHash: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .select('job_id')
+    .eq('file_id', fileId)
+    .eq('mode', 'append')
+    .eq('content_hash', contentHash)
+    .neq('status', 'failed')
+    .limit(1);
+
+  if (error) {
+    console.error('Error looking up appended uploads:', error);
+    return false;
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Get all versions of a document, newest first
+ */
+export async function getDocumentVersions(
+  supabase: SupabaseClient,
+  documentId: string
+): Promise<DuckDBFileRecord[]> {
+  const { data, error } = await supabase
+    .from('duckdb_files')
+    .select('*')
+    .eq('document_id', documentId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch document versions: ${error.message}`);
+  }
+
+  return (data || []) as DuckDBFileRecord[];
+}
+
 /**
  * Update file status in the duckdb_files table
  */
@@ -74,4 +147,42 @@ export async function getTenantID(supabase: SupabaseClient): Promise<string> {
     console.error('Unexpected error:', err);
     throw new Error('An unexpected error occurred while fetching the tenant ID.');
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Largest upload the current user's tenant accepts, in bytes
+ */
+export async function getUploadSizeLimit(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from('tenants')
+    .select('max_upload_bytes')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching upload size limit:', error);
+    return DEFAULT_MAX_UPLOAD_BYTES;
+  }
+
+  return data?.max_upload_bytes ? Number(data.max_upload_bytes) : DEFAULT_MAX_UPLOAD_BYTES;
+}
+
+/**
+ * Get a resumable upload session of the current user
+ */
+export async function getUploadSession(
+  supabase: SupabaseClient,
+  sessionId: string
+): Promise<UploadSession | null> {
+  const { data, error } = await supabase
+    .from('upload_sessions')
+    .select('*')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching upload session:', error);
+    return null;
+  }
+
+  return data;
+}
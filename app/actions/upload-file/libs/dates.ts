@@ -0,0 +1,100 @@
+import * as XLSX from 'xlsx';
+
+/**
+ * What an Excel date/time number format displays: a calendar date, a date and time,
+ * or a time of day
+ */
+export type DateFormatKind = 'date' | 'datetime' | 'time';
+
+// SheetJS exports its number format library untyped
+const SSF = XLSX.SSF as {
+  is_date(format: string): boolean;
+  parse_date_code(
+    serial: number,
+    options?: { date1904?: boolean }
+  ): { y: number; m: number; d: number; H: number; M: number; S: number } | null;
+};
+
+// Serial of 9999-12-31, the last date Excel can display
+const MAX_DATE_SERIAL = 2958465;
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Whether the workbook counts serial dates from 1904 (older Mac workbooks) instead of 1900
+ */
+export function isDate1904(wb: XLSX.WorkBook): boolean {
+  return Boolean(wb.Workbook?.WBProps?.date1904);
+}
+
+/**
+ * Classify an Excel number format as a date, date-time or time format.
+ * Elapsed-time formats such as [h]:mm are durations, not points in time, and return null.
+ */
+export function getDateFormatKind(format?: string): DateFormatKind | null {
+  if (!format || !SSF.is_date(format)) return null;
+
+  // Only the positive section matters; drop literal text, escaped characters and AM/PM markers
+  const tokens = format.split(';')[0]
+    .replace(/"[^"]*"/g, '')
+    .replace(/\\./g, '')
+    .replace(/am\/pm|a\/p/gi, '')
+    .toLowerCase();
+
+  if (/\[(h+|m+|s+)\]/.test(tokens)) return null;
+
+  // Colour and locale blocks such as [Red] or [$-409]
+  const cleaned = tokens.replace(/\[[^\]]*\]/g, '');
+  const hasTime = /[hs]/.test(cleaned);
+  // "m" means minutes next to hours/seconds and months otherwise
+  const hasDate = /[yde]/.test(cleaned) || (!hasTime && /m/.test(cleaned));
+
+  if (hasDate && hasTime) return 'datetime';
+  return hasTime ? 'time' : 'date';
+}
+
+/**
+ * Convert an Excel serial number to the canonical DuckDB DATE, TIMESTAMP or TIME string.
+ * Returns null for serials outside Excel's calendar, including the phantom 1900-02-29.
+ */
+export function serialToText(
+  serial: number,
+  kind: DateFormatKind,
+  date1904 = false
+): string | null {
+  if (!Number.isFinite(serial) || serial < 0 || serial > MAX_DATE_SERIAL) return null;
+
+  const parsed = SSF.parse_date_code(serial, { date1904 });
+  if (!parsed) return null;
+
+  const time = `${pad(parsed.H)}:${pad(parsed.M)}:${pad(parsed.S)}`;
+  if (kind === 'time') return time;
+
+  const date = new Date(Date.UTC(parsed.y, parsed.m - 1, parsed.d));
+  if (date.getUTCMonth() !== parsed.m - 1 || date.getUTCDate() !== parsed.d) return null;
+
+  const day = `${pad(parsed.y, 4)}-${pad(parsed.m)}-${pad(parsed.d)}`;
+  return kind === 'date' ? day : `${day} ${time}`;
+}
+
+/**
+ * Canonical date/time text for a cell holding an Excel date, or null for any other cell
+ */
+export function dateCellText(cell: XLSX.CellObject | undefined, date1904 = false): string | null {
+  if (!cell) return null;
+
+  if (cell.t === 'd' && cell.v instanceof Date) {
+    const iso = cell.v.toISOString();
+    const kind = getDateFormatKind(cell.z as string | undefined) ?? 'datetime';
+    if (kind === 'date') return iso.slice(0, 10);
+    if (kind === 'time') return iso.slice(11, 19);
+    return `${iso.slice(0, 10)} ${iso.slice(11, 19)}`;
+  }
+
+  if (cell.t !== 'n' || typeof cell.v !== 'number') return null;
+
+  const kind = getDateFormatKind(cell.z as string | undefined);
+  return kind ? serialToText(cell.v, kind, date1904) : null;
+}
@@ -0,0 +1,235 @@
+import { DuckDBInstance, DuckDBConnection } from '@duckdb/node-api';
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { ExcelMetadata, ColumnType, WorkbookProfile } from './types';
+
+// Rows appended before the appender is flushed to the table
+const APPEND_BATCH_ROWS = 10000;
+
+/**
+ * Create the workbook SHA from the file ID for consistency
+ */
+export function createWorkbookId(fileId: string): string {
+  return crypto.createHash('sha256')
+    .update(fileId)
+    .digest('hex')
+    .slice(0, 12);
+}
+
+/**
+ * Local temp path of the DuckDB database built for a workbook
+ */
+export function getDatabasePath(sha: string): string {
+  return path.join(os.tmpdir(), `${sha}.duckdb`);
+}
+
+/**
+ * Local temp path of the metadata.json written for a workbook
+ */
+export function getMetadataPath(sha: string): string {
+  return path.join(os.tmpdir(), `${sha}.json`);
+}
+
+/**
+ * Local temp path of the profile.json written for a workbook
+ */
+export function getProfilePath(sha: string): string {
+  return path.join(os.tmpdir(), `${sha}.profile.json`);
+}
+
+/**
+ * Open a fresh DuckDB database file, dropping any tables left from a previous run
+ */
+export async function openDatabase(
+  dbFile: string,
+  expectedTableNames: string[] = []
+): Promise<{ instance: DuckDBInstance; connection: DuckDBConnection }> {
+  const instance = await DuckDBInstance.create(dbFile);
+  const connection = await instance.connect();
+
+  const existingTablesResult = await connection.run("SHOW TABLES");
+  const existingTables = await existingTablesResult.getRows();
+  for (const [tableName] of existingTables) {
+    if (tableName && typeof tableName === 'string' && !expectedTableNames.includes(tableName)) {
+      await connection.run(`DROP TABLE IF EXISTS "${tableName}"`);
+      console.log(`Cleaned up unrelated table: ${tableName}`);
+    }
+  }
+
+  return { instance, connection };
+}
+
+/**
+ * (Re)create a table with the given sanitized column names and types
+ */
+export async function createTable(
+  connection: DuckDBConnection,
+  tableName: string,
+  cols: string[],
+  colTypes: Record<string, ColumnType>
+): Promise<void> {
+  const createTableSQL = `CREATE TABLE ${tableName} (${cols.map(c => `"${c}" ${colTypes[c]}`).join(',')})`;
+  await connection.run(`DROP TABLE IF EXISTS ${tableName};`);
+  await connection.run(createTableSQL);
+  console.log(`✅ Created table: ${tableName}`);
+  console.log(`🔧 SQL: ${createTableSQL}`);
+}
+
+/**
+ * Append rows to a table with DuckDB's appender, flushing in batches. Values are canonical
+ * strings that DuckDB casts into the column types; null and undefined become NULL.
+ * Returns the number of rows appended.
+ */
+export async function appendRows(
+  connection: DuckDBConnection,
+  tableName: string,
+  rows: Iterable<(string | null | undefined)[]>,
+  reportRows?: (rows: number) => void,
+  reportInterval = APPEND_BATCH_ROWS
+): Promise<number> {
+  const appender = await connection.createAppender(tableName);
+  let appended = 0;
+
+  try {
+    for (const values of rows) {
+      for (const value of values) {
+        if (value === null || value === undefined) {
+          appender.appendNull();
+        } else {
+          appender.appendVarchar(value);
+        }
+      }
+      appender.endRow();
+      appended++;
+
+      if (appended % APPEND_BATCH_ROWS === 0) {
+        appender.flushSync();
+        // Let pending progress writes go out between batches
+        await new Promise(resolve => setImmediate(resolve));
+      }
+      if (appended % reportInterval === 0) {
+        reportRows?.(appended);
+      }
+    }
+    appender.flushSync();
+  } finally {
+    appender.closeSync();
+  }
+
+  reportRows?.(appended);
+  return appended;
+}
+
+/**
+ * Force DuckDB to flush all data to disk and release the file handles
+ */
+export async function closeDatabase(
+  instance: DuckDBInstance,
+  connection: DuckDBConnection
+): Promise<void> {
+  console.log('🔧 Forcing DuckDB to flush all data to disk...');
+
+  // 1. Commit any pending transactions
+  try {
+    await connection.run("COMMIT");
+    console.log('✅ Committed all transactions');
+  } catch {
+    console.log('ℹ️ No pending transactions to commit');
+  }
+
+  // 2. Force a checkpoint to ensure all data is written to disk
+  try {
+    await connection.run("CHECKPOINT");
+    console.log('✅ Checkpoint completed - all data flushed to disk');
+  } catch (checkpointError) {
+    console.error('⚠️ Checkpoint failed:', checkpointError);
+  }
+
+  // 3. Close the connection properly to ensure all buffers are flushed
+  try {
+    if (connection && typeof connection.disconnectSync === 'function') {
+      connection.disconnectSync();
+      console.log('✅ Database connection closed properly');
+    } else if (connection && typeof connection.closeSync === 'function') {
+      connection.closeSync();
+      console.log('✅ Database connection closed properly');
+    } else {
+      console.log('ℹ️ Connection close method not available');
+    }
+  } catch (closeError) {
+    console.error('❌ Error closing connection:', closeError);
+  }
+
+  // 4. Close the instance to release file handles
+  try {
+    if (instance && typeof instance.closeSync === 'function') {
+      instance.closeSync();
+      console.log('✅ DuckDB instance closed');
+    } else {
+      console.log('ℹ️ Instance close method not available');
+    }
+  } catch (instanceCloseError) {
+    console.error('❌ Error closing instance:', instanceCloseError);
+  }
+}
+
+/**
+ * Write metadata.json for a workbook to the temp directory
+ */
+export async function writeMetadataFile(metadata: ExcelMetadata): Promise<string> {
+  const metadataPath = getMetadataPath(metadata.workbook_id);
+  await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2));
+  return metadataPath;
+}
+
+/**
+ * Write profile.json for a workbook to the temp directory
+ */
+export async function writeProfileFile(profile: WorkbookProfile): Promise<string> {
+  const profilePath = getProfilePath(profile.workbook_id);
+  await fs.writeFile(profilePath, JSON.stringify(profile, null, 2));
+  return profilePath;
+}
+
+/**
+ * Quick verification that the database file was created and its tables can be queried
+ */
+export async function testDatabaseFile(dbFile: string): Promise<void> {
+  console.log(`🔍 Verifying database file: ${dbFile}`);
+  const fileExists = await fs.access(dbFile).then(() => true).catch(() => false);
+  console.log(`📁 Database file exists: ${fileExists}`);
+
+  if (!fileExists) {
+    return;
+  }
+
+  const fileStats = await fs.stat(dbFile);
+  console.log(`📏 Database file size: ${fileStats.size} bytes`);
+
+  // Test the database before upload
+  console.log('🔍 Testing database before upload...');
+  const testInstance = await DuckDBInstance.create(dbFile);
+  const testConnection = await testInstance.connect();
+
+  const testTablesResult = await testConnection.run("SHOW TABLES");
+  const testTables = await testTablesResult.getRows();
+  const testTableNames = testTables.map((row: unknown[]) => row[0] as string);
+  console.log(`📋 Tables in database before upload: ${testTableNames.join(', ')}`);
+
+  // Test a simple query on each table
+  for (const tableName of testTableNames) {
+    try {
+      const testCountResult = await testConnection.run(`SELECT COUNT(*) FROM ${tableName}`);
+      const testCountData = await testCountResult.getRows();
+      const testRowCount = Number(testCountData[0][0]);
+      console.log(`📊 Table ${tableName}: ${testRowCount} rows`);
+    } catch (error) {
+      console.error(`❌ Error testing table ${tableName}:`, error);
+    }
+  }
+
+  testConnection.disconnectSync();
+  testInstance.closeSync();
+}
@@ -0,0 +1,138 @@
+import * as XLSX from 'xlsx';
+import type { DuckDBConnection } from '@duckdb/node-api';
+import { SheetInfo, TableProfile, TableSchema } from './types';
+import { appendRows } from './duckdb';
+
+// Companion table holding every formula cell of the workbook
+export const FORMULAS_TABLE = '__formulas';
+
+export interface FormulaCell {
+  sheet: string;
+  cell: string;
+  row: number;
+  column: number;
+  formula: string;
+  value: string | null;
+}
+
+/**
+ * Where the columns of an imported table sit on its sheet, by absolute column index
+ */
+export interface TableColumnLocation {
+  sheet: SheetInfo;
+  columns: Record<number, { name: string; header: string }>;
+}
+
+/**
+ * Collect the formula cells of a worksheet with their cached (last calculated) values
+ */
+export function readFormulaCells(ws: XLSX.WorkSheet, sheetName: string): FormulaCell[] {
+  const cells: FormulaCell[] = [];
+
+  for (const address of Object.keys(ws)) {
+    if (address.startsWith('!')) continue;
+
+    const cell = ws[address] as XLSX.CellObject;
+    if (!cell?.f) continue;
+
+    const { r, c } = XLSX.utils.decode_cell(address);
+    const cached = cell.w ?? (cell.v === undefined || cell.v === null ? null : String(cell.v));
+    cells.push({
+      sheet: sheetName,
+      cell: address,
+      row: r,
+      column: c,
+      formula: `=${cell.f}`,
+      value: cached
+    });
+  }
+
+  return cells.sort((a, b) => a.row - b.row || a.column - b.column);
+}
+
+/**
+ * Find the imported table and column a cell belongs to, if any
+ */
+export function locateCell(
+  cell: { sheet: string; row: number; column: number },
+  locations: TableColumnLocation[]
+): { table: string; name: string; header: string } | null {
+  for (const { sheet, columns } of locations) {
+    if (sheet.original_name !== cell.sheet || !sheet.range || !columns[cell.column]) continue;
+
+    const { s, e } = XLSX.utils.decode_range(sheet.range);
+    if (cell.row >= s.r && cell.row <= e.r) {
+      return { table: sheet.table, ...columns[cell.column] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create the formulas table: one row per formula cell with its sheet, address, the
+ * table and column it feeds (when inside an imported table), the formula and its cached value
+ */
+export async function createFormulasTable(
+  connection: DuckDBConnection,
+  cells: FormulaCell[],
+  locations: TableColumnLocation[]
+): Promise<void> {
+  await connection.run(`DROP TABLE IF EXISTS ${FORMULAS_TABLE};`);
+  await connection.run(`CREATE TABLE ${FORMULAS_TABLE} (
+    "sheet" VARCHAR,
+    "cell" VARCHAR,
+    "table_name" VARCHAR,
+    "column_name" VARCHAR,
+    "header" VARCHAR,
+    "row_number" INTEGER,
+    "formula" VARCHAR,
+    "value" VARCHAR
+  )`);
+
+  await appendRows(connection, FORMULAS_TABLE, cells.map(cell => {
+    const location = locateCell(cell, locations);
+    return [
+      cell.sheet,
+      cell.cell,
+      location?.table,
+      location?.name,
+      location?.header,
+      String(cell.row + 1),
+      cell.formula,
+      cell.value
+    ];
+  }));
+
+  console.log(`🧮 Stored ${cells.length} formula cells in ${FORMULAS_TABLE}`);
+}
+
+// Columns of the formulas table: name, type, header and fixed description
+const FORMULAS_COLUMNS: [string, string, string, string][] = [
+  ['sheet', 'VARCHAR', 'Sheet', 'Worksheet name the formula cell is on'],
+  ['cell', 'VARCHAR', 'Cell', 'Cell address, e.g. D5'],
+  ['table_name', 'VARCHAR', 'Table', 'Imported table the cell belongs to, NULL if outside any table'],
+  ['column_name', 'VARCHAR', 'Column', 'Database column of that table the cell belongs to'],
+  ['header', 'VARCHAR', 'Header', 'Original spreadsheet header of that column, e.g. Net Margin'],
+  ['row_number', 'INTEGER', 'Row', 'Spreadsheet row number of the cell'],
+  ['formula', 'VARCHAR', 'Formula', 'Excel formula text, e.g. =C5/B5'],
+  ['value', 'VARCHAR', 'Value', 'Value the formula last calculated to in Excel']
+];
+
+/**
+ * Fixed schema of the formulas table, with the profile of its columns when there is one
+ */
+export function describeFormulasTable(profile?: TableProfile): TableSchema {
+  return {
+    tableName: FORMULAS_TABLE,
+    description: 'Formula cells of the workbook with their cached values',
+    columns: FORMULAS_COLUMNS.map(([name, type, header, description]) => ({
+      name,
+      type,
+      header,
+      samples: [],
+      description,
+      ...(profile?.columns[name] ? { profile: profile.columns[name] } : {})
+    }))
+  };
+}
@@ -11,26 +11,182 @@ export {
 // Export database utilities
 export { 
   getFileRecord, 
-  updateFileStatus 
+  updateFileStatus,
+  findFileByContentHash,
+  hasAppendedContent,
+  getDocumentVersions,
+  getUploadSizeLimit,
+  getUploadSession,
+  DEFAULT_MAX_UPLOAD_BYTES
 } from './database';
 
+// Export DuckDB utilities
+export { createWorkbookId } from './duckdb';
+
 // Export schema utilities
 export { 
   sanitizeColumnName, 
+  sanitizeColumnNames,
   generateTableSchema, 
-  createTableName 
+  buildTableSchema,
+  enrichTableSchema,
+  renderTableSchema,
+  createTableName,
+  createRegionTableName,
+  createNamedTableName,
+  type TableColumns
 } from './schema';
 
-// Export processor
+// Export type inference utilities
+export { 
+  inferColumnType, 
+  coerceValue, 
+  fitsColumnType 
+} from './inference';
+
+// Export number normalisation utilities
+export { 
+  detectNumberConvention, 
+  normalizeNumber, 
+  normalizeNumberColumn,
+  type NumberConvention 
+} from './normalize';
+
+// Export Excel date utilities
+export { 
+  isDate1904, 
+  getDateFormatKind, 
+  serialToText, 
+  dateCellText,
+  type DateFormatKind 
+} from './dates';
+
+// Export sheet layout utilities
+export { 
+  readSheetMatrix,
+  extractSheetTables, 
+  extractRangeTable,
+  detectRegions,
+  detectHeaderRows, 
+  flattenHeaders,
+  type SheetTable,
+  type SheetColumn,
+  type SheetMatrix
+} from './layout';
+
+// Export workbook structure utilities
+export { 
+  readExcelTables, 
+  readNamedRanges, 
+  readHiddenSheets,
+  isHiddenSheetExclusionEnabled,
+  type DefinedTable 
+} from './structures';
+
+// Export formula lineage utilities
+export { 
+  FORMULAS_TABLE, 
+  readFormulaCells, 
+  createFormulasTable, 
+  describeFormulasTable,
+  type FormulaCell 
+} from './formulas';
+
+// Export cell comment and hyperlink utilities
+export { 
+  ANNOTATIONS_TABLE, 
+  readAnnotationCells, 
+  createAnnotationsTable, 
+  describeAnnotationsTable,
+  type AnnotationCell 
+} from './annotations';
+
+// Export processors
 export { processExcelFile } from './processor';
+export { processCsvFile, detectCsvEncoding } from './csv';
+export { processParquetFile, processJsonFile, getFlattenDepth } from './readers';
+export { processFile, detectFileFormat, type FileFormat } from './ingest';
+
+// Export zip archive utilities
+export { 
+  SPREADSHEET_EXTENSIONS, 
+  isZipArchive, 
+  extractSpreadsheets, 
+  type ArchiveEntry 
+} from './archive';
+
+// Export ingestion progress events
+export { 
+  applyProgressEvent, 
+  createInitialProgress, 
+  type ProgressEvent, 
+  type ProgressReporter 
+} from './progress';
+
+// Export background ingestion jobs
+export { 
+  enqueueIngestionJob, 
+  runIngestionJob, 
+  processIngestionQueue 
+} from './jobs';
 
 // Export validator
 export { 
   validateDatabase,
   validateDatabaseWithMetadata,
-  createValidationSchemaFromMetadata,
-  type ValidationSchema,
-  type ValidationResult,
-  type ValidationError,
-  type ValidationWarning
-} from './validator'; 
\ No newline at end of file
+  createValidationSchemaFromMetadata
+} from './validator'; 
+
+// Export column profiling
+export { 
+  profileDatabase,
+  tryProfileDatabase,
+  PROFILE_FILE_NAME
+} from './profile';
+
+// Export relationship detection
+export { 
+  detectRelationships,
+  tryDetectRelationships
+} from './relationships';
+
+// Export metadata versioning
+export { 
+  METADATA_VERSION,
+  upgradeMetadata,
+  upgradeStoredMetadata,
+  type MetadataUpgradeResult
+} from './metadata';
+
+// Export crosstab detection and table transforms
+export { 
+  detectCrosstab,
+  isPeriodHeader,
+  type CrosstabLayout
+} from './crosstab';
+export { 
+  LONG_TABLE_SUFFIX,
+  PIVOT_TABLE_SUFFIX,
+  PIVOT_AGGREGATES,
+  createUnpivotTable,
+  createPivotTable,
+  unpivotCrosstab,
+  describeTransform,
+  transformStoredTable,
+  type DerivedTable,
+  type TransformRequest
+} from './transforms';
+
+// Export dataset appends
+export { 
+  BATCH_COLUMN,
+  SOURCE_COLUMN,
+  mergeIntoDataset,
+  matchTables,
+  commonColumnType,
+  getDatasetFolder,
+  getRevisionPaths,
+  isRevisionFolder,
+  type AppendedUpload,
+  type TableMatch
+} from './append';
@@ -0,0 +1,299 @@
+import { ColumnType } from './types';
+
+// Number of non-empty values inspected per column when inferring a type
+export const TYPE_SAMPLE_SIZE = 1000;
+
+const INT32_MAX = 2147483647;
+const DECIMAL_PRECISION = 18;
+const MAX_DECIMAL_SCALE = 6;
+
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+const NUMBER_PATTERN = /^[+-]?(\d+|\d{1,3}(,\d{3})+)?(\.\d+)?$/;
+const SCIENTIFIC_PATTERN = /^[+-]?\d+(\.\d+)?e[+-]?\d+$/i;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const US_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/;
+const ISO_TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{1,2}):(\d{2})(?::(\d{2})(\.\d+)?)?$/;
+const US_TIMESTAMP_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4}) (\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2})(\.\d+)?)?(?:\s*([AP])M)?$/i;
+
+type ValueKind = 'boolean' | 'number' | 'scientific' | 'date' | 'timestamp' | 'time' | 'text';
+
+/**
+ * Convert a raw cell value to the trimmed string used for inference and insertion
+ */
+function toText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+/**
+ * Expand a two-digit year using Excel's 1930 cut-off
+ */
+function expandYear(year: string): number {
+  const parsed = Number(year);
+  if (year.length === 4) return parsed;
+  return parsed < 30 ? 2000 + parsed : 1900 + parsed;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Build a canonical YYYY-MM-DD string, or null if the date does not exist
+ */
+function formatDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Build a canonical timestamp string, or null if any component is out of range
+ */
+function formatTimestamp(
+  date: string | null,
+  hours: string,
+  minutes: string,
+  seconds = '0',
+  fraction = ''
+): string | null {
+  const h = Number(hours);
+  const m = Number(minutes);
+  const s = Number(seconds);
+  if (!date || h > 23 || m > 59 || s > 59) return null;
+  return `${date} ${pad(h)}:${pad(m)}:${pad(s)}${fraction}`;
+}
+
+/**
+ * Parse a date string (ISO or the m/d/yy format SheetJS emits) to YYYY-MM-DD
+ */
+function parseDate(text: string): string | null {
+  const iso = text.match(ISO_DATE_PATTERN);
+  if (iso) return formatDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const us = text.match(US_DATE_PATTERN);
+  if (us) return formatDate(expandYear(us[3]), Number(us[1]), Number(us[2]));
+
+  return null;
+}
+
+/**
+ * Parse a timestamp string (ISO or m/d/yy h:mm) to YYYY-MM-DD HH:MM:SS
+ */
+function parseTimestamp(text: string): string | null {
+  const iso = text.match(ISO_TIMESTAMP_PATTERN);
+  if (iso) {
+    const date = formatDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    return formatTimestamp(date, iso[4], iso[5], iso[6], iso[7]);
+  }
+
+  const us = text.match(US_TIMESTAMP_PATTERN);
+  if (us) {
+    const date = formatDate(expandYear(us[3]), Number(us[1]), Number(us[2]));
+    return formatTimestamp(date, us[4], us[5], us[6]);
+  }
+
+  return null;
+}
+
+/**
+ * Parse a time of day (h:mm, hh:mm:ss, optional AM/PM) to HH:MM:SS
+ */
+function parseTime(text: string): string | null {
+  const match = text.match(TIME_PATTERN);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const meridiem = match[5]?.toUpperCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'P' ? 12 : 0);
+  }
+
+  const time = formatTimestamp('0000-01-01', String(hours), match[2], match[3], match[4]);
+  return time ? time.slice(11) : null;
+}
+
+/**
+ * Classify a single non-empty value
+ */
+function classifyValue(text: string): ValueKind {
+  if (BOOLEAN_PATTERN.test(text)) return 'boolean';
+  if (NUMBER_PATTERN.test(text) && /\d/.test(text)) {
+    // Leading zeros (zip codes, account numbers) are identifiers, not numbers
+    return /^[+-]?0\d/.test(text) ? 'text' : 'number';
+  }
+  if (SCIENTIFIC_PATTERN.test(text)) return 'scientific';
+  if (parseDate(text)) return 'date';
+  if (parseTimestamp(text)) return 'timestamp';
+  if (parseTime(text)) return 'time';
+  return 'text';
+}
+
+/**
+ * Pick the narrowest numeric type that holds every sampled number
+ */
+function inferNumericType(values: string[]): ColumnType {
+  let maxIntegerDigits = 0;
+  let maxScale = 0;
+  let exceedsInt32 = false;
+
+  for (const value of values) {
+    const unsigned = value.replace(/^[+-]/, '').replace(/,/g, '');
+    const [integerPart, fractionPart = ''] = unsigned.split('.');
+    const integerDigits = integerPart.replace(/^0+/, '').length;
+
+    maxIntegerDigits = Math.max(maxIntegerDigits, integerDigits);
+    maxScale = Math.max(maxScale, fractionPart.length);
+    if (Math.abs(Number(unsigned)) > INT32_MAX) exceedsInt32 = true;
+  }
+
+  if (maxScale === 0) {
+    if (!exceedsInt32) return 'INTEGER';
+    return maxIntegerDigits <= DECIMAL_PRECISION ? 'BIGINT' : 'DOUBLE';
+  }
+
+  if (maxScale <= MAX_DECIMAL_SCALE && maxIntegerDigits + maxScale <= DECIMAL_PRECISION) {
+    return `DECIMAL(${DECIMAL_PRECISION},${maxScale})`;
+  }
+
+  return 'DOUBLE';
+}
+
+/**
+ * Infer the DuckDB column type for a column from a sample of its values.
+ * Columns mixing incompatible kinds of values fall back to VARCHAR.
+ */
+export function inferColumnType(values: unknown[]): ColumnType {
+  const sample: string[] = [];
+  for (const value of values) {
+    const text = toText(value);
+    if (text) sample.push(text);
+    if (sample.length >= TYPE_SAMPLE_SIZE) break;
+  }
+
+  if (!sample.length) {
+    return 'VARCHAR';
+  }
+
+  const kinds = new Set(sample.map(classifyValue));
+
+  if (kinds.has('text')) return 'VARCHAR';
+  if (kinds.size === 1 && kinds.has('boolean')) return 'BOOLEAN';
+  if (kinds.size === 1 && kinds.has('date')) return 'DATE';
+  if (kinds.size === 1 && kinds.has('time')) return 'TIME';
+  if ([...kinds].every(kind => kind === 'date' || kind === 'timestamp')) return 'TIMESTAMP';
+  if ([...kinds].every(kind => kind === 'number' || kind === 'scientific')) {
+    return kinds.has('scientific') ? 'DOUBLE' : inferNumericType(sample);
+  }
+
+  return 'VARCHAR';
+}
+
+/**
+ * Convert a value to the canonical string DuckDB casts into the given column type.
+ * Returns null for empty values and undefined when the value does not fit the type.
+ */
+export function coerceValue(value: unknown, type: ColumnType): string | null | undefined {
+  const text = toText(value);
+
+  if (type === 'VARCHAR') return text;
+  if (!text) return null;
+
+  switch (type) {
+    case 'BOOLEAN':
+      return BOOLEAN_PATTERN.test(text) ? text.toLowerCase() : undefined;
+    case 'DATE':
+      return parseDate(text) ?? undefined;
+    case 'TIMESTAMP': {
+      const date = parseDate(text);
+      return date ? `${date} 00:00:00` : parseTimestamp(text) ?? undefined;
+    }
+    case 'TIME':
+      return parseTime(text) ?? undefined;
+    default: {
+      const kind = classifyValue(text);
+      if (kind === 'scientific' && type === 'DOUBLE') return text;
+      if (kind !== 'number') return undefined;
+
+      const normalized = text.replace(/,/g, '');
+      if (type === 'DOUBLE') return normalized;
+
+      const [integerPart, fractionPart = ''] = normalized.replace(/^[+-]/, '').split('.');
+      const integerDigits = integerPart.replace(/^0+/, '').length;
+
+      if (type === 'INTEGER') {
+        return !fractionPart && Math.abs(Number(normalized)) <= INT32_MAX ? normalized : undefined;
+      }
+      if (type === 'BIGINT') {
+        return !fractionPart && integerDigits <= DECIMAL_PRECISION ? normalized : undefined;
+      }
+
+      const decimal = type.match(/^DECIMAL\((\d+),(\d+)\)$/);
+      if (!decimal) return undefined;
+      const precision = Number(decimal[1]);
+      const scale = Number(decimal[2]);
+      return fractionPart.length <= scale && integerDigits <= precision - scale ? normalized : undefined;
+    }
+  }
+}
+
+/**
+ * Rows converted to the canonical strings DuckDB casts into the column types, one at a time
+ */
+export function* coerceRows(
+  rows: Iterable<unknown[]>,
+  cols: string[],
+  colIndexes: Record<string, number>,
+  colTypes: Record<string, ColumnType>
+): Generator<(string | null | undefined)[]> {
+  for (const row of rows) {
+    yield cols.map(c => coerceValue(row[colIndexes[c]], colTypes[c]));
+  }
+}
+
+/**
+ * Check that every value in a column fits the inferred type
+ */
+export function fitsColumnType(values: unknown[], type: ColumnType): boolean {
+  return values.every(value => coerceValue(value, type) !== undefined);
+}
+
+/**
+ * Map a type reported by DuckDB (e.g. from the CSV sniffer) onto the supported column types
+ */
+export function toColumnType(duckdbType: string): ColumnType {
+  const type = duckdbType.toUpperCase();
+
+  if (/^DECIMAL\(\d+,\d+\)$/.test(type)) return type as ColumnType;
+
+  switch (type) {
+    case 'BOOLEAN':
+    case 'INTEGER':
+    case 'BIGINT':
+    case 'DOUBLE':
+    case 'DATE':
+    case 'TIMESTAMP':
+    case 'TIME':
+      return type;
+    case 'TINYINT':
+    case 'SMALLINT':
+    case 'UTINYINT':
+    case 'USMALLINT':
+      return 'INTEGER';
+    case 'UINTEGER':
+      return 'BIGINT';
+    case 'FLOAT':
+    case 'HUGEINT':
+    case 'UBIGINT':
+      return 'DOUBLE';
+    default:
+      return 'VARCHAR';
+  }
+}
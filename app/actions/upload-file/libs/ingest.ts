@@ -0,0 +1,120 @@
+import fs from 'node:fs/promises';
+import { ProcessedExcelResult } from './types';
+import { processExcelFile } from './processor';
+import { processCsvFile } from './csv';
+import { processParquetFile, processJsonFile } from './readers';
+import { ProgressReporter } from './progress';
+
+export type FileFormat = 'xlsx' | 'xlsb' | 'xls' | 'ods' | 'csv' | 'parquet' | 'json';
+
+// Bytes inspected when sniffing the file format
+const FORMAT_SAMPLE_BYTES = 8 * 1024;
+
+/**
+ * Names of the ZIP entries whose local headers start within the sample, in archive order
+ */
+function readZipEntryNames(head: Buffer): string[] {
+  const names: string[] = [];
+  let offset = 0;
+  while (offset + 30 <= head.length && head.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = head.readUInt32LE(offset + 18);
+    const nameLength = head.readUInt16LE(offset + 26);
+    const extraLength = head.readUInt16LE(offset + 28);
+    names.push(head.toString('utf-8', offset + 30, Math.min(offset + 30 + nameLength, head.length)));
+    // Entries streamed with a data descriptor do not record their size up front
+    if (!compressedSize) break;
+    offset += 30 + nameLength + extraLength + compressedSize;
+  }
+  return names;
+}
+
+/**
+ * Detect the format of an uploaded file from its contents rather than the reported MIME type
+ */
+export async function detectFileFormat(filePath: string): Promise<FileFormat | null> {
+  const handle = await fs.open(filePath, 'r');
+  let head: Buffer;
+  try {
+    const buffer = Buffer.alloc(FORMAT_SAMPLE_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, FORMAT_SAMPLE_BYTES, 0);
+    head = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  if (!head.length) {
+    return null;
+  }
+
+  // ZIP container: OpenDocument, or Office Open XML with XML (.xlsx) or binary (.xlsb) parts
+  if (head[0] === 0x50 && head[1] === 0x4b && head[2] === 0x03 && head[3] === 0x04) {
+    const names = readZipEntryNames(head);
+    if (names.some(name => name === 'mimetype' || name.startsWith('META-INF/') || name === 'content.xml')) {
+      return 'ods';
+    }
+    return names.some(name => /^xl\/.*\.bin(\.rels)?$/.test(name)) ? 'xlsb' : 'xlsx';
+  }
+
+  // Parquet files start with the PAR1 magic
+  if (head.subarray(0, 4).toString('latin1') === 'PAR1') {
+    return 'parquet';
+  }
+
+  // OLE2 compound document (legacy .xls)
+  if (head[0] === 0xd0 && head[1] === 0xcf && head[2] === 0x11 && head[3] === 0xe0) {
+    return 'xls';
+  }
+
+  // UTF-16 text always contains NUL bytes, so check its byte order mark first
+  if ((head[0] === 0xff && head[1] === 0xfe) || (head[0] === 0xfe && head[1] === 0xff)) {
+    return 'csv';
+  }
+
+  if (head.includes(0x00)) {
+    return null;
+  }
+
+  // HTML and SpreadsheetML 2003 exports are commonly saved with an .xls extension
+  const text = head.toString('utf-8').replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('<')) {
+    return 'xls';
+  }
+
+  // JSON records, one per line or in an array
+  if (text.startsWith('{') || text.startsWith('[')) {
+    return 'json';
+  }
+
+  return 'csv';
+}
+
+/**
+ * Process an uploaded file with the processor matching its detected format. The flatten
+ * depth chosen on upload applies to JSON and Parquet files.
+ */
+export async function processFile(
+  filePath: string,
+  fileId: string,
+  originalName: string,
+  onProgress?: ProgressReporter,
+  options: { flattenDepth?: number | null } = {}
+): Promise<ProcessedExcelResult> {
+  const format = await detectFileFormat(filePath);
+  console.log(`Detected file format: ${format ?? 'unknown'}`);
+
+  switch (format) {
+    case 'xlsx':
+    case 'xlsb':
+    case 'xls':
+    case 'ods':
+      return processExcelFile(filePath, fileId, onProgress);
+    case 'csv':
+      return processCsvFile(filePath, fileId, originalName, onProgress);
+    case 'parquet':
+      return processParquetFile(filePath, fileId, originalName, onProgress, options.flattenDepth);
+    case 'json':
+      return processJsonFile(filePath, fileId, originalName, onProgress, options.flattenDepth);
+    default:
+      throw new Error('Unsupported file format. Only Excel, OpenDocument, CSV/TSV, Parquet and JSON files are allowed.');
+  }
+}
@@ -0,0 +1,576 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { DuckDBFileRecord, ExcelMetadata, IngestionJob, IngestionMode, IngestionProgress, IngestionStage, ValidationResult } from './types';
+import { getFileRecord } from './database';
+import { processFile } from './ingest';
+import { getMetadataPath, writeMetadataFile, writeProfileFile } from './duckdb';
+import { uploadToStorage, downloadFileFromStorage, cleanupTempFiles } from './storage';
+import { ProgressReporter, applyProgressEvent, createInitialProgress } from './progress';
+import { validateDatabaseWithMetadata } from './validator';
+import { PROFILE_FILE_NAME } from './profile';
+import { upgradeMetadata } from './metadata';
+import { getRevisionPaths, mergeIntoDataset } from './append';
+
+const BUCKET_NAME = 'uploads';
+
+// Attempts before a job is given up on
+const MAX_ATTEMPTS = 3;
+
+// A running job not finished after this long is assumed to have lost its worker
+const STALE_JOB_MS = 15 * 60 * 1000;
+
+// Minimum time between two progress writes while rows are being inserted
+const PROGRESS_WRITE_MS = 1000;
+
+type ProgressTracker = ReturnType<typeof createProgressTracker>;
+
+/**
+ * Update the processing state shown on a file record
+ */
+async function updateFileState(
+  supabase: SupabaseClient,
+  fileId: string,
+  state: Partial<Pick<DuckDBFileRecord, 'status' | 'stage' | 'error_message' | 'sheets_processed' | 'progress' | 'validation'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('duckdb_files')
+    .update({ ...state, updated_at: new Date().toISOString() })
+    .eq('file_id', fileId);
+
+  if (error) {
+    throw new Error(`Failed to update file state: ${error.message}`);
+  }
+}
+
+/**
+ * Track a job's progress events and write the snapshot to its file record: stage changes
+ * right away, row counts at most once per PROGRESS_WRITE_MS. Writes are chained so they
+ * land in order.
+ */
+function createProgressTracker(
+  supabase: SupabaseClient,
+  fileId: string,
+  status: 'processing' | 'appending' = 'processing'
+) {
+  let progress = createInitialProgress();
+  let lastWrite = 0;
+  let writes: Promise<void> = Promise.resolve();
+
+  const report: ProgressReporter = (event) => {
+    progress = applyProgressEvent(progress, event);
+    if (event.type === 'rows' && Date.now() - lastWrite < PROGRESS_WRITE_MS) return;
+
+    lastWrite = Date.now();
+    const snapshot = progress;
+    writes = writes
+      .then(() => updateFileState(supabase, fileId, {
+        status,
+        stage: snapshot.stage,
+        progress: snapshot
+      }))
+      .catch(error => console.error('Failed to record ingestion progress:', error));
+  };
+
+  return {
+    report,
+    get progress() {
+      return progress;
+    },
+    async enterStage(stage: IngestionStage) {
+      console.log(`⏩ ${fileId}: ${stage}`);
+      report({ type: 'stage', stage });
+      await writes;
+    },
+    async flush() {
+      await writes;
+    }
+  };
+}
+
+/**
+ * Queue an uploaded file for ingestion, or for appending to the dataset of file `fileId`
+ */
+export async function enqueueIngestionJob(
+  supabase: SupabaseClient,
+  fileId: string,
+  storagePath: string,
+  originalName: string,
+  options: { mode?: IngestionMode; contentHash?: string; flattenDepth?: number | null } = {}
+): Promise<IngestionJob> {
+  const mode = options.mode || 'ingest';
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .insert({
+      file_id: fileId,
+      storage_path: storagePath,
+      original_name: originalName,
+      mode,
+      content_hash: options.contentHash || null,
+      flatten_depth: options.flattenDepth ?? null,
+      status: 'queued'
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to queue ingestion job: ${error.message}`);
+  }
+
+  // A dataset keeps its database and validation until the appended one replaces them
+  await updateFileState(supabase, fileId, mode === 'append'
+    ? { status: 'appending', stage: null, error_message: null, progress: null }
+    : { status: 'queued', stage: null, error_message: null, progress: null, validation: null });
+  return data as IngestionJob;
+}
+
+/**
+ * Claim a queued job for this worker. The status check in the update makes the claim
+ * atomic, so a job picked up by two workers at once only runs in one of them.
+ */
+async function claimIngestionJob(
+  supabase: SupabaseClient,
+  job: IngestionJob
+): Promise<IngestionJob | null> {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .update({
+      status: 'running',
+      attempts: job.attempts + 1,
+      started_at: new Date().toISOString(),
+      finished_at: null
+    })
+    .eq('job_id', job.job_id)
+    .eq('status', 'queued')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim ingestion job: ${error.message}`);
+  }
+
+  return data as IngestionJob | null;
+}
+
+async function finishIngestionJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  status: IngestionJob['status'],
+  jobError: string | null = null
+): Promise<void> {
+  const { error } = await supabase
+    .from('ingestion_jobs')
+    .update({
+      status,
+      error: jobError,
+      finished_at: status === 'queued' ? null : new Date().toISOString()
+    })
+    .eq('job_id', jobId);
+
+  if (error) {
+    console.error('Failed to update ingestion job:', error);
+  }
+}
+
+/**
+ * Download the uploaded database and validate its tables, columns and types against the
+ * metadata generated while processing it
+ */
+async function verifyDatabase(
+  supabase: SupabaseClient,
+  dbStoragePath: string,
+  metadata: ExcelMetadata
+): Promise<ValidationResult> {
+  let localDbPath: string | null = null;
+
+  try {
+    localDbPath = await downloadFileFromStorage(supabase, dbStoragePath);
+
+    const downloadedStats = await fs.stat(localDbPath);
+    if (downloadedStats.size === 0) {
+      throw new Error('Downloaded file is empty (0 bytes)');
+    }
+
+    return await validateDatabaseWithMetadata(localDbPath, metadata);
+  } finally {
+    if (localDbPath) {
+      await cleanupTempFiles(localDbPath);
+    }
+  }
+}
+
+/**
+ * One line naming what validation found wrong, for the file's error message
+ */
+function describeValidationErrors(validation: ValidationResult): string {
+  const [first, ...rest] = validation.errors;
+  return `Database validation failed: ${first?.message || 'unknown error'}${rest.length ? ` (and ${rest.length} more)` : ''}`;
+}
+
+/**
+ * Run the ingestion pipeline for a claimed job, advancing the file through its stages:
+ * download the upload, parse and profile it into DuckDB, upload the database, metadata and
+ * profile, validate.
+ * A valid database completes the file (with warnings, if validation had any); the
+ * validation result is returned either way.
+ */
+async function executeIngestionJob(
+  supabase: SupabaseClient,
+  job: IngestionJob,
+  fileRecord: DuckDBFileRecord,
+  tracker: ProgressTracker
+): Promise<ValidationResult> {
+  const { file_id: fileId, sha_hash: sha } = fileRecord;
+  const tempFiles: string[] = [];
+
+  try {
+    await tracker.enterStage('downloading');
+    const localFilePath = await downloadFileFromStorage(supabase, job.storage_path);
+    tempFiles.push(localFilePath);
+
+    await tracker.enterStage('parsing');
+    const { dbFile, sheetsProcessed, metadata, profile } = await processFile(
+      localFilePath,
+      fileId,
+      job.original_name,
+      tracker.report,
+      { flattenDepth: job.flatten_depth }
+    );
+    const metadataPath = getMetadataPath(sha);
+    tempFiles.push(dbFile, metadataPath);
+
+    const profilePath = profile ? await writeProfileFile(profile) : null;
+    if (profilePath) {
+      tempFiles.push(profilePath);
+    }
+
+    await tracker.enterStage('uploading');
+    const dbUploadResult = await uploadToStorage(supabase, dbFile, fileRecord.duckdb_path);
+    const metadataUploadResult = await uploadToStorage(supabase, metadataPath, fileRecord.metadata_path);
+
+    if (!dbUploadResult.success || !metadataUploadResult.success) {
+      throw new Error('Failed to upload processed files to storage');
+    }
+    if (profilePath) {
+      const profileStoragePath = path.posix.join(path.posix.dirname(fileRecord.metadata_path), PROFILE_FILE_NAME);
+      const profileUploadResult = await uploadToStorage(supabase, profilePath, profileStoragePath);
+      if (!profileUploadResult.success) {
+        console.error(`⚠️ Failed to upload profile: ${profileUploadResult.error}`);
+      }
+    }
+
+    await tracker.enterStage('verifying');
+    const validation = await verifyDatabase(supabase, fileRecord.duckdb_path, metadata);
+
+    // An unreadable database may be a storage hiccup and is retried like any other error
+    const databaseError = validation.errors.find(error => error.type === 'database_error');
+    if (databaseError) {
+      throw new Error(databaseError.message);
+    }
+    if (!validation.success) {
+      return validation;
+    }
+
+    await tracker.flush();
+    await updateFileState(supabase, fileId, {
+      status: validation.warnings.length ? 'completed_with_warnings' : 'completed',
+      stage: null,
+      error_message: null,
+      sheets_processed: sheetsProcessed,
+      progress: tracker.progress,
+      validation
+    });
+    return validation;
+  } finally {
+    await cleanupTempFiles(...tempFiles);
+  }
+}
+
+/**
+ * Run an append job: process the upload on its own, merge it into a copy of the dataset's
+ * database, then upload the database, metadata and profile to a new revision folder and
+ * validate them. The file record is switched to the new revision in one update, and only
+ * if no other append replaced the database meanwhile; the previous revision is removed
+ * after that. An invalid database is removed and the dataset left as it was.
+ */
+async function executeAppendJob(
+  supabase: SupabaseClient,
+  job: IngestionJob,
+  fileRecord: DuckDBFileRecord,
+  tracker: ProgressTracker
+): Promise<ValidationResult> {
+  const tempFiles: string[] = [];
+
+  try {
+    await tracker.enterStage('downloading');
+    const localFilePath = await downloadFileFromStorage(supabase, job.storage_path);
+    tempFiles.push(localFilePath);
+    const localDbPath = await downloadFileFromStorage(supabase, fileRecord.duckdb_path);
+    tempFiles.push(localDbPath);
+    const localMetadataPath = await downloadFileFromStorage(supabase, fileRecord.metadata_path);
+    tempFiles.push(localMetadataPath);
+    const dataset = upgradeMetadata(JSON.parse(await fs.readFile(localMetadataPath, 'utf-8')));
+
+    await tracker.enterStage('parsing');
+    // Processed under the job's ID, so its temp files do not clash with the dataset's
+    const upload = await processFile(localFilePath, job.job_id, job.original_name, tracker.report, {
+      flattenDepth: job.flatten_depth
+    });
+    tempFiles.push(upload.dbFile, getMetadataPath(upload.sha));
+
+    const { metadata, profile, batch } = await mergeIntoDataset(
+      localDbPath,
+      dataset,
+      { dbFile: upload.dbFile, metadata: upload.metadata, originalName: job.original_name },
+      { sourceFile: fileRecord.original_name, uploadedAt: fileRecord.created_at },
+      tracker.report
+    );
+    const metadataPath = await writeMetadataFile(metadata);
+    tempFiles.push(metadataPath);
+    const profilePath = profile ? await writeProfileFile(profile) : null;
+    if (profilePath) {
+      tempFiles.push(profilePath);
+    }
+
+    await tracker.enterStage('uploading');
+    const revision = getRevisionPaths(fileRecord.duckdb_path, batch.batch, job.job_id);
+    const revisionFiles = [revision.duckdbPath, revision.metadataPath, revision.profilePath];
+    const dbUploadResult = await uploadToStorage(supabase, localDbPath, revision.duckdbPath);
+    const metadataUploadResult = await uploadToStorage(supabase, metadataPath, revision.metadataPath);
+
+    if (!dbUploadResult.success || !metadataUploadResult.success) {
+      throw new Error('Failed to upload appended files to storage');
+    }
+    if (profilePath) {
+      const profileUploadResult = await uploadToStorage(supabase, profilePath, revision.profilePath);
+      if (!profileUploadResult.success) {
+        console.error(`⚠️ Failed to upload profile: ${profileUploadResult.error}`);
+      }
+    }
+
+    await tracker.enterStage('verifying');
+    const validation = await verifyDatabase(supabase, revision.duckdbPath, metadata);
+
+    const databaseError = validation.errors.find(error => error.type === 'database_error');
+    if (databaseError) {
+      throw new Error(databaseError.message);
+    }
+    if (!validation.success) {
+      await supabase.storage.from(BUCKET_NAME).remove(revisionFiles);
+      return validation;
+    }
+
+    await tracker.flush();
+    const { data, error } = await supabase
+      .from('duckdb_files')
+      .update({
+        duckdb_path: revision.duckdbPath,
+        metadata_path: revision.metadataPath,
+        sheets_processed: metadata.sheets.length,
+        status: validation.warnings.length ? 'completed_with_warnings' : 'completed',
+        stage: null,
+        error_message: null,
+        progress: tracker.progress,
+        validation,
+        updated_at: new Date().toISOString()
+      })
+      .eq('file_id', fileRecord.file_id)
+      .eq('duckdb_path', fileRecord.duckdb_path)
+      .select('file_id')
+      .maybeSingle();
+
+    if (error || !data) {
+      await supabase.storage.from(BUCKET_NAME).remove(revisionFiles);
+      throw new Error(error
+        ? `Failed to update file record: ${error.message}`
+        : 'The dataset changed while this file was being appended');
+    }
+    console.log(`📚 Appended ${job.original_name} to ${fileRecord.original_name} as batch ${batch.batch}`);
+
+    const previousFiles = [
+      fileRecord.duckdb_path,
+      fileRecord.metadata_path,
+      path.posix.join(path.posix.dirname(fileRecord.metadata_path), PROFILE_FILE_NAME)
+    ];
+    const { error: removeError } = await supabase.storage.from(BUCKET_NAME).remove(previousFiles);
+    if (removeError) {
+      console.error('⚠️ Failed to remove the previous database:', removeError);
+    }
+
+    return validation;
+  } finally {
+    await cleanupTempFiles(...tempFiles);
+  }
+}
+
+/**
+ * Claim and run a queued ingestion job. A failed job is queued again until it runs out
+ * of attempts; the error and the stage it failed in are recorded on the file record.
+ * Returns false when the job could not be claimed (already taken or not queued).
+ */
+export async function runIngestionJob(
+  supabase: SupabaseClient,
+  queuedJob: IngestionJob
+): Promise<boolean> {
+  const job = await claimIngestionJob(supabase, queuedJob);
+  if (!job) {
+    return false;
+  }
+
+  const appending = job.mode === 'append';
+  console.log(`🚚 Running ${appending ? 'append' : 'ingestion'} job ${job.job_id} (attempt ${job.attempts}/${MAX_ATTEMPTS})`);
+  const tracker = createProgressTracker(supabase, job.file_id, appending ? 'appending' : 'processing');
+
+  try {
+    const fileRecord = await getFileRecord(supabase, job.file_id);
+    if (!fileRecord) {
+      throw new Error('File record not found');
+    }
+
+    const validation = appending
+      ? await executeAppendJob(supabase, job, fileRecord, tracker)
+      : await executeIngestionJob(supabase, job, fileRecord, tracker);
+    if (validation.success) {
+      await finishIngestionJob(supabase, job.job_id, 'completed');
+      console.log(`✅ Ingestion job ${job.job_id} completed${validation.warnings.length ? ` with ${validation.warnings.length} warnings` : ''}`);
+    } else {
+      // Processing the same file again would produce the same database, so no retry
+      console.error(`❌ Ingestion job ${job.job_id} produced an invalid database`);
+      const message = describeValidationErrors(validation);
+      await finishIngestionJob(supabase, job.job_id, 'failed', message);
+      await tracker.flush();
+      await recordIngestionFailure(supabase, job, tracker.progress, message, false, validation);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const retry = job.attempts < MAX_ATTEMPTS;
+    console.error(`❌ Ingestion job ${job.job_id} failed${retry ? ', will retry' : ''}:`, error);
+
+    await finishIngestionJob(supabase, job.job_id, retry ? 'queued' : 'failed', message);
+    await tracker.flush();
+    await recordIngestionFailure(supabase, job, tracker.progress, message, retry);
+  }
+
+  return true;
+}
+
+/**
+ * Record a failed ingestion attempt on the file record, given the job's last progress:
+ * queued again for a retry, or failed for good, in which case the original upload is
+ * removed. A failed append leaves the dataset ready with its previous database, with the
+ * error on it.
+ */
+async function recordIngestionFailure(
+  supabase: SupabaseClient,
+  job: IngestionJob,
+  lastProgress: IngestionProgress,
+  message: string,
+  retry: boolean,
+  validation?: ValidationResult
+): Promise<void> {
+  try {
+    const progress = applyProgressEvent(lastProgress, { type: 'failed', stage: lastProgress.stage });
+    if (job.mode === 'append') {
+      const fileRecord = retry ? null : await getFileRecord(supabase, job.file_id);
+      await updateFileState(supabase, job.file_id, {
+        status: retry ? 'appending' : fileRecord?.validation?.warnings.length ? 'completed_with_warnings' : 'completed',
+        stage: null,
+        error_message: `Appending ${job.original_name} failed: ${message}`,
+        progress
+      });
+    } else {
+      await updateFileState(supabase, job.file_id, {
+        status: retry ? 'queued' : 'failed',
+        stage: null,
+        error_message: message,
+        progress,
+        validation: validation || null
+      });
+    }
+  } catch (updateError) {
+    console.error('Failed to record ingestion error:', updateError);
+  }
+
+  // The original upload is kept for retries and removed once the job is given up on
+  if (!retry) {
+    await supabase.storage.from(BUCKET_NAME).remove([job.storage_path]);
+  }
+}
+
+/**
+ * Handle running jobs whose worker disappeared (timeout, crash, redeploy): put them back
+ * in the queue, or fail them like any other error once they are out of attempts, so a
+ * file that keeps killing the worker is not retried forever
+ */
+async function recoverStaleJobs(supabase: SupabaseClient): Promise<void> {
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString();
+  const message = 'Worker stopped before the job finished';
+
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('status', 'running')
+    .lt('started_at', staleBefore);
+
+  if (error) {
+    console.error('Failed to fetch stale ingestion jobs:', error);
+    return;
+  }
+
+  for (const job of (data || []) as IngestionJob[]) {
+    const retry = job.attempts < MAX_ATTEMPTS;
+
+    // Same guard as claiming: another worker may be recovering this job too
+    const { data: recovered, error: recoverError } = await supabase
+      .from('ingestion_jobs')
+      .update({
+        status: retry ? 'queued' : 'failed',
+        error: message,
+        finished_at: retry ? null : new Date().toISOString()
+      })
+      .eq('job_id', job.job_id)
+      .eq('status', 'running')
+      .select('job_id')
+      .maybeSingle();
+
+    if (recoverError) {
+      console.error(`Failed to recover stale ingestion job ${job.job_id}:`, recoverError);
+      continue;
+    }
+    if (!recovered) continue;
+
+    console.warn(`⚠️ Ingestion job ${job.job_id} lost its worker${retry ? ', will retry' : ', giving up'}`);
+    const fileRecord = await getFileRecord(supabase, job.file_id);
+    await recordIngestionFailure(supabase, job, fileRecord?.progress || createInitialProgress(), message, retry);
+  }
+}
+
+/**
+ * Run queued ingestion jobs, oldest first, until the queue is empty or the limit is reached
+ */
+export async function processIngestionQueue(
+  supabase: SupabaseClient,
+  limit = 5
+): Promise<{ processed: number }> {
+  await recoverStaleJobs(supabase);
+
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('status', 'queued')
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch ingestion queue: ${error.message}`);
+  }
+
+  let processed = 0;
+  for (const job of (data || []) as IngestionJob[]) {
+    if (await runIngestionJob(supabase, job)) {
+      processed++;
+    }
+  }
+
+  return { processed };
+}
@@ -0,0 +1,543 @@
+import * as XLSX from 'xlsx';
+import { dateCellText, getDateFormatKind, serialToText } from './dates';
+
+// Rows scanned from the top of a sheet when looking for the header row
+const HEADER_SCAN_ROWS = 50;
+
+// Maximum number of stacked header rows flattened into one column name
+const MAX_HEADER_DEPTH = 3;
+
+export interface SheetColumn {
+  index: number;
+  header: string;
+  // Number format most data cells in the column use, when not General
+  format?: string;
+}
+
+export interface SheetTable {
+  columns: SheetColumn[];
+  rows: unknown[][];
+  range: string;
+  headerRange: string;
+  dataRange: string;
+  // Merged cell ranges overlapping the table
+  merges: string[];
+}
+
+// Inclusive bounds of a block of cells, as matrix indexes
+interface Region {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export interface SheetMatrix {
+  matrix: unknown[][];
+  origin: XLSX.CellAddress;
+  merges: XLSX.Range[];
+  // Source cells, for number formats and cell types
+  cells: XLSX.WorkSheet;
+  date1904: boolean;
+}
+
+function isEmptyCell(value: unknown): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+function countFilled(row: unknown[] = []): number {
+  return row.filter(value => !isEmptyCell(value)).length;
+}
+
+function filledIndexes(row: unknown[] = []): number[] {
+  return row.flatMap((value, index) => (isEmptyCell(value) ? [] : [index]));
+}
+
+function isNumericText(value: unknown): boolean {
+  return /^[+-]?[\d,.]+%?$/.test(String(value).trim());
+}
+
+/**
+ * Read a worksheet into a row-major matrix of formatted values, keeping blank rows
+ * so indexes map back to cell addresses via the range origin. Date and time cells hold
+ * canonical YYYY-MM-DD / HH:MM:SS text instead of their locale-dependent display value.
+ * With maxRows, only a window over the first rows is read, e.g. to detect the layout of
+ * a sheet too large to hold as a matrix.
+ */
+export function readSheetMatrix(ws: XLSX.WorkSheet, date1904 = false, maxRows?: number): SheetMatrix {
+  const ref = ws['!ref'];
+  const range = ref ? XLSX.utils.decode_range(ref) : null;
+  const origin = range ? range.s : { r: 0, c: 0 };
+  const window = range && maxRows !== undefined && range.e.r - range.s.r + 1 > maxRows
+    ? { s: range.s, e: { r: range.s.r + maxRows - 1, c: range.e.c } }
+    : null;
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(ws, {
+    header: 1,
+    defval: null,
+    raw: false,
+    blankrows: true,
+    ...(window ? { range: window } : {})
+  });
+
+  const addresses = window ? rangeAddresses(window) : Object.keys(ws);
+  for (const address of addresses) {
+    if (address.startsWith('!')) continue;
+    const text = dateCellText(ws[address], date1904);
+    if (text === null) continue;
+
+    const { r, c } = XLSX.utils.decode_cell(address);
+    const row = matrix[r - origin.r];
+    if (row) row[c - origin.c] = text;
+  }
+
+  return { matrix, origin, merges: ws['!merges'] || [], cells: ws, date1904 };
+}
+
+function* rangeAddresses(range: XLSX.Range): Generator<string> {
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      yield XLSX.utils.encode_cell({ r, c });
+    }
+  }
+}
+
+/**
+ * The number format used by most of a column's data cells, ignoring General
+ */
+function dominantFormat(sheet: SheetMatrix, rowIndexes: number[], colIndex: number): string | undefined {
+  const counts = new Map<string, number>();
+  for (const r of rowIndexes) {
+    const cell = sheet.cells[XLSX.utils.encode_cell({ r: sheet.origin.r + r, c: sheet.origin.c + colIndex })];
+    const format = cell?.z === undefined ? undefined : String(cell.z);
+    if (format && format !== 'General') counts.set(format, (counts.get(format) || 0) + 1);
+  }
+
+  let dominant: string | undefined;
+  for (const [format, count] of counts) {
+    if (!dominant || count > counts.get(dominant)!) dominant = format;
+  }
+  return dominant;
+}
+
+/**
+ * In a date/time column, convert bare serial numbers (cells left in General format)
+ * to the same canonical text as their date-formatted neighbours
+ */
+function normalizeSerialDates(
+  sheet: SheetMatrix,
+  rows: { index: number; values: unknown[] }[],
+  colIndex: number,
+  format: string
+): void {
+  const kind = getDateFormatKind(format);
+  if (!kind) return;
+
+  for (const row of rows) {
+    const cell = sheet.cells[XLSX.utils.encode_cell({ r: sheet.origin.r + row.index, c: sheet.origin.c + colIndex })];
+    if (cell?.t !== 'n' || typeof cell.v !== 'number' || getDateFormatKind(cell.z as string | undefined)) continue;
+
+    const text = serialToText(cell.v, kind, sheet.date1904);
+    if (text !== null) row.values[colIndex] = text;
+  }
+}
+
+/**
+ * A row directly above the header is a group header (e.g. "Q1" over "Revenue | Cost")
+ * when it holds only text within the header's columns and is not a single title cell
+ */
+function isGroupHeaderRow(row: unknown[] = [], headerRow: unknown[]): boolean {
+  const filled = filledIndexes(row);
+  const headerFilled = filledIndexes(headerRow);
+  if (!filled.length || !headerFilled.length) return false;
+
+  const first = headerFilled[0];
+  const last = headerFilled[headerFilled.length - 1];
+  if (filled.some(index => index < first || index > last)) return false;
+  if (filled.some(index => isNumericText(row[index]))) return false;
+
+  return filled.length >= 2 || filled[0] > first;
+}
+
+/**
+ * Detect the header block of a sheet, skipping title/banner rows above it.
+ * Returns the first and last matrix row of the (possibly stacked) header.
+ */
+export function detectHeaderRows(matrix: unknown[][]): { start: number; end: number } | null {
+  const scan = matrix.slice(0, HEADER_SCAN_ROWS);
+  const width = Math.max(0, ...scan.map(row => countFilled(row)));
+  if (!width) return null;
+
+  // Title and banner rows fill only a cell or two; the header spans most of the table
+  const threshold = width === 1 ? 1 : Math.max(2, Math.ceil(width / 2));
+  const end = scan.findIndex(row => countFilled(row) >= threshold);
+
+  let start = end;
+  while (
+    start > 0 &&
+    end - start + 1 < MAX_HEADER_DEPTH &&
+    isGroupHeaderRow(matrix[start - 1], matrix[end])
+  ) {
+    start--;
+  }
+
+  return { start, end };
+}
+
+/**
+ * Resolve the value a header cell displays, following merged ranges to their top-left cell
+ */
+function headerCellValue(
+  sheet: SheetMatrix,
+  rowIndex: number,
+  colIndex: number
+): unknown {
+  const value = sheet.matrix[rowIndex]?.[colIndex];
+  if (!isEmptyCell(value)) return value;
+
+  const r = sheet.origin.r + rowIndex;
+  const c = sheet.origin.c + colIndex;
+  const merge = sheet.merges.find(m => r >= m.s.r && r <= m.e.r && c >= m.s.c && c <= m.e.c);
+  if (!merge) return null;
+
+  return sheet.matrix[merge.s.r - sheet.origin.r]?.[merge.s.c - sheet.origin.c] ?? null;
+}
+
+/**
+ * Flatten stacked header rows into one name per column, e.g. "Q1" over "Revenue" -> "Q1 Revenue".
+ * Group labels spread across the columns they cover via merged cells, or by filling
+ * right until the next label when the header has no merges.
+ */
+export function flattenHeaders(
+  sheet: SheetMatrix,
+  start: number,
+  end: number,
+  width: number
+): string[] {
+  const levels: unknown[][] = [];
+  const hasHeaderMerges = sheet.merges.some(
+    m => m.s.r <= sheet.origin.r + end && m.e.r >= sheet.origin.r + start
+  );
+
+  for (let r = start; r <= end; r++) {
+    const level: unknown[] = [];
+    let carried: unknown = null;
+    for (let c = 0; c < width; c++) {
+      let value = headerCellValue(sheet, r, c);
+      if (r < end && !hasHeaderMerges) {
+        if (isEmptyCell(value)) value = carried;
+        else carried = value;
+      }
+      level.push(value);
+    }
+    levels.push(level);
+  }
+
+  const headers: string[] = [];
+  for (let c = 0; c < width; c++) {
+    const parts: string[] = [];
+    for (const level of levels) {
+      const part = isEmptyCell(level[c]) ? '' : String(level[c]).trim();
+      if (part && parts[parts.length - 1] !== part) parts.push(part);
+    }
+    headers.push(parts.join(' '));
+  }
+
+  return headers;
+}
+
+function isRowFilled(matrix: unknown[][], r: number, left: number, right: number): boolean {
+  const row = matrix[r] || [];
+  for (let c = left; c <= right; c++) {
+    if (!isEmptyCell(row[c])) return true;
+  }
+  return false;
+}
+
+function isColumnFilled(matrix: unknown[][], c: number, top: number, bottom: number): boolean {
+  for (let r = top; r <= bottom; r++) {
+    if (!isEmptyCell(matrix[r]?.[c])) return true;
+  }
+  return false;
+}
+
+/**
+ * Shrink a region to the bounding box of its non-empty cells
+ */
+function trimRegion(matrix: unknown[][], region: Region): Region | null {
+  let { top, bottom, left, right } = region;
+  while (top <= bottom && !isRowFilled(matrix, top, left, right)) top++;
+  while (bottom >= top && !isRowFilled(matrix, bottom, left, right)) bottom--;
+  if (top > bottom) return null;
+  while (left <= right && !isColumnFilled(matrix, left, top, bottom)) left++;
+  while (right >= left && !isColumnFilled(matrix, right, top, bottom)) right--;
+  return { top, bottom, left, right };
+}
+
+/**
+ * Split a region into blocks separated by fully blank rows or columns
+ */
+function splitOnBlankLines(matrix: unknown[][], region: Region, axis: 'rows' | 'columns'): Region[] {
+  const blocks: Region[] = [];
+  const [from, to] = axis === 'rows' ? [region.top, region.bottom] : [region.left, region.right];
+  let blockStart: number | null = null;
+
+  for (let i = from; i <= to + 1; i++) {
+    const filled = i <= to && (axis === 'rows'
+      ? isRowFilled(matrix, i, region.left, region.right)
+      : isColumnFilled(matrix, i, region.top, region.bottom));
+
+    if (filled && blockStart === null) {
+      blockStart = i;
+    } else if (!filled && blockStart !== null) {
+      const block = axis === 'rows'
+        ? { ...region, top: blockStart, bottom: i - 1 }
+        : { ...region, left: blockStart, right: i - 1 };
+      const trimmed = trimRegion(matrix, block);
+      if (trimmed) blocks.push(trimmed);
+      blockStart = null;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * A band below a table continues it (a blank row inside the data) rather than starting
+ * a new table when it overlaps the table's columns and is a lone row or starts with data
+ */
+function isContinuationBand(matrix: unknown[][], previous: Region, band: Region): boolean {
+  const overlaps = band.left <= previous.right && band.right >= previous.left;
+  if (!overlaps || previous.bottom === previous.top) return false;
+
+  const firstRow = (matrix[band.top] || []).slice(band.left, band.right + 1);
+  return band.top === band.bottom || firstRow.some(value => !isEmptyCell(value) && isNumericText(value));
+}
+
+/**
+ * Recursively cut a region on blank rows and columns (XY-cut) into separate data regions.
+ * Blocks side by side are only split apart when they do not share the same rows, so
+ * spacer columns inside a single table do not break it up.
+ */
+function splitRegion(matrix: unknown[][], region: Region): Region[] {
+  const trimmed = trimRegion(matrix, region);
+  if (!trimmed) return [];
+
+  const bands: Region[] = [];
+  for (const band of splitOnBlankLines(matrix, trimmed, 'rows')) {
+    const previous = bands[bands.length - 1];
+    if (previous && isContinuationBand(matrix, previous, band)) {
+      bands[bands.length - 1] = {
+        top: previous.top,
+        bottom: band.bottom,
+        left: Math.min(previous.left, band.left),
+        right: Math.max(previous.right, band.right)
+      };
+    } else {
+      bands.push(band);
+    }
+  }
+
+  if (bands.length > 1) {
+    return bands.flatMap(band => splitRegion(matrix, band));
+  }
+
+  const blocks = splitOnBlankLines(matrix, trimmed, 'columns');
+  const aligned = blocks.every(b => b.top === blocks[0].top && b.bottom === blocks[0].bottom);
+  if (blocks.length > 1 && !aligned) {
+    return blocks.flatMap(block => splitRegion(matrix, block));
+  }
+
+  return [trimmed];
+}
+
+/**
+ * Detect the separate data regions of a sheet matrix, in reading order
+ */
+export function detectRegions(matrix: unknown[][]): Region[] {
+  const width = matrix.reduce((max, row) => Math.max(max, row.length), 0);
+  if (!matrix.length || !width) return [];
+
+  return splitRegion(matrix, { top: 0, bottom: matrix.length - 1, left: 0, right: width - 1 });
+}
+
+/**
+ * Narrow a sheet matrix to one region, keeping cell addresses absolute via the origin
+ */
+function sliceSheetMatrix(sheet: SheetMatrix, region: Region): SheetMatrix {
+  return {
+    ...sheet,
+    matrix: sheet.matrix
+      .slice(region.top, region.bottom + 1)
+      .map(row => row.slice(region.left, region.right + 1)),
+    origin: { r: sheet.origin.r + region.top, c: sheet.origin.c + region.left }
+  };
+}
+
+/**
+ * Merged ranges of a sheet that overlap a block of its cells
+ */
+function overlappingMerges(sheet: SheetMatrix, width: number): XLSX.Range[] {
+  const top = sheet.origin.r;
+  const bottom = sheet.origin.r + sheet.matrix.length - 1;
+  const left = sheet.origin.c;
+  const right = sheet.origin.c + width - 1;
+  return sheet.merges.filter(m => m.s.r <= bottom && m.e.r >= top && m.s.c <= right && m.e.c >= left);
+}
+
+/**
+ * Fill merged label cells down the data rows they span, e.g. a "North" merged over four
+ * rows of a Region column, so every row carries its label. Merges that start in the
+ * header are left to header flattening.
+ */
+function fillMergedLabels(sheet: SheetMatrix, merges: XLSX.Range[], firstDataRow: number): number {
+  let filled = 0;
+  for (const merge of merges) {
+    const top = merge.s.r - sheet.origin.r;
+    const col = merge.s.c - sheet.origin.c;
+    if (top < firstDataRow || col < 0 || merge.e.r === merge.s.r) continue;
+
+    const value = sheet.matrix[top]?.[col];
+    if (isEmptyCell(value)) continue;
+
+    const bottom = Math.min(merge.e.r - sheet.origin.r, sheet.matrix.length - 1);
+    for (let r = top + 1; r <= bottom; r++) {
+      const row = sheet.matrix[r];
+      if (row && isEmptyCell(row[col])) {
+        row[col] = value;
+        filled++;
+      }
+    }
+  }
+  return filled;
+}
+
+/**
+ * Collect the non-blank rows below the header block and build the table: header rows are
+ * flattened into column names unless explicit names are given. Columns with neither a
+ * header nor any data are dropped; data columns without a header are named after their letter.
+ */
+function assembleTable(
+  sheet: SheetMatrix,
+  header: { start: number; end: number },
+  names: string[] = []
+): SheetTable | null {
+  const width = sheet.matrix.reduce((max, row) => Math.max(max, row.length), names.length);
+  const merges = overlappingMerges(sheet, width);
+  const filled = fillMergedLabels(sheet, merges, header.end + 1);
+  if (filled) {
+    console.log(`↕️ Filled ${filled} cells from merged labels`);
+  }
+
+  const dataRows: { index: number; values: unknown[] }[] = [];
+  for (let r = header.end + 1; r < sheet.matrix.length; r++) {
+    if (countFilled(sheet.matrix[r])) {
+      dataRows.push({ index: r, values: sheet.matrix[r] });
+    }
+  }
+  if (!dataRows.length) return null;
+
+  const headers = names.length ? names : flattenHeaders(sheet, header.start, header.end, width);
+
+  const columns: SheetColumn[] = [];
+  const rowIndexes = dataRows.map(row => row.index);
+  for (let c = 0; c < width; c++) {
+    const hasData = dataRows.some(row => !isEmptyCell(row.values[c]));
+    if (!headers[c] && !hasData) continue;
+
+    const format = dominantFormat(sheet, rowIndexes, c);
+    if (format) normalizeSerialDates(sheet, dataRows, c, format);
+
+    columns.push({
+      index: c,
+      header: headers[c] || `Column ${XLSX.utils.encode_col(sheet.origin.c + c)}`,
+      format
+    });
+  }
+
+  const firstCol = sheet.origin.c + columns[0].index;
+  const lastCol = sheet.origin.c + columns[columns.length - 1].index;
+  const hasHeaderRows = header.end >= header.start;
+  const tableStart = sheet.origin.r + (hasHeaderRows ? header.start : dataRows[0].index);
+  const dataEnd = sheet.origin.r + dataRows[dataRows.length - 1].index;
+
+  return {
+    columns,
+    rows: dataRows.map(row => columns.map(col => row.values[col.index] ?? null)),
+    range: XLSX.utils.encode_range({
+      s: { r: tableStart, c: firstCol },
+      e: { r: dataEnd, c: lastCol }
+    }),
+    headerRange: hasHeaderRows
+      ? XLSX.utils.encode_range({
+        s: { r: tableStart, c: firstCol },
+        e: { r: sheet.origin.r + header.end, c: lastCol }
+      })
+      : '',
+    dataRange: XLSX.utils.encode_range({
+      s: { r: sheet.origin.r + dataRows[0].index, c: firstCol },
+      e: { r: dataEnd, c: lastCol }
+    }),
+    merges: merges.map(merge => XLSX.utils.encode_range(merge))
+  };
+}
+
+/**
+ * Extract the tabular data of a block of cells, detecting its header row(s)
+ */
+function extractTable(sheet: SheetMatrix): SheetTable | null {
+  const header = detectHeaderRows(sheet.matrix);
+  if (!header) return null;
+
+  return assembleTable(sheet, header);
+}
+
+/**
+ * Extract every table on a worksheet. Sheets holding several blocks separated by blank
+ * rows/columns yield one table per block; title and note blocks without data are skipped.
+ */
+export function extractSheetTables(sheet: SheetMatrix): SheetTable[] {
+  return detectRegions(sheet.matrix)
+    .map(region => extractTable(sliceSheetMatrix(sheet, region)))
+    .filter((table): table is SheetTable => table !== null);
+}
+
+/**
+ * Extract the table held in a fixed range of a sheet, e.g. an Excel Table or a named range.
+ * When the range's layout is known (header and totals row counts, column names) it is used
+ * as-is; otherwise the header row(s) are detected like any other block.
+ */
+export function extractRangeTable(
+  sheet: SheetMatrix,
+  ref: string,
+  layout?: { headerRows: number; totalsRows: number; columns: string[] }
+): SheetTable | null {
+  const { s, e } = XLSX.utils.decode_range(ref);
+  const region: Region = {
+    top: Math.max(0, s.r - sheet.origin.r),
+    bottom: Math.min(sheet.matrix.length - 1, e.r - sheet.origin.r - (layout?.totalsRows ?? 0)),
+    left: Math.max(0, s.c - sheet.origin.c),
+    right: e.c - sheet.origin.c
+  };
+  if (region.top > region.bottom || region.left > region.right) return null;
+
+  const block = sliceSheetMatrix(sheet, region);
+  // Keep trailing empty columns so positions line up with the layout's column names
+  block.matrix = block.matrix.map(row => {
+    const padded = row.slice();
+    padded.length = region.right - region.left + 1;
+    return Array.from(padded, value => value ?? null);
+  });
+
+  if (!layout) return extractTable(block);
+
+  return assembleTable(block, { start: 0, end: layout.headerRows - 1 }, layout.columns);
+}
+
+/**
+ * Check whether one A1 range lies entirely within another
+ */
+export function isRangeWithin(inner: string, outer: string): boolean {
+  const a = XLSX.utils.decode_range(inner);
+  const b = XLSX.utils.decode_range(outer);
+  return a.s.r >= b.s.r && a.e.r <= b.e.r && a.s.c >= b.s.c && a.e.c <= b.e.c;
+}
@@ -0,0 +1,180 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { ColumnInfo, ColumnType, ColumnUnit, ExcelMetadata, SheetInfo, TableSchema, FormulaSummary } from './types';
+import { uploadToStorage, downloadFileFromStorage, cleanupTempFiles } from './storage';
+
+// Version of the metadata.json format written by the processors
+export const METADATA_VERSION = 2;
+
+// metadata.json files upgraded per call of upgradeStoredMetadata
+const UPGRADE_BATCH_SIZE = 50;
+
+/**
+ * metadata.json as written before it was versioned: schemas as text ("- column (TYPE):
+ * description" lines, usually written by an LLM) with column details in parallel maps.
+ * Files from just before versioning also carry the structured schemas.
+ */
+interface LegacyMetadata {
+  workbook_id: string;
+  file_id: string;
+  sheets?: SheetInfo[];
+  table_schemas?: Record<string, string>;
+  schemas?: Record<string, TableSchema>;
+  column_types?: Record<string, Record<string, ColumnType>>;
+  column_headers?: Record<string, Record<string, string>>;
+  column_formats?: Record<string, Record<string, string>>;
+  column_units?: Record<string, Record<string, ColumnUnit>>;
+  formulas?: FormulaSummary;
+}
+
+export interface MetadataUpgradeResult {
+  checked: number;
+  upgraded: number;
+  failed: { fileId: string; error: string }[];
+  // File ID to continue after, null once every file has been checked
+  next: string | null;
+}
+
+/**
+ * Columns of a legacy text schema, from its "- column (TYPE): description" lines.
+ * Markdown emphasis and backticks the LLM sometimes added are ignored.
+ */
+function parseLegacySchema(text: string): { name: string; type: string; description?: string }[] {
+  const columns: { name: string; type: string; description?: string }[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.replace(/[*`]/g, '').match(/^\s*-\s*(\w+)\s*\((.+?)\)\s*:\s*(.*)$/);
+    if (match) {
+      const [, name, type, description] = match;
+      columns.push({ name, type: type.toUpperCase(), description: description.trim() || undefined });
+    }
+  }
+  return columns;
+}
+
+/**
+ * Structured schema of one table of a legacy file. Column names, types and headers come
+ * from the column maps where the table has them; descriptions, and the columns of tables
+ * without maps (the formulas table), from the schema text.
+ */
+function upgradeTableSchema(legacy: LegacyMetadata, tableName: string): TableSchema {
+  const text = legacy.table_schemas?.[tableName] || '';
+  const parsed = parseLegacySchema(text);
+  const descriptions = new Map(parsed.map(column => [column.name, column.description]));
+  const structured = legacy.schemas?.[tableName];
+  const types = legacy.column_types?.[tableName];
+
+  const columns: ColumnInfo[] = types
+    ? Object.entries(types).map(([name, type]) => ({ name, type, header: name, samples: [] }))
+    : parsed.map(({ name, type }) => ({ name, type, header: name, samples: [] }));
+
+  return {
+    tableName,
+    ...(structured?.description ? { description: structured.description } : {}),
+    columns: columns.map(column => {
+      const known = structured?.columns.find(c => c.name === column.name);
+      const format = legacy.column_formats?.[tableName]?.[column.name];
+      const unit = legacy.column_units?.[tableName]?.[column.name];
+      const description = known?.description || descriptions.get(column.name);
+      return {
+        ...column,
+        ...known,
+        header: legacy.column_headers?.[tableName]?.[column.name] ?? known?.header ?? column.name,
+        ...(format ? { format } : {}),
+        ...(unit ? { unit } : {}),
+        ...(description ? { description } : {})
+      };
+    })
+  };
+}
+
+/**
+ * Bring parsed metadata.json contents to the current format. Current files are returned
+ * as they are; files written before versioning are converted.
+ */
+export function upgradeMetadata(raw: unknown): ExcelMetadata {
+  const metadata = raw as Partial<ExcelMetadata> & LegacyMetadata;
+  if (!metadata || typeof metadata !== 'object' || !metadata.workbook_id) {
+    throw new Error('Invalid metadata: missing workbook_id');
+  }
+  if (metadata.version === METADATA_VERSION) {
+    return metadata as ExcelMetadata;
+  }
+  if (metadata.version !== undefined) {
+    throw new Error(`Unsupported metadata version: ${metadata.version}`);
+  }
+
+  const legacy = raw as LegacyMetadata;
+  const tableNames = Object.keys(legacy.table_schemas || {});
+  return {
+    version: METADATA_VERSION,
+    workbook_id: legacy.workbook_id,
+    file_id: legacy.file_id,
+    sheets: legacy.sheets || [],
+    table_schemas: Object.fromEntries(tableNames.map(name => [name, upgradeTableSchema(legacy, name)])),
+    ...(legacy.formulas ? { formulas: legacy.formulas } : {})
+  };
+}
+
+/**
+ * Rewrite the stored metadata.json of processed files in the current format, one batch of
+ * files at a time in file ID order. Pass the returned `next` to continue with the next batch.
+ */
+export async function upgradeStoredMetadata(
+  supabase: SupabaseClient,
+  after?: string,
+  limit = UPGRADE_BATCH_SIZE
+): Promise<MetadataUpgradeResult> {
+  let query = supabase
+    .from('duckdb_files')
+    .select('file_id, metadata_path')
+    .in('status', ['completed', 'completed_with_warnings'])
+    .order('file_id')
+    .limit(limit);
+  if (after) {
+    query = query.gt('file_id', after);
+  }
+
+  const { data: files, error } = await query;
+  if (error) {
+    throw new Error(`Failed to list files: ${error.message}`);
+  }
+
+  const result: MetadataUpgradeResult = { checked: 0, upgraded: 0, failed: [], next: null };
+
+  for (const { file_id: fileId, metadata_path: metadataPath } of files || []) {
+    result.checked++;
+    const tempFiles: string[] = [];
+
+    try {
+      const localPath = await downloadFileFromStorage(supabase, metadataPath);
+      tempFiles.push(localPath);
+
+      const raw = JSON.parse(await fs.readFile(localPath, 'utf-8'));
+      if (raw.version === METADATA_VERSION) continue;
+
+      const upgradedPath = path.join(os.tmpdir(), `${fileId}.metadata.json`);
+      tempFiles.push(upgradedPath);
+      await fs.writeFile(upgradedPath, JSON.stringify(upgradeMetadata(raw), null, 2));
+
+      const upload = await uploadToStorage(supabase, upgradedPath, metadataPath);
+      if (!upload.success) {
+        throw new Error(upload.error || 'Upload failed');
+      }
+      result.upgraded++;
+      console.log(`⬆️ Upgraded metadata of ${fileId} to version ${METADATA_VERSION}`);
+    } catch (upgradeError) {
+      const message = upgradeError instanceof Error ? upgradeError.message : 'Unknown error';
+      console.error(`❌ Failed to upgrade metadata of ${fileId}:`, upgradeError);
+      result.failed.push({ fileId, error: message });
+    } finally {
+      await cleanupTempFiles(...tempFiles);
+    }
+  }
+
+  if (files && files.length === limit) {
+    result.next = files[files.length - 1].file_id;
+  }
+  return result;
+}
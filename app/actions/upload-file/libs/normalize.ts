@@ -0,0 +1,258 @@
+import { ColumnUnit } from './types';
+
+type DecimalSeparator = '.' | ',';
+
+/**
+ * Number conventions detected for a column: its decimal separator and unit
+ */
+export interface NumberConvention {
+  decimalSeparator: DecimalSeparator;
+  unit?: ColumnUnit;
+}
+
+interface DecoratedNumber {
+  negative: boolean;
+  body: string;
+  percent: boolean;
+  currency?: string;
+  // Had a symbol, percent sign, parentheses or non-ASCII grouping that inference cannot read
+  decorated: boolean;
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '€': 'EUR',
+  '$': 'USD',
+  'US$': 'USD',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  'R$': 'BRL',
+  'zł': 'PLN',
+  'Kč': 'CZK',
+  'kr': 'SEK',
+  'Fr.': 'CHF'
+};
+
+const CURRENCY_CODES = [
+  'EUR', 'USD', 'GBP', 'CHF', 'JPY', 'CNY', 'INR', 'SEK', 'NOK',
+  'DKK', 'PLN', 'CZK', 'HUF', 'CAD', 'AUD', 'BRL'
+];
+
+// Longest first so "US$" wins over "$"
+const CURRENCY_TOKENS = [...Object.keys(CURRENCY_SYMBOLS), ...CURRENCY_CODES]
+  .sort((a, b) => b.length - a.length)
+  .map(token => token.replace(/[.$]/g, '\\$&'))
+  .join('|');
+
+const CURRENCY_PREFIX = new RegExp(`^(${CURRENCY_TOKENS})\\s*`);
+const CURRENCY_SUFFIX = new RegExp(`\\s*(${CURRENCY_TOKENS})$`);
+
+// Digits with ".", ",", space or apostrophe separators, e.g. 1.234,56 or 1 234 or 1'234.5
+const NUMBER_BODY_PATTERN = /^\d[\d.,' ]*$/;
+
+function toCurrencyCode(token: string): string {
+  return CURRENCY_SYMBOLS[token] || token;
+}
+
+/**
+ * Split a value into its sign, unit and number body, or null if it is not a number
+ */
+function parseDecorated(value: unknown): DecoratedNumber | null {
+  let text = String(value).replace(/[\u00a0\u202f]/g, ' ').replace(/\u2212/g, '-').trim();
+  let negative = false;
+  let decorated = false;
+  let percent = false;
+  let currency: string | undefined;
+  let explicitPlus = false;
+
+  // Accounting negatives: (1,234.00), with the currency inside or outside: (€12.00), (12,00) €, €(12.00)
+  const takeParentheses = () => {
+    const parenthesized = text.match(/^\((.*)\)$/);
+    if (parenthesized && !negative) {
+      text = parenthesized[1].trim();
+      negative = true;
+      decorated = true;
+    }
+  };
+
+  takeParentheses();
+
+  const takeSign = () => {
+    if (text.startsWith('-')) {
+      text = text.slice(1).trim();
+      negative = !negative;
+    } else if (text.startsWith('+')) {
+      text = text.slice(1).trim();
+      explicitPlus = true;
+    }
+  };
+
+  takeSign();
+
+  if (text.endsWith('%')) {
+    text = text.slice(0, -1).trim();
+    percent = true;
+    decorated = true;
+  }
+
+  const prefix = text.match(CURRENCY_PREFIX);
+  const suffix = prefix ? null : text.match(CURRENCY_SUFFIX);
+  if (prefix || suffix) {
+    currency = toCurrencyCode((prefix || suffix)![1]);
+    text = prefix ? text.slice(prefix[0].length) : text.slice(0, -suffix![0].length);
+    decorated = true;
+  }
+
+  takeParentheses();
+  takeSign();
+
+  // Trailing minus, as exported by some accounting systems: 1.234,56-
+  if (text.endsWith('-')) {
+    text = text.slice(0, -1).trim();
+    negative = !negative;
+    decorated = true;
+  }
+
+  if (!NUMBER_BODY_PATTERN.test(text) || !/\d$/.test(text)) return null;
+  // "+49 123 456" is a phone number, not a space-grouped amount
+  if (explicitPlus && text.includes(' ')) return null;
+  if (/[ ']/.test(text)) decorated = true;
+
+  return { negative, body: text, percent, currency, decorated };
+}
+
+/**
+ * The decimal separator a number body proves, or null when it is ambiguous (e.g. 1,234)
+ */
+function decimalEvidence(body: string): DecimalSeparator | null {
+  const digits = body.replace(/[ ']/g, '');
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    return lastDot > lastComma ? '.' : ',';
+  }
+
+  const separator = lastDot >= 0 ? '.' : lastComma >= 0 ? ',' : null;
+  if (!separator) return null;
+
+  const other: DecimalSeparator = separator === '.' ? ',' : '.';
+  const occurrences = digits.split(separator).length - 1;
+  if (occurrences > 1) return other;
+
+  // A single separator followed by exactly three digits may be either grouping or decimals
+  const fractionDigits = digits.length - digits.lastIndexOf(separator) - 1;
+  return fractionDigits === 3 ? null : separator;
+}
+
+/**
+ * Convert a number body to canonical digits with a "." decimal point, checking that
+ * grouping separators only appear in the integer part
+ */
+function canonicalBody(body: string, decimalSeparator: DecimalSeparator): string | null {
+  const [integerPart, fractionPart, ...rest] = body.split(decimalSeparator);
+  if (rest.length) return null;
+
+  const groupSeparator = decimalSeparator === '.' ? ',' : '.';
+  const grouping = new RegExp(`^\\d{1,3}([${groupSeparator === '.' ? '\\.' : ','} ']\\d{3})*$`);
+  if (!/^\d+$/.test(integerPart) && !grouping.test(integerPart)) return null;
+  if (fractionPart !== undefined && !/^\d+$/.test(fractionPart)) return null;
+
+  const integerDigits = integerPart.replace(/\D/g, '');
+  return fractionPart === undefined ? integerDigits : `${integerDigits}.${fractionPart}`;
+}
+
+/**
+ * Divide a canonical decimal string by 100 without floating point error
+ */
+function percentToFraction(canonical: string): string {
+  const [integerPart, fractionPart = ''] = canonical.split('.');
+  const padded = integerPart.padStart(3, '0');
+  const whole = padded.slice(0, -2).replace(/^0+(?=\d)/, '');
+  const fraction = `${padded.slice(-2)}${fractionPart}`.replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+/**
+ * Detect the number conventions of a column from a sample of its values: the decimal
+ * separator (by majority of unambiguous values) and a shared currency or percent unit.
+ * Returns null when the column is not numeric or needs no normalisation.
+ */
+export function detectNumberConvention(values: unknown[]): NumberConvention | null {
+  const parsed: DecoratedNumber[] = [];
+  for (const value of values) {
+    if (isEmptyValue(value)) continue;
+    const number = parseDecorated(value);
+    if (!number) return null;
+    parsed.push(number);
+  }
+  if (!parsed.length) return null;
+
+  const votes = { '.': 0, ',': 0 };
+  for (const number of parsed) {
+    const evidence = decimalEvidence(number.body);
+    if (evidence) votes[evidence]++;
+  }
+  const decimalSeparator: DecimalSeparator = votes[','] > votes['.'] ? ',' : '.';
+
+  // Summing a column only makes sense in a single currency, and percents must be consistent
+  const currencies = new Set(parsed.flatMap(number => (number.currency ? [number.currency] : [])));
+  const percents = parsed.filter(number => number.percent).length;
+  if (currencies.size > 1 || (percents && percents !== parsed.length)) return null;
+  if (percents && currencies.size) return null;
+
+  if (decimalSeparator === '.' && !parsed.some(number => number.decorated)) return null;
+
+  const unit: ColumnUnit | undefined = percents
+    ? { kind: 'percent' }
+    : currencies.size ? { kind: 'currency', currency: [...currencies][0] } : undefined;
+
+  return { decimalSeparator, unit };
+}
+
+/**
+ * Convert a value to a canonical number string under a column's conventions. Percentages
+ * become fractions (12% -> 0.12). Returns null for empty values and undefined when the
+ * value does not follow the conventions.
+ */
+export function normalizeNumber(value: unknown, convention: NumberConvention): string | null | undefined {
+  if (isEmptyValue(value)) return null;
+
+  const number = parseDecorated(value);
+  if (!number) return undefined;
+  if (number.currency && convention.unit?.kind !== 'currency') return undefined;
+  if (number.currency && convention.unit?.kind === 'currency' && number.currency !== convention.unit.currency) {
+    return undefined;
+  }
+  if (number.percent !== (convention.unit?.kind === 'percent')) return undefined;
+
+  const canonical = canonicalBody(number.body, convention.decimalSeparator);
+  if (canonical === null) return undefined;
+
+  const scaled = number.percent ? percentToFraction(canonical) : canonical;
+  return number.negative && /[1-9]/.test(scaled) ? `-${scaled}` : scaled;
+}
+
+/**
+ * Normalise a whole column of locale-formatted numbers, or return null when the column is
+ * not numeric, needs no normalisation or has values that break its detected conventions
+ */
+export function normalizeNumberColumn(
+  values: unknown[]
+): { values: (string | null)[]; convention: NumberConvention } | null {
+  const convention = detectNumberConvention(values);
+  if (!convention) return null;
+
+  const normalized: (string | null)[] = [];
+  for (const value of values) {
+    const number = normalizeNumber(value, convention);
+    if (number === undefined) return null;
+    normalized.push(number);
+  }
+
+  return { values: normalized, convention };
+}
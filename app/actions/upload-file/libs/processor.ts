@@ -1,34 +1,190 @@
-import { DuckDBInstance } from '@duckdb/node-api';
 import * as XLSX from 'xlsx';
-import crypto from 'node:crypto';
+import type { DuckDBConnection } from '@duckdb/node-api';
 import fs from 'node:fs/promises';
-import path from 'node:path';
-import os from 'node:os';
 import { 
   ProcessedExcelResult, 
-  ExcelMetadata
+  ExcelMetadata,
+  SheetInfo,
+  HiddenVisibility,
+  ColumnType,
+  ColumnUnit,
+  TableSchema
 } from './types';
 import { 
-  sanitizeColumnName, 
+  sanitizeColumnNames, 
   generateTableSchema, 
-  createTableName 
+  createTableName,
+  createRegionTableName,
+  createNamedTableName,
+  TableColumns
 } from './schema';
+import { 
+  inferColumnType, 
+  fitsColumnType, 
+  coerceRows 
+} from './inference';
+import {
+  readSheetMatrix,
+  extractSheetTables,
+  extractRangeTable,
+  isRangeWithin,
+  SheetMatrix,
+  SheetTable
+} from './layout';
+import {
+  readExcelTables,
+  readNamedRanges,
+  readHiddenSheets,
+  isHiddenSheetExclusionEnabled,
+  releasePackageParts
+} from './structures';
+import { isDate1904 } from './dates';
+import { normalizeNumberColumn } from './normalize';
+import {
+  FORMULAS_TABLE,
+  readFormulaCells,
+  createFormulasTable,
+  describeFormulasTable,
+  FormulaCell,
+  TableColumnLocation
+} from './formulas';
+import {
+  ANNOTATIONS_TABLE,
+  readAnnotationCells,
+  createAnnotationsTable,
+  describeAnnotationsTable,
+  AnnotationCell
+} from './annotations';
+import {
+  createWorkbookId,
+  getDatabasePath,
+  openDatabase,
+  closeDatabase,
+  createTable,
+  appendRows,
+  writeMetadataFile,
+  testDatabaseFile
+} from './duckdb';
+import { ProgressReporter, ROW_PROGRESS_INTERVAL } from './progress';
+import { tryProfileDatabase } from './profile';
+import { tryDetectRelationships } from './relationships';
+import { unpivotCrosstab, generateDerivedSchema, DerivedTable } from './transforms';
+import { METADATA_VERSION } from './metadata';
+import {
+  LAYOUT_WINDOW_ROWS,
+  isLargeSheet,
+  findContinuingTable,
+  estimateStreamedRows,
+  streamSheetTable,
+  StreamedSheet,
+  LoadedTable
+} from './stream';
 
 /**
- * Process Excel file and convert to DuckDB database
+ * Create a typed table from an extracted sheet table and insert its rows
+ */
+async function loadSheetTable(
+  connection: DuckDBConnection,
+  tbl: string,
+  table: SheetTable,
+  reportRows?: (rows: number) => void
+): Promise<LoadedTable> {
+  const { rows } = table;
+
+  // Map unique sanitized column names to their position in the extracted rows and their header
+  const cols = sanitizeColumnNames(table.columns.map(column => column.header));
+  const colIndexes: Record<string, number> = {};
+  const colHeaders: Record<string, string> = {};
+  cols.forEach((c, i) => {
+    colIndexes[c] = i;
+    colHeaders[c] = table.columns[i].header;
+  });
+
+  console.log(`📐 Header rows: ${table.headerRange || 'none'}, data: ${table.dataRange}`);
+  console.log(`📋 Original columns: ${table.columns.map(c => c.header).join(', ')}`);
+  console.log(`🔧 Sanitized columns: ${cols.join(', ')}`);
+  console.log(`📝 Rows to process: ${rows.length}`);
+
+  // Rewrite locale-formatted numbers (1.234,56 €, (12), 12%) as plain numbers before inference
+  const colUnits: Record<string, ColumnUnit> = {};
+  for (const c of cols) {
+    const normalized = normalizeNumberColumn(rows.map(row => row[colIndexes[c]]));
+    if (!normalized) continue;
+
+    rows.forEach((row, i) => {
+      row[colIndexes[c]] = normalized.values[i];
+    });
+    const { decimalSeparator, unit } = normalized.convention;
+    if (unit) colUnits[c] = unit;
+    console.log(`🔢 Normalised ${c}: decimal "${decimalSeparator}"${unit ? `, unit ${unit.kind === 'currency' ? unit.currency : '%'}` : ''}`);
+  }
+
+  // Infer a type per column from a sample, widening to VARCHAR if any row does not fit
+  const colTypes: Record<string, ColumnType> = {};
+  for (const c of cols) {
+    const values = rows.map(row => row[colIndexes[c]]);
+    const inferredType = inferColumnType(values);
+    colTypes[c] = fitsColumnType(values, inferredType) ? inferredType : 'VARCHAR';
+  }
+  console.log(`🔎 Inferred types: ${cols.map(c => `${c} ${colTypes[c]}`).join(', ')}`);
+
+  await createTable(connection, tbl, cols, colTypes);
+
+  console.log(`📝 Sample data from first 3 rows:`);
+  for (let i = 0; i < Math.min(3, rows.length); i++) {
+    const values = cols.map(c => {
+      const value = rows[i][colIndexes[c]];
+      return value === null || value === undefined ? '' : String(value).trim();
+    });
+    console.log(`  Row ${i + 1}: ${JSON.stringify(values)}`);
+  }
+
+  // Typed values are appended as canonical strings and cast by DuckDB
+  const insertedRows = await appendRows(
+    connection,
+    tbl,
+    coerceRows(rows, cols, colIndexes, colTypes),
+    reportRows,
+    ROW_PROGRESS_INTERVAL
+  );
+
+  console.log(`📥 Inserted ${insertedRows} rows into ${tbl}`);
+
+  // Verify the data was actually inserted
+  const rowCountResult = await connection.run(`SELECT COUNT(*) FROM ${tbl}`);
+  const rowCountData = await rowCountResult.getRows();
+  const rowCount = Number(rowCountData[0][0]);
+  console.log(`✓ Verified ${rowCount} rows in ${tbl} (expected: ${insertedRows})`);
+
+  if (rowCount !== insertedRows) {
+    console.warn(`⚠️ Row count mismatch: inserted ${insertedRows} but found ${rowCount} in table`);
+  }
+
+  return {
+    cols,
+    colIndexes,
+    colTypes,
+    colUnits,
+    colHeaders,
+    // Sample rows keyed by column name for schema generation; duplicate headers would collide
+    sample: rows.slice(0, 5).map(row =>
+      Object.fromEntries(cols.map(c => [c, row[colIndexes[c]]]))
+    )
+  };
+}
+
+/**
+ * Process a workbook (Excel .xlsx/.xlsb/.xls or OpenDocument .ods) and convert to DuckDB database.
+ * Each sheet becomes one table per data region; Excel Tables and named ranges are
+ * imported as their own tables, replacing the regions an Excel Table covers.
  */
 export async function processExcelFile(
   filePath: string, 
-  fileId: string
+  fileId: string,
+  onProgress?: ProgressReporter
 ): Promise<ProcessedExcelResult> {
-  // Create SHA from file ID for consistency
-  const sha = crypto.createHash('sha256')
-    .update(fileId)
-    .digest('hex')
-    .slice(0, 12);
-  
-  const tmpDir = os.tmpdir();
-  const dbFile = path.join(tmpDir, `${sha}.duckdb`);
+  const sha = createWorkbookId(fileId);
+  const dbFile = getDatabasePath(sha);
   console.log(`Processing workbook: ${filePath} (ID: ${sha})`);
 
   // Read file as buffer first for better reliability
@@ -36,233 +192,313 @@ export async function processExcelFile(
   const fileBuffer = await fs.readFile(filePath);
   console.log(`File read successfully, buffer size: ${fileBuffer.length} bytes`);
   
-  const wb = XLSX.read(fileBuffer, { type: 'buffer' });
+  // Keep the raw package parts so Excel Table definitions can be read, formulas for lineage
+  // and number formats so date serials can be told apart from plain numbers
+  const wb = XLSX.read(fileBuffer, { type: 'buffer', bookFiles: true, cellFormula: true, cellNF: true });
   console.log(`Excel file parsed successfully, found ${wb.SheetNames.length} sheets`);
 
-  const instance = await DuckDBInstance.create(dbFile);
-  const connection = await instance.connect();
+  const date1904 = isDate1904(wb);
+  if (date1904) {
+    console.log('📅 Workbook uses the 1904 date system');
+  }
 
-  // Verify expected number of tables before creation
-  const expectedTables = wb.SheetNames.length;
-  console.log(`Preparing to create ${expectedTables} tables from Excel sheets...`);
+  const excelTables = readExcelTables(wb);
+  const namedRanges = readNamedRanges(wb);
+  if (excelTables.length || namedRanges.length) {
+    console.log(`📑 Found ${excelTables.length} Excel tables and ${namedRanges.length} named ranges`);
+  }
+  releasePackageParts(wb);
 
-  // Get list of expected table names
-  const expectedTableNames = wb.SheetNames.map(name => createTableName(name));
+  const hiddenSheets = readHiddenSheets(wb);
+  const excludeHidden = isHiddenSheetExclusionEnabled();
+  const excludedSheets: { name: string; visibility: HiddenVisibility }[] = [];
 
-  // Clean up any existing tables that aren't from our sheets
-  const existingTablesResult = await connection.run("SHOW TABLES");
-  const existingTables = await existingTablesResult.getRows();
-  for (const [tableName] of existingTables) {
-    if (tableName && typeof tableName === 'string' && !expectedTableNames.includes(tableName)) {
-      await connection.run(`DROP TABLE IF EXISTS "${tableName}"`);
-      console.log(`Cleaned up unrelated table: ${tableName}`);
-    }
-  }
+  // Tables are only known once each sheet's regions are detected, so start from an empty database
+  const { instance, connection } = await openDatabase(dbFile);
 
   // Store table schemas and column mappings for metadata generation
-  const tableSchemas: Record<string, string> = {};
+  const schemas: Record<string, TableSchema> = {};
   const tableColumnMappings: Record<string, string[]> = {};
+  const tableColumnTypes: Record<string, Record<string, ColumnType>> = {};
+  const tableColumnFormats: Record<string, Record<string, string>> = {};
+  const tableColumnUnits: Record<string, Record<string, ColumnUnit>> = {};
+  const tableColumnHeaders: Record<string, Record<string, string>> = {};
+  const tableSamples: Record<string, Record<string, unknown>[]> = {};
+  const sheets: SheetInfo[] = [];
+  const formulaCells: FormulaCell[] = [];
+  const annotationCells: AnnotationCell[] = [];
+  const columnLocations: TableColumnLocation[] = [];
+  const derivedTables: DerivedTable[] = [];
 
-  for (const sheetName of wb.SheetNames) {
-    const rows = XLSX.utils.sheet_to_json(wb.Sheets[sheetName], { 
-      defval: null,
-      raw: false,
-      blankrows: false
+  const tableColumns = (tableName: string): TableColumns => ({
+    names: tableColumnMappings[tableName] || [],
+    types: tableColumnTypes[tableName] || {},
+    headers: tableColumnHeaders[tableName] || {},
+    formats: tableColumnFormats[tableName],
+    units: tableColumnUnits[tableName]
+  });
+
+  const loadTable = async (
+    tbl: string,
+    table: SheetTable,
+    info: Omit<SheetInfo, 'table'>,
+    streamed?: StreamedSheet
+  ) => {
+    // Named ranges scoped to different sheets may share a name
+    let unique = tbl;
+    for (let n = 2; sheets.some(s => s.table === unique); n++) {
+      unique = `${tbl}_${n}`;
+    }
+
+    console.log(`📊 Processing ${info.source}: ${info.name ?? info.original_name} -> table: ${unique}`);
+    const totalRows = streamed ? estimateStreamedRows(table, streamed) : table.rows.length;
+    const reportRows = (rows: number) => onProgress?.({
+      type: 'rows',
+      table: unique,
+      sheet: info.original_name,
+      rows,
+      totalRows: Math.max(rows, totalRows)
     });
+    const loaded = streamed
+      ? await streamSheetTable(connection, unique, table, streamed, reportRows)
+      : await loadSheetTable(connection, unique, table, reportRows);
+    const { cols, colIndexes, colTypes, colUnits, colHeaders, sample } = loaded;
+
+    tableColumnMappings[unique] = cols;
+    tableColumnTypes[unique] = colTypes;
+    tableColumnHeaders[unique] = colHeaders;
+    if (Object.keys(colUnits).length) tableColumnUnits[unique] = colUnits;
+    tableSamples[unique] = sample;
+
+    const merges = loaded.merges || table.merges;
+    const sheetInfo: SheetInfo = {
+      table: unique,
+      ...info,
+      range: loaded.range || table.range,
+      header_range: table.headerRange || undefined,
+      data_range: loaded.dataRange || table.dataRange,
+      visibility: hiddenSheets[info.original_name],
+      merged_ranges: merges.length ? merges : undefined
+    };
+    sheets.push(sheetInfo);
 
-    if (!rows.length) {
-      console.log(`Skipping empty sheet: ${sheetName}`);
-      continue;
+    // Remember which sheet column feeds each table column so formula cells can be traced back
+    const firstCol = XLSX.utils.decode_range(sheetInfo.range!).s.c - table.columns[0].index;
+    const columns: TableColumnLocation['columns'] = {};
+    const formats: Record<string, string> = {};
+    for (const c of cols) {
+      const column = table.columns[colIndexes[c]];
+      columns[firstCol + column.index] = { name: c, header: colHeaders[c] };
+      if (column.format) formats[c] = column.format;
     }
+    columnLocations.push({ sheet: sheetInfo, columns });
+    if (Object.keys(formats).length) tableColumnFormats[unique] = formats;
+  };
 
-    const originalCols = Object.keys(rows[0] as object);
-    const colMapping = Object.fromEntries(
-      originalCols
-        .filter(col => col && !col.startsWith('__EMPTY'))
-        .map(col => [
-          sanitizeColumnName(String(col)),
-          col
-        ])
-    );
+  try {
+    const sheetMatrices: Record<string, SheetMatrix> = {};
 
-    const cols = Object.keys(colMapping);
-    const tbl = createTableName(sheetName);
-
-    console.log(`📊 Processing sheet: ${sheetName} -> table: ${tbl}`);
-    console.log(`📋 Original columns: ${originalCols.join(', ')}`);
-    console.log(`🔧 Sanitized columns: ${cols.join(', ')}`);
-    console.log(`📝 Rows to process: ${rows.length}`);
-
-    // Store the sanitized column names for metadata generation
-    tableColumnMappings[tbl] = cols;
-
-    const createTableSQL = `CREATE TABLE ${tbl} (${cols.map(c => `"${c}" TEXT`).join(',')})`;
-    await connection.run(`DROP TABLE IF EXISTS ${tbl};`);
-    await connection.run(createTableSQL);
-    console.log(`✅ Created table: ${tbl}`);
-    console.log(`🔧 SQL: ${createTableSQL}`);
-
-    const stmt = await connection.prepare(`INSERT INTO ${tbl} VALUES (${cols.map(() => '?').join(',')})`);
-    
-    let insertedRows = 0;
-    console.log(`📝 Sample data from first 3 rows:`);
-    for (let i = 0; i < Math.min(3, rows.length); i++) {
-      const row = rows[i] as Record<string, unknown>;
-      const values = cols.map(c => {
-        const originalCol = colMapping[c];
-        const value = row[originalCol];
-        return value === null || value === undefined ? '' : String(value).trim();
-      });
-      console.log(`  Row ${i + 1}: ${JSON.stringify(values)}`);
+    for (const [sheetIndex, sheetName] of wb.SheetNames.entries()) {
+      onProgress?.({ type: 'sheet', sheet: sheetName, index: sheetIndex, total: wb.SheetNames.length });
+      const ws = wb.Sheets[sheetName];
+
+      const visibility = hiddenSheets[sheetName];
+      if (visibility && excludeHidden) {
+        console.log(`🙈 Skipping ${visibility.replace('_', ' ')} sheet: ${sheetName}`);
+        excludedSheets.push({ name: sheetName, visibility });
+        delete wb.Sheets[sheetName];
+        continue;
+      }
+
+      const hasNamedRanges = namedRanges.some(def => def.sheetName === sheetName);
+
+      // A large sheet's layout is detected on its first rows and its last table streamed
+      // from the cells, unless Excel Tables or named ranges need the whole matrix
+      let streamed: { table: SheetTable; tables: SheetTable[]; source: StreamedSheet } | null = null;
+      if (isLargeSheet(ws) && !hasNamedRanges && !excelTables.some(def => def.sheetName === sheetName)) {
+        const window = readSheetMatrix(ws, date1904, LAYOUT_WINDOW_ROWS);
+        const windowTables = extractSheetTables(window);
+        const table = findContinuingTable(window, windowTables);
+        if (table) {
+          streamed = { table, tables: windowTables, source: { cells: ws, window } };
+        } else {
+          console.log(`⚠️ Could not find the table continuing past row ${LAYOUT_WINDOW_ROWS} of ${sheetName}, reading it whole`);
+        }
+      }
+
+      const sheet = streamed ? streamed.source.window : readSheetMatrix(ws, date1904);
+      if (hasNamedRanges) {
+        sheetMatrices[sheetName] = sheet;
+      }
+      formulaCells.push(...readFormulaCells(ws, sheetName));
+      annotationCells.push(...readAnnotationCells(ws, sheetName));
+
+      const definedTables = excelTables
+        .filter(def => def.sheetName === sheetName)
+        .map(def => ({ def, table: extractRangeTable(sheet, def.ref, def.layout) }));
+
+      // Regions inside an Excel Table are imported once, under the Table's name
+      const tables = (streamed ? streamed.tables : extractSheetTables(sheet)).filter(
+        table => !definedTables.some(({ def }) => isRangeWithin(table.range, def.ref))
+      );
+
+      if (!tables.length && !definedTables.length) {
+        console.log(`Skipping empty sheet: ${sheetName}`);
+        continue;
+      }
+
+      if (tables.length > 1) {
+        console.log(`🧩 Found ${tables.length} data regions in sheet: ${sheetName}`);
+      }
+
+      for (const [regionIndex, table] of tables.entries()) {
+        // Sheets with a single region keep the plain sheet table name
+        const region = tables.length > 1 ? regionIndex + 1 : undefined;
+        const tbl = region ? createRegionTableName(sheetName, region) : createTableName(sheetName);
+        await loadTable(
+          tbl,
+          table,
+          { original_name: sheetName, source: 'sheet', region },
+          table === streamed?.table ? streamed.source : undefined
+        );
+      }
+
+      for (const { def, table } of definedTables) {
+        if (!table) {
+          console.log(`Skipping empty Excel table: ${def.name}`);
+          continue;
+        }
+        await loadTable(createNamedTableName(def.name, 'table'), table, {
+          original_name: sheetName,
+          source: 'excel_table',
+          name: def.name
+        });
+      }
+
+      // Only named ranges read the sheet again, through sheetMatrices; release the cells
+      if (!hasNamedRanges) {
+        delete wb.Sheets[sheetName];
+      }
     }
-    
-    for (const row of (rows as Record<string, unknown>[])) {
-      const values = cols.map((c: string) => {
-        const originalCol = colMapping[c];
-        const value = row[originalCol];
-        return value === null || value === undefined ? '' : String(value).trim();
-      });
-      
-      for (let i = 0; i < values.length; i++) {
-        stmt.bindVarchar(i + 1, values[i]);
+
+    for (const def of namedRanges) {
+      // A name pointing at an Excel Table's range would only duplicate it
+      if (excelTables.some(t => t.sheetName === def.sheetName && t.ref === def.ref)) continue;
+      // Named ranges on excluded hidden sheets go with them
+      if (!sheetMatrices[def.sheetName]) continue;
+
+      const table = extractRangeTable(sheetMatrices[def.sheetName], def.ref);
+      if (!table) {
+        console.log(`Skipping named range without data: ${def.name}`);
+        continue;
       }
-      await stmt.run();
-      insertedRows++;
+      await loadTable(createNamedTableName(def.name, 'range'), table, {
+        original_name: def.sheetName,
+        source: 'named_range',
+        name: def.name
+      });
     }
-    
-    console.log(`📥 Inserted ${insertedRows} rows into ${tbl}`);
-
-    // Verify the data was actually inserted
-    const rowCountResult = await connection.run(`SELECT COUNT(*) FROM ${tbl}`);
-    const rowCountData = await rowCountResult.getRows();
-    const rowCount = Number(rowCountData[0][0]);
-    console.log(`✓ Verified ${rowCount} rows in ${tbl} (expected: ${insertedRows})`);
-    
-    if (rowCount !== insertedRows) {
-      console.warn(`⚠️ Row count mismatch: inserted ${insertedRows} but found ${rowCount} in table`);
+
+    onProgress?.({ type: 'sheet', index: wb.SheetNames.length, total: wb.SheetNames.length });
+
+    // Month-by-month and similar wide layouts also get a long form that is easier to query
+    for (const { table } of sheets) {
+      const derived = await unpivotCrosstab(connection, table, tableColumns(table));
+      if (derived) derivedTables.push(derived);
     }
-  }
 
-  // Verify number of tables created
-  const tablesResult = await connection.run("SHOW TABLES");
-  const tablesData = await tablesResult.getRows();
-  const actualTableNames = tablesData.map((row: unknown[]) => row[0] as string);
-  const tableCount = actualTableNames.length;
-  
-  console.log(`🔍 Tables found in database: ${actualTableNames.join(', ')}`);
-  console.log(`📊 Table count: ${tableCount} (expected: ${expectedTables})`);
-  
-  if (tableCount !== expectedTables) {
-    throw new Error(`Table count mismatch: Created ${tableCount} tables but expected ${expectedTables} (one per sheet)`);
-  }
-  console.log(`✓ Created ${tableCount} tables from ${expectedTables} sheets`);
+    if (formulaCells.length) {
+      await createFormulasTable(connection, formulaCells, columnLocations);
+    }
+    if (annotationCells.length) {
+      await createAnnotationsTable(connection, annotationCells, columnLocations);
+    }
 
-  // ===== CRITICAL FIX: Force DuckDB to flush all data to disk =====
-  console.log('🔧 Forcing DuckDB to flush all data to disk...');
-  
-  // 1. Commit any pending transactions
-  try {
-    await connection.run("COMMIT");
-    console.log('✅ Committed all transactions');
-  } catch {
-    console.log('ℹ️ No pending transactions to commit');
-  }
+    // Verify number of tables created
+    const expectedTables = sheets.length + derivedTables.length
+      + (formulaCells.length ? 1 : 0) + (annotationCells.length ? 1 : 0);
+    const tablesResult = await connection.run("SHOW TABLES");
+    const tablesData = await tablesResult.getRows();
+    const actualTableNames = tablesData.map((row: unknown[]) => row[0] as string);
+    const tableCount = actualTableNames.length;
   
-  // 2. Force a checkpoint to ensure all data is written to disk
-  try {
-    await connection.run("CHECKPOINT");
-    console.log('✅ Checkpoint completed - all data flushed to disk');
-  } catch (checkpointError) {
-    console.error('⚠️ Checkpoint failed:', checkpointError);
-  }
+    console.log(`🔍 Tables found in database: ${actualTableNames.join(', ')}`);
+    console.log(`📊 Table count: ${tableCount} (expected: ${expectedTables})`);
   
-  // 3. Close the connection properly to ensure all buffers are flushed
-  try {
-    if (connection && typeof connection.disconnectSync === 'function') {
-      connection.disconnectSync();
-      console.log('✅ Database connection closed properly');
-    } else if (connection && typeof connection.closeSync === 'function') {
-      connection.closeSync();
-      console.log('✅ Database connection closed properly');
-    } else {
-      console.log('ℹ️ Connection close method not available');
-    }
-  } catch (closeError) {
-    console.error('❌ Error closing connection:', closeError);
-  }
-  
-  // 4. Close the instance to release file handles
-  try {
-    if (instance && typeof instance.closeSync === 'function') {
-      instance.closeSync();
-      console.log('✅ DuckDB instance closed');
-    } else {
-      console.log('ℹ️ Instance close method not available');
+    if (tableCount !== expectedTables) {
+      throw new Error(`Table count mismatch: Created ${tableCount} tables but expected ${expectedTables} (one per data region, Excel table and named range, plus long forms, formulas and annotations)`);
     }
-  } catch (instanceCloseError) {
-    console.error('❌ Error closing instance:', instanceCloseError);
+    console.log(`✓ Created ${tableCount} tables from ${wb.SheetNames.length} sheets`);
+  } finally {
+    // Flush all data to disk and release the file, also when a sheet fails
+    await closeDatabase(instance, connection);
   }
 
+  onProgress?.({ type: 'stage', stage: 'profiling' });
+  const profile = await tryProfileDatabase(dbFile, sha, fileId);
+  const relationships = profile && sheets.length > 1
+    ? await tryDetectRelationships(dbFile, profile, [
+      FORMULAS_TABLE,
+      ANNOTATIONS_TABLE,
+      ...derivedTables.map(derived => derived.transform.table)
+    ])
+    : null;
+
   // Generate table schemas using the actual sanitized column names
-  for (const sheetName of wb.SheetNames) {
-    const rows = XLSX.utils.sheet_to_json(wb.Sheets[sheetName], { defval: null });
-    if (rows.length > 0) {
-      const tableName = createTableName(sheetName);
-      const sanitizedColumns = tableColumnMappings[tableName] || [];
-      tableSchemas[tableName] = await generateTableSchema(tableName, rows as Record<string, unknown>[], sanitizedColumns);
-    }
+  for (const [schemaIndex, { table: tableName }] of sheets.entries()) {
+    onProgress?.({ type: 'schema', table: tableName, index: schemaIndex, total: sheets.length });
+    schemas[tableName] = await generateTableSchema(
+      tableName, 
+      tableSamples[tableName], 
+      tableColumns(tableName),
+      profile?.tables[tableName]
+    );
+  }
+  onProgress?.({ type: 'schema', index: sheets.length, total: sheets.length });
+  for (const derived of derivedTables) {
+    const { table } = derived.transform;
+    schemas[table] = await generateDerivedSchema(derived, profile?.tables[table]);
+  }
+  if (formulaCells.length) {
+    schemas[FORMULAS_TABLE] = describeFormulasTable(profile?.tables[FORMULAS_TABLE]);
+  }
+  if (annotationCells.length) {
+    schemas[ANNOTATIONS_TABLE] = describeAnnotationsTable(profile?.tables[ANNOTATIONS_TABLE]);
   }
 
   const metadata: ExcelMetadata = {
+    version: METADATA_VERSION,
     workbook_id: sha,
     file_id: fileId,
-    sheets: wb.SheetNames.map(n => ({
-      table: createTableName(n),
-      original_name: n
-    })),
-    table_schemas: tableSchemas
+    sheets,
+    table_schemas: schemas,
+    formulas: formulaCells.length
+      ? { table: FORMULAS_TABLE, count: formulaCells.length }
+      : undefined,
+    annotations: annotationCells.length
+      ? {
+        table: ANNOTATIONS_TABLE,
+        comments: annotationCells.filter(a => a.kind === 'comment').length,
+        hyperlinks: annotationCells.filter(a => a.kind === 'hyperlink').length
+      }
+      : undefined,
+    excluded_sheets: excludedSheets.length ? excludedSheets : undefined,
+    transforms: derivedTables.length ? derivedTables.map(derived => derived.transform) : undefined,
+    relationships: relationships || undefined
   };
 
-  const metadataPath = path.join(tmpDir, `${sha}.json`);
-  await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2));
+  await writeMetadataFile(metadata);
 
-  // Quick verification that the database file was created and has tables
-  console.log(`🔍 Verifying database file: ${dbFile}`);
-  const fileExists = await fs.access(dbFile).then(() => true).catch(() => false);
-  console.log(`📁 Database file exists: ${fileExists}`);
-  
-  if (fileExists) {
-    const fileStats = await fs.stat(dbFile);
-    console.log(`📏 Database file size: ${fileStats.size} bytes`);
-    
-    // Test the database before upload
-    console.log('🔍 Testing database before upload...');
-    const testInstance = await DuckDBInstance.create(dbFile);
-    const testConnection = await testInstance.connect();
-    
-    const testTablesResult = await testConnection.run("SHOW TABLES");
-    const testTables = await testTablesResult.getRows();
-    const testTableNames = testTables.map((row: unknown[]) => row[0] as string);
-    console.log(`📋 Tables in database before upload: ${testTableNames.join(', ')}`);
-    
-    // Test a simple query on each table
-    for (const tableName of testTableNames) {
-      try {
-        const testCountResult = await testConnection.run(`SELECT COUNT(*) FROM ${tableName}`);
-        const testCountData = await testCountResult.getRows();
-        const testRowCount = Number(testCountData[0][0]);
-        console.log(`📊 Table ${tableName}: ${testRowCount} rows`);
-      } catch (error) {
-        console.error(`❌ Error testing table ${tableName}:`, error);
-      }
-    }
-  }
+  await testDatabaseFile(dbFile);
 
   return {
     sha,
     dbFile,
     metadata,
-    sheetsProcessed: wb.SheetNames.length,
-    tableColumnMappings
+    profile,
+    sheetsProcessed: sheets.length,
+    tableColumnMappings,
+    tableColumnTypes,
+    tableColumnUnits
   };
 } 
\ No newline at end of file
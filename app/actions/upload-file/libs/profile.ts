@@ -0,0 +1,159 @@
+import { DuckDBInstance, DuckDBConnection } from '@duckdb/node-api';
+import { WorkbookProfile, TableProfile, ColumnProfile } from './types';
+
+// Stored next to metadata.json in the workbook's storage folder
+export const PROFILE_FILE_NAME = 'profile.json';
+
+// Most frequent values kept for text and boolean columns
+const TOP_VALUES = 10;
+
+const NUMERIC_TYPE = /^(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT|FLOAT|REAL|DOUBLE|DECIMAL)/;
+const TEMPORAL_TYPE = /^(DATE|TIME|TIMESTAMP)/;
+const CATEGORY_TYPE = /^(VARCHAR|BOOLEAN)/;
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function toNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function isBlankFilter(column: string): string {
+  return `"${column}" IS NULL OR trim(CAST("${column}" AS VARCHAR)) = ''`;
+}
+
+/**
+ * Profile one table: row count, then per column the null/blank ratio, distinct count,
+ * min/max, mean and quartiles for numbers, range for dates and top values for text.
+ * Column statistics come from a single aggregate query.
+ */
+async function profileTable(connection: DuckDBConnection, table: string): Promise<TableProfile> {
+  const columnsResult = await connection.run(`
+    SELECT column_name, data_type
+    FROM information_schema.columns
+    WHERE table_schema = 'main' AND table_name = ${quoteLiteral(table)}
+    ORDER BY ordinal_position
+  `);
+  const columns = (await columnsResult.getRows()).map(([name, type]) => ({
+    name: name as string,
+    type: type as string
+  }));
+
+  const aggregates = ['count(*)'];
+  for (const { name, type } of columns) {
+    aggregates.push(
+      `count(*) FILTER (WHERE ${isBlankFilter(name)})`,
+      `count(DISTINCT "${name}")`
+    );
+    if (NUMERIC_TYPE.test(type)) {
+      aggregates.push(
+        `CAST(min("${name}") AS DOUBLE)`,
+        `CAST(max("${name}") AS DOUBLE)`,
+        `CAST(avg("${name}") AS DOUBLE)`,
+        `CAST(quantile_cont("${name}", 0.25) AS DOUBLE)`,
+        `CAST(quantile_cont("${name}", 0.5) AS DOUBLE)`,
+        `CAST(quantile_cont("${name}", 0.75) AS DOUBLE)`
+      );
+    } else if (TEMPORAL_TYPE.test(type)) {
+      aggregates.push(`CAST(min("${name}") AS VARCHAR)`, `CAST(max("${name}") AS VARCHAR)`);
+    }
+  }
+
+  const statsResult = await connection.run(`SELECT ${aggregates.join(', ')} FROM "${table}"`);
+  const stats = (await statsResult.getRows())[0];
+  let position = 0;
+  const next = () => stats[position++];
+
+  const rowCount = Number(next());
+  const profile: TableProfile = { row_count: rowCount, columns: {} };
+
+  for (const { name, type } of columns) {
+    const blanks = Number(next());
+    const column: ColumnProfile = {
+      type,
+      null_ratio: rowCount ? Math.round((blanks / rowCount) * 10000) / 10000 : 0,
+      distinct_count: Number(next())
+    };
+
+    if (NUMERIC_TYPE.test(type)) {
+      column.min = toNumber(next());
+      column.max = toNumber(next());
+      column.mean = toNumber(next());
+      column.percentiles = { p25: toNumber(next()), p50: toNumber(next()), p75: toNumber(next()) };
+    } else if (TEMPORAL_TYPE.test(type)) {
+      column.min = next() as string | null;
+      column.max = next() as string | null;
+    } else if (CATEGORY_TYPE.test(type) && column.distinct_count > 0) {
+      const topResult = await connection.run(`
+        SELECT CAST("${name}" AS VARCHAR) AS value, count(*) AS n
+        FROM "${table}"
+        WHERE NOT (${isBlankFilter(name)})
+        GROUP BY 1
+        ORDER BY n DESC, value
+        LIMIT ${TOP_VALUES}
+      `);
+      column.top_values = (await topResult.getRows()).map(([value, count]) => ({
+        value: String(value),
+        count: Number(count)
+      }));
+      // A few values repeated across the rows, rather than free text or identifiers
+      column.categorical = column.distinct_count <= TOP_VALUES && column.distinct_count < rowCount;
+    }
+
+    profile.columns[name] = column;
+  }
+
+  return profile;
+}
+
+/**
+ * Profile every table of a workbook's database, opened read-only
+ */
+export async function profileDatabase(
+  dbPath: string,
+  workbookId: string,
+  fileId: string
+): Promise<WorkbookProfile> {
+  console.log(`📊 Profiling database ${dbPath}...`);
+  const instance = await DuckDBInstance.create(dbPath, { access_mode: 'READ_ONLY' });
+
+  try {
+    const connection = await instance.connect();
+    const tablesResult = await connection.run(`
+      SELECT table_name
+      FROM information_schema.tables
+      WHERE table_schema = 'main'
+      ORDER BY table_name
+    `);
+    const tableNames = (await tablesResult.getRows()).map(row => row[0] as string);
+
+    const tables: Record<string, TableProfile> = {};
+    for (const table of tableNames) {
+      tables[table] = await profileTable(connection, table);
+      console.log(`📊 Profiled ${table}: ${tables[table].row_count} rows, ${Object.keys(tables[table].columns).length} columns`);
+    }
+
+    connection.closeSync();
+    return { workbook_id: workbookId, file_id: fileId, tables };
+  } finally {
+    instance.closeSync();
+  }
+}
+
+/**
+ * Profile a database, or null if that fails. Profiles only add hints for schemas, the UI
+ * and SQL generation, so the file is ingested without one rather than failing.
+ */
+export async function tryProfileDatabase(
+  dbPath: string,
+  workbookId: string,
+  fileId: string
+): Promise<WorkbookProfile | null> {
+  try {
+    return await profileDatabase(dbPath, workbookId, fileId);
+  } catch (error) {
+    console.error('⚠️ Database profiling failed, continuing without a profile:', error);
+    return null;
+  }
+}
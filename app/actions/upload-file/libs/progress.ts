@@ -0,0 +1,56 @@
+import { IngestionProgress, IngestionStage } from './types';
+
+/**
+ * Structured progress events emitted by the ingestion pipeline
+ */
+export type ProgressEvent =
+  | { type: 'stage'; stage: IngestionStage }
+  // Sheet `index` (0-based) of `total` started; index === total once all are parsed
+  | { type: 'sheet'; sheet?: string; index: number; total: number }
+  | { type: 'rows'; table: string; sheet: string; rows: number; totalRows: number }
+  // Same convention as sheet events, for per-table schema generation
+  | { type: 'schema'; table?: string; index: number; total: number }
+  | { type: 'failed'; stage: IngestionStage };
+
+export type ProgressReporter = (event: ProgressEvent) => void;
+
+// Rows inserted between two progress events of a table
+export const ROW_PROGRESS_INTERVAL = 1000;
+
+export function createInitialProgress(): IngestionProgress {
+  return { stage: 'downloading', tables: [] };
+}
+
+/**
+ * Fold a progress event into the progress snapshot
+ */
+export function applyProgressEvent(
+  progress: IngestionProgress,
+  event: ProgressEvent
+): IngestionProgress {
+  switch (event.type) {
+    case 'stage':
+      return { ...progress, stage: event.stage };
+    case 'sheet':
+      // Sheet N of M is reported when it starts, so the ones before it are done
+      return {
+        ...progress,
+        stage: 'parsing',
+        sheets: { done: event.index, total: event.total, current: event.sheet }
+      };
+    case 'rows': {
+      const table = { name: event.table, sheet: event.sheet, rows: event.rows, total_rows: event.totalRows };
+      const known = progress.tables.some(t => t.name === event.table);
+      return {
+        ...progress,
+        tables: known
+          ? progress.tables.map(t => (t.name === event.table ? table : t))
+          : [...progress.tables, table]
+      };
+    }
+    case 'schema':
+      return { ...progress, stage: 'schema', schemas: { done: event.index, total: event.total } };
+    case 'failed':
+      return { ...progress, failed_stage: event.stage };
+  }
+}
@@ -0,0 +1,191 @@
+import type { DuckDBConnection } from '@duckdb/node-api';
+import path from 'node:path';
+import { ProcessedExcelResult, ColumnType, MAX_FLATTEN_DEPTH } from './types';
+import { sanitizeColumnNames, createTableName } from './schema';
+import { toColumnType } from './inference';
+import { createWorkbookId, getDatabasePath, openDatabase, closeDatabase } from './duckdb';
+import { finishSingleTable } from './csv';
+import { ProgressReporter } from './progress';
+
+// Levels of nested objects expanded into their own columns unless JSON_FLATTEN_DEPTH says otherwise
+const DEFAULT_FLATTEN_DEPTH = 2;
+
+const STRUCT_TYPE = /^STRUCT\(/;
+// Lists, maps, unions and what the JSON reader left untyped are stored as JSON text
+const NESTED_TYPE = /^(STRUCT|MAP|UNION)\(|\[\d*\]$|^JSON$/;
+
+/**
+ * A column of the file's rows: an expression reading it, its path in the record
+ * (["user", "address", "city"]) and its DuckDB type
+ */
+interface SourceColumn {
+  expression: string;
+  path: string[];
+  type: string;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function quoteIdentifier(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Levels of nested objects flattened into columns: the depth chosen for the upload, else
+ * JSON_FLATTEN_DEPTH (0 keeps every nested object as JSON text)
+ */
+export function getFlattenDepth(requested?: number | null): number {
+  const depth = requested ?? Number.parseInt(process.env.JSON_FLATTEN_DEPTH || '', 10);
+  if (Number.isNaN(depth)) return DEFAULT_FLATTEN_DEPTH;
+  return Math.min(Math.max(depth, 0), MAX_FLATTEN_DEPTH);
+}
+
+async function describeColumns(connection: DuckDBConnection, query: string): Promise<[string, string][]> {
+  const result = await connection.run(`DESCRIBE ${query}`);
+  return (await result.getRows()).map(([name, type]) => [String(name), String(type)]);
+}
+
+/**
+ * The columns of a reader's rows, with struct columns expanded into one column per field
+ * down to `depth` levels: user.address.city becomes its own column at depth 2
+ */
+async function flattenColumns(
+  connection: DuckDBConnection,
+  source: string,
+  depth: number
+): Promise<SourceColumn[]> {
+  const expand = async (column: SourceColumn): Promise<SourceColumn[]> => {
+    if (!STRUCT_TYPE.test(column.type) || column.path.length > depth) {
+      return [column];
+    }
+    const fields = await describeColumns(connection, `SELECT unnest(${column.expression}) FROM ${source}`);
+    const nested = await Promise.all(fields.map(([field, type]) => expand({
+      expression: `struct_extract(${column.expression}, ${quoteLiteral(field)})`,
+      path: [...column.path, field],
+      type
+    })));
+    return nested.flat();
+  };
+
+  const columns = await describeColumns(connection, `SELECT * FROM ${source}`);
+  const flattened: SourceColumn[] = [];
+  for (const [name, type] of columns) {
+    flattened.push(...await expand({ expression: quoteIdentifier(name), path: [name], type }));
+  }
+  return flattened;
+}
+
+/**
+ * Create a table from a DuckDB reader, flattening nested columns and renaming every
+ * column to a sanitized name; what remains nested is stored as JSON text
+ */
+async function createTableFromReader(
+  connection: DuckDBConnection,
+  tableName: string,
+  source: string,
+  depth: number
+): Promise<{ colMapping: Record<string, string>; colTypes: Record<string, ColumnType> }> {
+  const columns = await flattenColumns(connection, source, depth);
+  const headers = columns.map(column => column.path.join('.'));
+  const sanitizedNames = sanitizeColumnNames(columns.map(column => column.path.join('_')));
+
+  const colMapping: Record<string, string> = {};
+  const colTypes: Record<string, ColumnType> = {};
+  const selectList = columns.map((column, i) => {
+    const col = sanitizedNames[i];
+    colMapping[col] = headers[i];
+    if (NESTED_TYPE.test(column.type)) {
+      colTypes[col] = 'VARCHAR';
+      return `CAST(to_json(${column.expression}) AS VARCHAR) AS "${col}"`;
+    }
+    colTypes[col] = toColumnType(column.type);
+    return `CAST(${column.expression} AS ${colTypes[col]}) AS "${col}"`;
+  });
+
+  const nestedCount = columns.filter(column => column.path.length > 1).length;
+  if (nestedCount) {
+    console.log(`🪆 Flattened ${nestedCount} nested fields into columns (depth ${depth})`);
+  }
+
+  await connection.run(`DROP TABLE IF EXISTS ${tableName};`);
+  await connection.run(`CREATE TABLE ${tableName} AS SELECT ${selectList.join(', ')} FROM ${source}`);
+
+  return { colMapping, colTypes };
+}
+
+/**
+ * Process a file DuckDB reads directly into a single-table database
+ */
+async function processReaderFile(
+  filePath: string,
+  fileId: string,
+  originalName: string,
+  kind: string,
+  source: string,
+  depth: number,
+  onProgress?: ProgressReporter
+): Promise<ProcessedExcelResult> {
+  const sha = createWorkbookId(fileId);
+  const dbFile = getDatabasePath(sha);
+  console.log(`Processing ${kind} file: ${filePath} (ID: ${sha})`);
+
+  const sheetName = path.parse(originalName).name || 'data';
+  const tbl = createTableName(sheetName);
+
+  const { instance, connection } = await openDatabase(dbFile, [tbl]);
+  onProgress?.({ type: 'sheet', sheet: sheetName, index: 0, total: 1 });
+
+  let created: Awaited<ReturnType<typeof createTableFromReader>>;
+  try {
+    created = await createTableFromReader(connection, tbl, source, depth);
+  } catch (error) {
+    // Past this point finishSingleTable closes the database
+    await closeDatabase(instance, connection);
+    throw error;
+  }
+
+  return finishSingleTable({
+    instance,
+    connection,
+    sha,
+    dbFile,
+    fileId,
+    tbl,
+    sheetName,
+    originalName,
+    ...created
+  }, onProgress);
+}
+
+/**
+ * Process a Parquet file into a single-table database. Column types come from the file;
+ * struct columns are flattened like JSON objects.
+ */
+export async function processParquetFile(
+  filePath: string,
+  fileId: string,
+  originalName: string,
+  onProgress?: ProgressReporter,
+  flattenDepth?: number | null
+): Promise<ProcessedExcelResult> {
+  const source = `read_parquet(${quoteLiteral(filePath)})`;
+  return processReaderFile(filePath, fileId, originalName, 'Parquet', source, getFlattenDepth(flattenDepth), onProgress);
+}
+
+/**
+ * Process a JSON file of records, newline-delimited or one array, into a single-table
+ * database. Nested objects become columns down to `flattenDepth` levels, by default
+ * JSON_FLATTEN_DEPTH.
+ */
+export async function processJsonFile(
+  filePath: string,
+  fileId: string,
+  originalName: string,
+  onProgress?: ProgressReporter,
+  flattenDepth?: number | null
+): Promise<ProcessedExcelResult> {
+  const source = `read_json(${quoteLiteral(filePath)}, format = 'auto', records = true)`;
+  return processReaderFile(filePath, fileId, originalName, 'JSON', source, getFlattenDepth(flattenDepth), onProgress);
+}
@@ -0,0 +1,196 @@
+import { DuckDBInstance, DuckDBConnection } from '@duckdb/node-api';
+import { WorkbookProfile, TableRelationships, ForeignKey } from './types';
+
+// Column types that can hold identifiers; floats, dates and booleans are never keys
+const KEY_TYPE = /^(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT|VARCHAR)/;
+
+// Name parts that say a column is an identifier but not what it identifies
+const GENERIC_TOKENS = new Set(['id', 'key', 'code', 'no', 'nr', 'num', 'number', 'ref']);
+
+// A column must name the key closely enough, and its values mostly exist in the key
+const MIN_NAME_SIMILARITY = 0.5;
+const MIN_CONTAINMENT = 0.9;
+
+function tokenize(name: string): string[] {
+  return name.toLowerCase().split(/_+/).filter(Boolean);
+}
+
+/**
+ * What a table holds, singular, from its name: sheet_customers -> customer,
+ * table_order_lines -> order_line
+ */
+function tableStem(table: string): string {
+  const name = table.replace(/^(sheet|table|range)_/, '').replace(/__r\d+$/, '');
+  if (name.endsWith('ies')) return `${name.slice(0, -3)}y`;
+  if (name.endsWith('s') && !name.endsWith('ss')) return name.slice(0, -1);
+  return name;
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  // Abbreviations count: cust matches customer
+  return a === b || (a.length >= 3 && b.length >= 3 && (a.startsWith(b) || b.startsWith(a)));
+}
+
+/**
+ * How closely a column's name refers to a key column of another table, 0 to 1.
+ * orders.customer_id scores 1 against customers.customer_id and customers.id,
+ * orders.customer 0.8 against customers.name, orders.cust_id 1 against customers.id.
+ */
+function nameSimilarity(column: string, key: string, keyTable: string): number {
+  const stem = tableStem(keyTable);
+  if (column === key && !GENERIC_TOKENS.has(key)) return 1;
+  if (column === `${stem}_${key}` || column === `${stem}${key}`) return 1;
+  if (column === stem) return 0.8;
+
+  const columnTokens = tokenize(column);
+  const targetTokens = [...new Set([...tokenize(stem), ...tokenize(key)])];
+  const matched = columnTokens.filter(token => targetTokens.some(target => tokensMatch(token, target)));
+  // Sharing only "id" or "code" says nothing about which table is meant
+  if (!matched.some(token => !GENERIC_TOKENS.has(token))) return 0;
+
+  return matched.length / (columnTokens.length + targetTokens.length - matched.length);
+}
+
+/**
+ * Whether a column names its own table's identifier, e.g. customers.customer_id or
+ * customers.customer_code, so it is that table's key rather than a reference
+ */
+function identifiesOwnTable(column: string, table: string): boolean {
+  const named = tokenize(column).filter(token => !GENERIC_TOKENS.has(token));
+  return named.length > 0 && named.join('_') === tableStem(table);
+}
+
+/**
+ * Columns of each table that could be its primary key: unique and never empty. Columns
+ * whose name says they are an identifier come first, then in table order.
+ */
+function findKeyCandidates(profile: WorkbookProfile, tables: string[]): Record<string, string[]> {
+  const keys: Record<string, string[]> = {};
+
+  for (const table of tables) {
+    const { row_count: rowCount, columns } = profile.tables[table];
+    if (rowCount < 2) continue;
+
+    const candidates = Object.entries(columns)
+      .filter(([, column]) =>
+        KEY_TYPE.test(column.type) && column.null_ratio === 0 && column.distinct_count === rowCount
+      )
+      .map(([name]) => name);
+    const isIdentifier = (name: string) => tokenize(name).some(token => GENERIC_TOKENS.has(token));
+    candidates.sort((a, b) => Number(isIdentifier(b)) - Number(isIdentifier(a)));
+
+    if (candidates.length) keys[table] = candidates;
+  }
+
+  return keys;
+}
+
+/**
+ * Share of a column's distinct values that also appear in a key column, compared as
+ * trimmed text so integer and text identifiers match
+ */
+async function measureContainment(
+  connection: DuckDBConnection,
+  table: string,
+  column: string,
+  keyTable: string,
+  key: string
+): Promise<{ distinct: number; contained: number }> {
+  const result = await connection.run(`
+    SELECT count(*), count(k.v)
+    FROM (
+      SELECT DISTINCT trim(CAST("${column}" AS VARCHAR)) AS v
+      FROM "${table}"
+      WHERE "${column}" IS NOT NULL AND trim(CAST("${column}" AS VARCHAR)) <> ''
+    ) f
+    LEFT JOIN (SELECT DISTINCT trim(CAST("${key}" AS VARCHAR)) AS v FROM "${keyTable}") k ON f.v = k.v
+  `);
+  const [distinct, contained] = (await result.getRows())[0];
+  return { distinct: Number(distinct), contained: Number(contained) };
+}
+
+/**
+ * Detect candidate keys and foreign keys between a workbook's tables, opened read-only.
+ * A column is a foreign key when its name refers to another table's key candidate and
+ * nearly all of its values exist in that key; each column keeps its best match.
+ */
+export async function detectRelationships(
+  dbPath: string,
+  profile: WorkbookProfile,
+  excludeTables: string[] = []
+): Promise<TableRelationships> {
+  const tables = Object.keys(profile.tables).filter(table => !excludeTables.includes(table));
+  const primaryKeys = findKeyCandidates(profile, tables);
+  const foreignKeys: ForeignKey[] = [];
+
+  if (!Object.keys(primaryKeys).length || tables.length < 2) {
+    return { primary_keys: primaryKeys, foreign_keys: foreignKeys };
+  }
+
+  console.log(`🔗 Detecting relationships between ${tables.length} tables...`);
+  const instance = await DuckDBInstance.create(dbPath, { access_mode: 'READ_ONLY' });
+
+  try {
+    const connection = await instance.connect();
+
+    for (const table of tables) {
+      for (const [column, stats] of Object.entries(profile.tables[table].columns)) {
+        if (!KEY_TYPE.test(stats.type) || stats.distinct_count < 2) continue;
+        if (primaryKeys[table]?.includes(column) && identifiesOwnTable(column, table)) continue;
+
+        let best: ForeignKey | null = null;
+        for (const [keyTable, keys] of Object.entries(primaryKeys)) {
+          for (const key of keys) {
+            if (keyTable === table && key === column) continue;
+
+            const similarity = Math.round(nameSimilarity(column, key, keyTable) * 100) / 100;
+            if (similarity < MIN_NAME_SIMILARITY) continue;
+            if (best && similarity < best.name_similarity) continue;
+
+            const { distinct, contained } = await measureContainment(connection, table, column, keyTable, key);
+            const containment = distinct ? Math.round((contained / distinct) * 10000) / 10000 : 0;
+            if (containment < MIN_CONTAINMENT) continue;
+
+            if (!best || similarity > best.name_similarity || containment > best.containment) {
+              best = {
+                table,
+                column,
+                references_table: keyTable,
+                references_column: key,
+                containment,
+                name_similarity: similarity
+              };
+            }
+          }
+        }
+
+        if (best) {
+          foreignKeys.push(best);
+          console.log(`🔗 ${table}.${column} -> ${best.references_table}.${best.references_column} (${Math.round(best.containment * 100)}% of values match)`);
+        }
+      }
+    }
+
+    connection.closeSync();
+    return { primary_keys: primaryKeys, foreign_keys: foreignKeys };
+  } finally {
+    instance.closeSync();
+  }
+}
+
+/**
+ * Detect relationships, or null if that fails. Join hints are optional, so the file is
+ * ingested without them rather than failing.
+ */
+export async function tryDetectRelationships(
+  dbPath: string,
+  profile: WorkbookProfile,
+  excludeTables: string[] = []
+): Promise<TableRelationships | null> {
+  try {
+    return await detectRelationships(dbPath, profile, excludeTables);
+  } catch (error) {
+    console.error('⚠️ Relationship detection failed, continuing without join hints:', error);
+    return null;
+  }
+}
@@ -1,59 +1,163 @@
 import slugify from 'slugify';
 import OpenAI from 'openai';
+import { ColumnType, ColumnUnit, ColumnInfo, TableProfile, TableSchema } from './types';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// DuckDB reserved keywords, which generated SQL could not use as unquoted column names
+const RESERVED_KEYWORDS = new Set([
+  'all', 'analyse', 'analyze', 'and', 'any', 'array', 'as', 'asc', 'asymmetric', 'both',
+  'case', 'cast', 'check', 'collate', 'column', 'constraint', 'create', 'default',
+  'deferrable', 'desc', 'describe', 'distinct', 'do', 'else', 'end', 'except', 'false',
+  'fetch', 'for', 'foreign', 'from', 'group', 'having', 'in', 'initially', 'intersect',
+  'into', 'lambda', 'lateral', 'leading', 'limit', 'not', 'null', 'offset', 'on', 'only',
+  'or', 'order', 'pivot', 'pivot_longer', 'pivot_wider', 'placing', 'primary', 'qualify',
+  'references', 'returning', 'select', 'show', 'some', 'summarize', 'symmetric', 'table',
+  'then', 'to', 'trailing', 'true', 'union', 'unique', 'unpivot', 'using', 'variadic',
+  'when', 'where', 'window', 'with'
+]);
 
 /**
- * Sanitize column names for database compatibility
+ * Sanitize column names for database compatibility.
+ * Headers that slugify to nothing (empty or non-Latin text) are named after their position,
+ * and reserved SQL keywords get a `_col` suffix. When the names already used in the table
+ * are passed, the result is made unique with `_2`, `_3`, ... and added to them.
  */
-export function sanitizeColumnName(columnName: string): string {
-  let sanitized = slugify(String(columnName), { 
+export function sanitizeColumnName(
+  columnName: string,
+  usedNames?: Set<string>,
+  position?: number
+): string {
+  let sanitized = slugify(String(columnName ?? ''), { 
     lower: true, 
     strict: true, 
     replacement: '_' 
   });
+
+  if (!sanitized) {
+    sanitized = position === undefined ? 'column' : `column_${position + 1}`;
+  }
   
   // Add prefix if column name starts with a number
   if (/^\d/.test(sanitized)) {
     sanitized = `col_${sanitized}`;
   }
+
+  if (RESERVED_KEYWORDS.has(sanitized)) {
+    sanitized = `${sanitized}_col`;
+  }
+
+  if (!usedNames) {
+    return sanitized;
+  }
+
+  let unique = sanitized;
+  for (let n = 2; usedNames.has(unique); n++) {
+    unique = `${sanitized}_${n}`;
+  }
+  usedNames.add(unique);
   
-  return sanitized;
+  return unique;
 }
 
 /**
- * Generate table schema description using OpenAI
+ * Sanitize all headers of a table into unique column names, in order
  */
-export async function generateTableSchema(
-  tableName: string, 
-  sampleData: Record<string, unknown>[], 
-  sanitizedColumns: string[]
-): Promise<string> {
-  if (!sampleData?.length) {
-    return `Table: ${tableName}\nColumns: No data available`;
+export function sanitizeColumnNames(headers: string[]): string[] {
+  const usedNames = new Set<string>();
+  return headers.map((header, i) => sanitizeColumnName(header, usedNames, i));
+}
+
+/**
+ * What ingestion knows about a table's columns, keyed by sanitized column name
+ */
+export interface TableColumns {
+  // Sanitized column names, in order
+  names: string[];
+  types: Record<string, ColumnType>;
+  headers: Record<string, string>;
+  formats?: Record<string, string>;
+  units?: Record<string, ColumnUnit>;
+}
+
+// Sample values kept per column, and the length each is cut to
+const SAMPLE_VALUES = 3;
+const SAMPLE_VALUE_LENGTH = 40;
+
+/**
+ * A few distinct, non-empty values of a column from the sample rows
+ */
+function getSampleValues(sampleData: Record<string, unknown>[], column: string): string[] {
+  const values = new Set<string>();
+  for (const row of sampleData) {
+    const value = row[column];
+    if (value === null || value === undefined || String(value).trim() === '') continue;
+
+    const text = String(value);
+    values.add(text.length > SAMPLE_VALUE_LENGTH ? `${text.slice(0, SAMPLE_VALUE_LENGTH)}…` : text);
+    if (values.size === SAMPLE_VALUES) break;
+  }
+  return [...values];
+}
+
+/**
+ * Build a table's schema locally from its columns, types, original headers, sample rows
+ * and profile. Always succeeds, so every table has a schema even without an LLM.
+ */
+export function buildTableSchema(
+  tableName: string,
+  sampleData: Record<string, unknown>[],
+  columns: TableColumns,
+  profile?: TableProfile
+): TableSchema {
+  return {
+    tableName,
+    columns: columns.names.map(col => ({
+      name: col,
+      type: profile?.columns[col]?.type || columns.types[col] || 'VARCHAR',
+      header: columns.headers[col] ?? col,
+      ...(columns.formats?.[col] ? { format: columns.formats[col] } : {}),
+      ...(columns.units?.[col] ? { unit: columns.units[col] } : {}),
+      samples: getSampleValues(sampleData || [], col),
+      ...(profile?.columns[col] ? { profile: profile.columns[col] } : {})
+    }))
+  };
+}
+
+/**
+ * Whether LLM-written descriptions are added to schemas: needs an OpenAI key, and can be
+ * turned off with SCHEMA_DESCRIPTIONS=off
+ */
+function isSchemaEnrichmentEnabled(): boolean {
+  return !!process.env.OPENAI_API_KEY && process.env.SCHEMA_DESCRIPTIONS !== 'off';
+}
+
+/**
+ * Add LLM-written table and column descriptions to a schema. The schema is returned
+ * unchanged when enrichment is off or the request fails.
+ */
+export async function enrichTableSchema(schema: TableSchema): Promise<TableSchema> {
+  if (!isSchemaEnrichmentEnabled() || !schema.columns.length) {
+    return schema;
   }
 
-  const sampleRows = sampleData.slice(0, 5);
-  const prompt = `Analyze this table data and generate a schema description.
-Table name: ${tableName}
-Sample data: ${JSON.stringify(sampleRows, null, 2)}
-Actual column names in database: ${sanitizedColumns.join(', ')}
+  const columnList = schema.columns
+    .map(col => `- ${col.name} (${col.type}), header "${col.header}", e.g. ${col.samples.join(', ') || 'no values'}`)
+    .join('\n');
 
-Generate schema in format:
-Table: ${tableName}
+  const prompt = `Describe this database table imported from a spreadsheet.
+Table name: ${schema.tableName}
 Columns:
-- [actual_column_name_from_database] (VARCHAR): [brief description]
+${columnList}
+
+Reply with JSON only, in the form:
+{"description": "<one sentence about the table>", "columns": {"<column_name>": "<brief description>"}}
 
 Rules:
-1. Use exact table name
-2. Use ONLY the actual column names from the database: ${sanitizedColumns.join(', ')}
-3. All columns must be VARCHAR
-4. Keep descriptions brief and factual
-5. Do NOT use original Excel header names, use the sanitized database column names`;
+1. Use exactly the column names listed above as keys
+2. Keep descriptions brief and factual
+3. Mention the original header in a description when it differs from the column name`;
 
   try {
+    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
     const completion = await openai.chat.completions.create({
       model: 'gpt-4',
       messages: [
@@ -61,17 +165,73 @@ Rules:
         { role: 'user', content: prompt }
       ],
       temperature: 0.1,
-      max_tokens: 300
+      // Room for a line per column, however wide the table
+      max_tokens: Math.min(2000, 100 + 40 * schema.columns.length)
     });
 
-    const schema = completion.choices[0]?.message?.content?.trim() || '';
-    return schema || `Table: ${tableName}\nColumns: Schema generation failed`;
+    const content = completion.choices[0]?.message?.content || '';
+    const json = content.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) {
+      throw new Error('No JSON object in the response');
+    }
+
+    const parsed = JSON.parse(json) as { description?: unknown; columns?: Record<string, unknown> };
+    const descriptions = parsed.columns || {};
+    return {
+      ...schema,
+      ...(typeof parsed.description === 'string' ? { description: parsed.description } : {}),
+      columns: schema.columns.map(col =>
+        typeof descriptions[col.name] === 'string'
+          ? { ...col, description: descriptions[col.name] as string }
+          : col
+      )
+    };
   } catch (error) {
-    console.error('Error generating schema:', error);
-    return `Table: ${tableName}\nColumns: Schema generation failed`;
+    console.error(`⚠️ Schema descriptions for ${schema.tableName} failed, keeping the local schema:`, error);
+    return schema;
   }
 }
 
+/**
+ * Generate a table's schema: built locally, then enriched with descriptions when possible
+ */
+export async function generateTableSchema(
+  tableName: string, 
+  sampleData: Record<string, unknown>[], 
+  columns: TableColumns,
+  profile?: TableProfile
+): Promise<TableSchema> {
+  return enrichTableSchema(buildTableSchema(tableName, sampleData, columns, profile));
+}
+
+/**
+ * Description of a column for the text schema: the LLM's, or one made from its header
+ * and sample values
+ */
+function describeColumn(column: ColumnInfo): string {
+  if (column.description) return column.description;
+
+  const examples = column.samples.length ? `, e.g. ${column.samples.join(', ')}` : '';
+  return `${column.header}${examples}`;
+}
+
+/**
+ * Text rendering of a schema: a "Table:" line, the description if any, then
+ * "- column (TYPE): description" per column
+ */
+export function renderTableSchema(schema: TableSchema): string {
+  if (!schema.columns.length) {
+    return `Table: ${schema.tableName}\nColumns: No data available`;
+  }
+
+  return [
+    `Table: ${schema.tableName}`,
+    ...(schema.description ? [`Description: ${schema.description}`] : []),
+    'Columns:',
+    ...schema.columns.map(column => `- ${column.name} (${column.type}): ${describeColumn(column)}`)
+  ].join('\n');
+}
+
 /**
  * Create table name from sheet name
  */
@@ -81,4 +241,22 @@ export function createTableName(sheetName: string): string {
     strict: true, 
     replacement: '_' 
   })}`;
-} 
\ No newline at end of file
+}
+
+/**
+ * Create table name for one of several data regions on a sheet
+ */
+export function createRegionTableName(sheetName: string, region: number): string {
+  return `${createTableName(sheetName)}__r${region}`;
+}
+
+/**
+ * Create table name for an Excel Table (ListObject) or a named range
+ */
+export function createNamedTableName(name: string, kind: 'table' | 'range'): string {
+  return `${kind}_${slugify(name, { 
+    lower: true, 
+    strict: true, 
+    replacement: '_' 
+  })}`;
+}
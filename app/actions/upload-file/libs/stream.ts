@@ -0,0 +1,276 @@
+import * as XLSX from 'xlsx';
+import type { DuckDBConnection } from '@duckdb/node-api';
+import { ColumnType, ColumnUnit } from './types';
+import { sanitizeColumnNames } from './schema';
+import { inferColumnType, coerceValue, coerceRows } from './inference';
+import { detectNumberConvention, normalizeNumber, NumberConvention } from './normalize';
+import { dateCellText, getDateFormatKind, serialToText, DateFormatKind } from './dates';
+import { SheetMatrix, SheetTable } from './layout';
+import { createTable, appendRows } from './duckdb';
+import { ROW_PROGRESS_INTERVAL } from './progress';
+
+// Sheets with more rows than this are streamed instead of read into a matrix whole
+export const STREAMING_ROW_THRESHOLD = 50000;
+
+// Rows read as a matrix to detect the layout of a streamed sheet
+export const LAYOUT_WINDOW_ROWS = 1000;
+
+/**
+ * A large sheet whose last table is streamed: the layout comes from a window over its
+ * first rows, the remaining rows are read straight from the cells
+ */
+export interface StreamedSheet {
+  cells: XLSX.WorkSheet;
+  window: SheetMatrix;
+}
+
+/**
+ * A table created in the database, with what metadata generation needs to know about it
+ */
+export interface LoadedTable {
+  cols: string[];
+  colIndexes: Record<string, number>;
+  colTypes: Record<string, ColumnType>;
+  colUnits: Record<string, ColumnUnit>;
+  colHeaders: Record<string, string>;
+  sample: Record<string, unknown>[];
+  // Ranges covering every streamed row, when they extend beyond the extracted table's
+  range?: string;
+  dataRange?: string;
+  merges?: string[];
+}
+
+interface StreamedColumn {
+  // Absolute sheet column
+  col: number;
+  // Date kind of the column's dominant format, for bare serial numbers
+  dateKind: DateFormatKind | null;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+/**
+ * Whether a worksheet has too many rows to read into memory as a matrix
+ */
+export function isLargeSheet(ws: XLSX.WorkSheet): boolean {
+  const ref = ws['!ref'];
+  if (!ref) return false;
+
+  const { s, e } = XLSX.utils.decode_range(ref);
+  return e.r - s.r + 1 > STREAMING_ROW_THRESHOLD;
+}
+
+/**
+ * The table of a layout window that continues below it, i.e. whose data reaches the
+ * window's last filled row. Null when no single table does, e.g. the window ends in a gap
+ * or two side-by-side tables both run on, and the sheet has to be read whole.
+ */
+export function findContinuingTable(window: SheetMatrix, tables: SheetTable[]): SheetTable | null {
+  let lastFilled = window.matrix.length - 1;
+  while (lastFilled >= 0 && (window.matrix[lastFilled] || []).every(isEmptyValue)) {
+    lastFilled--;
+  }
+  if (lastFilled < 0) return null;
+
+  const continuing = tables.filter(table =>
+    XLSX.utils.decode_range(table.dataRange).e.r === window.origin.r + lastFilled
+  );
+  return continuing.length === 1 ? continuing[0] : null;
+}
+
+/**
+ * Number of data rows a streamed table will have at most: the window's rows plus every
+ * sheet row below the window
+ */
+export function estimateStreamedRows(table: SheetTable, source: StreamedSheet): number {
+  const lastRow = XLSX.utils.decode_range(source.cells['!ref']!).e.r;
+  const windowEnd = source.window.origin.r + source.window.matrix.length - 1;
+  return table.rows.length + Math.max(0, lastRow - windowEnd);
+}
+
+/**
+ * Formatted value of a cell, as readSheetMatrix reads it: dates as canonical text, bare
+ * serial numbers in a date column converted too, everything else as displayed
+ */
+function readCellValue(
+  cell: XLSX.CellObject | undefined,
+  column: StreamedColumn,
+  date1904: boolean
+): unknown {
+  if (!cell || cell.v === undefined || cell.v === null) return null;
+
+  const date = dateCellText(cell, date1904);
+  if (date !== null) return date;
+
+  if (column.dateKind && cell.t === 'n' && typeof cell.v === 'number' && !getDateFormatKind(cell.z as string | undefined)) {
+    const text = serialToText(cell.v, column.dateKind, date1904);
+    if (text !== null) return text;
+  }
+
+  return XLSX.utils.format_cell(cell);
+}
+
+/**
+ * Stream a large sheet's table into a new table: rows are read from the cells one at a
+ * time over a few passes (number normalisation check, type check, append) so memory stays
+ * bounded by the sheet's cells rather than growing with copies of every row.
+ * Conventions and types are inferred from the layout window's rows, like a sample.
+ */
+export async function streamSheetTable(
+  connection: DuckDBConnection,
+  tbl: string,
+  table: SheetTable,
+  source: StreamedSheet,
+  reportRows?: (rows: number) => void
+): Promise<LoadedTable> {
+  const { cells, window } = source;
+
+  const cols = sanitizeColumnNames(table.columns.map(column => column.header));
+  const colIndexes: Record<string, number> = {};
+  const colHeaders: Record<string, string> = {};
+  cols.forEach((c, i) => {
+    colIndexes[c] = i;
+    colHeaders[c] = table.columns[i].header;
+  });
+
+  const range = XLSX.utils.decode_range(table.range);
+  const firstCol = range.s.c - table.columns[0].index;
+  const columns: StreamedColumn[] = table.columns.map(column => ({
+    col: firstCol + column.index,
+    dateKind: getDateFormatKind(column.format)
+  }));
+  const streamStart = window.origin.r + window.matrix.length;
+  const sheetEnd = XLSX.utils.decode_range(cells['!ref']!).e.r;
+  let lastDataRow = XLSX.utils.decode_range(table.dataRange).e.r;
+
+  // Merged label cells reaching below the window are filled down, as in the window's rows
+  const dataStart = XLSX.utils.decode_range(table.dataRange).s;
+  const streamedMerges = (cells['!merges'] || []).filter(merge =>
+    merge.e.r >= streamStart && merge.s.r >= dataStart.r && columns.some(column => column.col === merge.s.c)
+  );
+  const mergedLabels = new Map<string, unknown>();
+  for (const merge of streamedMerges) {
+    const column = columns.find(col => col.col === merge.s.c)!;
+    const value = readCellValue(cells[XLSX.utils.encode_cell(merge.s)], column, window.date1904);
+    if (isEmptyValue(value)) continue;
+    for (let r = Math.max(merge.s.r + 1, streamStart); r <= merge.e.r; r++) {
+      mergedLabels.set(XLSX.utils.encode_cell({ r, c: merge.s.c }), value);
+    }
+  }
+
+  console.log(`🌊 Streaming ${tbl}: layout from the first ${window.matrix.length} rows, reading rows ${streamStart + 1}-${sheetEnd + 1} from the cells`);
+  console.log(`📋 Original columns: ${table.columns.map(c => c.header).join(', ')}`);
+  console.log(`🔧 Sanitized columns: ${cols.join(', ')}`);
+
+  // Every data row: the window's, then the non-blank rows below it
+  function* readRows(): Generator<unknown[]> {
+    yield* table.rows;
+    for (let r = streamStart; r <= sheetEnd; r++) {
+      const values = columns.map(column => {
+        const address = XLSX.utils.encode_cell({ r, c: column.col });
+        const value = readCellValue(cells[address], column, window.date1904);
+        return isEmptyValue(value) && mergedLabels.has(address) ? mergedLabels.get(address) : value;
+      });
+      if (values.every(isEmptyValue)) continue;
+
+      lastDataRow = r;
+      yield values;
+    }
+  }
+
+  // Number conventions from the window, kept only if every row normalises under them
+  const conventions: Record<string, NumberConvention> = {};
+  for (const c of cols) {
+    const convention = detectNumberConvention(table.rows.map(row => row[colIndexes[c]]));
+    if (convention) conventions[c] = convention;
+  }
+  const normalized = new Set(Object.keys(conventions));
+  if (normalized.size) {
+    for (const row of readRows()) {
+      for (const c of normalized) {
+        if (normalizeNumber(row[colIndexes[c]], conventions[c]) === undefined) {
+          delete conventions[c];
+          normalized.delete(c);
+        }
+      }
+      if (!normalized.size) break;
+    }
+  }
+
+  const colUnits: Record<string, ColumnUnit> = {};
+  for (const [c, { decimalSeparator, unit }] of Object.entries(conventions)) {
+    if (unit) colUnits[c] = unit;
+    console.log(`🔢 Normalised ${c}: decimal "${decimalSeparator}"${unit ? `, unit ${unit.kind === 'currency' ? unit.currency : '%'}` : ''}`);
+  }
+
+  function* normalizedRows(): Generator<unknown[]> {
+    for (const row of readRows()) {
+      if (!normalized.size) {
+        yield row;
+        continue;
+      }
+      const values = row.slice();
+      for (const c of normalized) {
+        values[colIndexes[c]] = normalizeNumber(row[colIndexes[c]], conventions[c]);
+      }
+      yield values;
+    }
+  }
+
+  // Infer types from the window, widening to VARCHAR if any row does not fit
+  const sampleRows = table.rows.map(row =>
+    row.map((value, i) => (conventions[cols[i]] ? normalizeNumber(value, conventions[cols[i]]) : value))
+  );
+  const colTypes: Record<string, ColumnType> = {};
+  for (const c of cols) {
+    colTypes[c] = inferColumnType(sampleRows.map(row => row[colIndexes[c]]));
+  }
+  const typed = new Set(cols.filter(c => colTypes[c] !== 'VARCHAR'));
+  if (typed.size) {
+    for (const row of normalizedRows()) {
+      for (const c of typed) {
+        if (coerceValue(row[colIndexes[c]], colTypes[c]) === undefined) {
+          colTypes[c] = 'VARCHAR';
+          typed.delete(c);
+        }
+      }
+      if (!typed.size) break;
+    }
+  }
+  console.log(`🔎 Inferred types: ${cols.map(c => `${c} ${colTypes[c]}`).join(', ')}`);
+
+  await createTable(connection, tbl, cols, colTypes);
+
+  const insertedRows = await appendRows(
+    connection,
+    tbl,
+    coerceRows(normalizedRows(), cols, colIndexes, colTypes),
+    reportRows,
+    ROW_PROGRESS_INTERVAL
+  );
+  console.log(`📥 Streamed ${insertedRows} rows into ${tbl}`);
+
+  const lastCol = range.e.c;
+
+  return {
+    cols,
+    colIndexes,
+    colTypes,
+    colUnits,
+    colHeaders,
+    // Sample rows keyed by column name for schema generation, from the first pass
+    sample: sampleRows.slice(0, 5).map(row =>
+      Object.fromEntries(cols.map(c => [c, row[colIndexes[c]]]))
+    ),
+    range: XLSX.utils.encode_range({ s: range.s, e: { r: lastDataRow, c: lastCol } }),
+    dataRange: XLSX.utils.encode_range({ s: dataStart, e: { r: lastDataRow, c: lastCol } }),
+    merges: [
+      ...table.merges,
+      ...streamedMerges
+        .filter(merge => merge.s.r >= streamStart)
+        .map(merge => XLSX.utils.encode_range(merge))
+    ]
+  };
+}
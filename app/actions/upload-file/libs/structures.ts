@@ -0,0 +1,185 @@
+import * as XLSX from 'xlsx';
+import path from 'node:path';
+import { HiddenVisibility } from './types';
+
+/**
+ * A table defined in the workbook itself rather than detected from the sheet layout
+ */
+export interface DefinedTable {
+  name: string;
+  sheetName: string;
+  ref: string;
+  // Set for Excel Tables, whose header/totals rows and column names are declared
+  layout?: {
+    headerRows: number;
+    totalsRows: number;
+    columns: string[];
+  };
+}
+
+// Unquoted or quoted sheet name followed by a rectangular A1 range, e.g. 'My Sheet'!$A$1:$D$10
+const NAMED_RANGE_PATTERN = /^(?:'((?:[^']|'')+)'|([^'!]+))!\$?([A-Z]{1,3})\$?(\d+):\$?([A-Z]{1,3})\$?(\d+)$/;
+
+const TABLE_RELATIONSHIP = /\/relationships\/table$/;
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(Number(dec)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse the attributes of every `<tag ...>` element in an XML document
+ */
+function readElements(xml: string, tag: string): Record<string, string>[] {
+  const elements: Record<string, string>[] = [];
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b([^>]*)>`, 'g');
+
+  for (const match of xml.matchAll(pattern)) {
+    const attributes: Record<string, string> = {};
+    for (const [, name, value] of match[1].matchAll(/([\w:]+)="([^"]*)"/g)) {
+      attributes[name] = decodeXml(value);
+    }
+    elements.push(attributes);
+  }
+
+  return elements;
+}
+
+/**
+ * Read a part of the workbook package (requires parsing with bookFiles: true)
+ */
+function readPackagePart(wb: XLSX.WorkBook, partPath: string): string | null {
+  const files = (wb as XLSX.WorkBook & { files?: Record<string, { content?: Uint8Array }> }).files;
+  const part = files?.[partPath] || files?.[`/${partPath}`];
+  return part?.content ? Buffer.from(part.content).toString('utf-8') : null;
+}
+
+/**
+ * Read the relationships of a package part as id -> { type, target path }
+ */
+function readRelationships(
+  wb: XLSX.WorkBook,
+  partPath: string
+): Record<string, { type: string; target: string }> {
+  const relsPath = path.posix.join(
+    path.posix.dirname(partPath),
+    '_rels',
+    `${path.posix.basename(partPath)}.rels`
+  );
+  const xml = readPackagePart(wb, relsPath);
+  if (!xml) return {};
+
+  const relationships: Record<string, { type: string; target: string }> = {};
+  for (const rel of readElements(xml, 'Relationship')) {
+    if (!rel.Id || !rel.Target || rel.TargetMode === 'External') continue;
+    const target = rel.Target.startsWith('/')
+      ? rel.Target.slice(1)
+      : path.posix.join(path.posix.dirname(partPath), rel.Target);
+    relationships[rel.Id] = { type: rel.Type || '', target };
+  }
+
+  return relationships;
+}
+
+/**
+ * Read the Excel Tables (ListObjects) of an .xlsx workbook from its table parts.
+ * SheetJS does not expose these, so the sheet -> table relationships are followed by hand.
+ */
+export function readExcelTables(wb: XLSX.WorkBook): DefinedTable[] {
+  const workbookPath = 'xl/workbook.xml';
+  const workbookXml = readPackagePart(wb, workbookPath);
+  if (!workbookXml) return [];
+
+  const workbookRels = readRelationships(wb, workbookPath);
+  const tables: DefinedTable[] = [];
+
+  for (const sheet of readElements(workbookXml, 'sheet')) {
+    const sheetPart = workbookRels[sheet['r:id']]?.target;
+    if (!sheet.name || !sheetPart) continue;
+
+    for (const rel of Object.values(readRelationships(wb, sheetPart))) {
+      if (!TABLE_RELATIONSHIP.test(rel.type)) continue;
+
+      const tableXml = readPackagePart(wb, rel.target);
+      const [table] = tableXml ? readElements(tableXml, 'table') : [];
+      if (!table?.ref) continue;
+
+      tables.push({
+        name: table.displayName || table.name || path.posix.basename(rel.target, '.xml'),
+        sheetName: sheet.name,
+        ref: table.ref,
+        layout: {
+          headerRows: table.headerRowCount === undefined ? 1 : Number(table.headerRowCount),
+          totalsRows: Number(table.totalsRowCount || 0),
+          columns: readElements(tableXml!, 'tableColumn').map(column => column.name || '')
+        }
+      });
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Read the workbook's named ranges that refer to a rectangular block of cells.
+ * Built-in names (print areas, filters), hidden names and single cells or rows are skipped.
+ */
+export function readNamedRanges(wb: XLSX.WorkBook): DefinedTable[] {
+  const ranges: DefinedTable[] = [];
+
+  // SheetJS sets Hidden on names but does not declare it
+  const names = (wb.Workbook?.Names || []) as (XLSX.DefinedName & { Hidden?: boolean })[];
+
+  for (const definedName of names) {
+    if (definedName.Hidden || definedName.Name.startsWith('_xlnm.')) continue;
+
+    const match = definedName.Ref?.trim().match(NAMED_RANGE_PATTERN);
+    if (!match) continue;
+
+    const sheetName = match[1] ? match[1].replace(/''/g, "'") : match[2];
+    const ref = `${match[3]}${match[4]}:${match[5]}${match[6]}`;
+    const { s, e } = XLSX.utils.decode_range(ref);
+    if (!wb.Sheets[sheetName] || e.r <= s.r) continue;
+
+    ranges.push({ name: definedName.Name, sheetName, ref });
+  }
+
+  return ranges;
+}
+
+/**
+ * Hidden and very hidden sheets of the workbook by name; visible sheets are left out
+ */
+export function readHiddenSheets(wb: XLSX.WorkBook): Record<string, HiddenVisibility> {
+  const hidden: Record<string, HiddenVisibility> = {};
+  for (const sheet of wb.Workbook?.Sheets || []) {
+    if (sheet.name && sheet.Hidden) {
+      hidden[sheet.name] = sheet.Hidden === 2 ? 'very_hidden' : 'hidden';
+    }
+  }
+  return hidden;
+}
+
+/**
+ * Whether hidden sheets are left out of the database: imported (and flagged) by default,
+ * excluded with HIDDEN_SHEETS=exclude
+ */
+export function isHiddenSheetExclusionEnabled(): boolean {
+  return process.env.HIDDEN_SHEETS === 'exclude';
+}
+
+/**
+ * Drop the raw package parts kept by bookFiles: true once Excel Tables have been read.
+ * They include every sheet's XML, which for a large sheet is bigger than the file itself.
+ */
+export function releasePackageParts(wb: XLSX.WorkBook): void {
+  const parts = wb as XLSX.WorkBook & { files?: unknown; keys?: unknown };
+  delete parts.files;
+  delete parts.keys;
+}
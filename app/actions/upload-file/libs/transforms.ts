@@ -0,0 +1,463 @@
+import { DuckDBInstance, DuckDBConnection } from '@duckdb/node-api';
+import { SupabaseClient } from '@supabase/supabase-js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import {
+  ColumnType,
+  DuckDBFileRecord,
+  ExcelMetadata,
+  PivotAggregate,
+  PivotTransform,
+  TableProfile,
+  TableSchema,
+  TableTransform,
+  UnpivotTransform
+} from './types';
+import { generateTableSchema, sanitizeColumnNames, TableColumns } from './schema';
+import { CrosstabLayout, detectCrosstab, isNumericType, isPeriodHeader } from './crosstab';
+import { tryProfileDatabase, PROFILE_FILE_NAME } from './profile';
+import { upgradeMetadata } from './metadata';
+import { closeDatabase } from './duckdb';
+import { downloadFileFromStorage, uploadToStorage, cleanupTempFiles } from './storage';
+import { getRevisionPaths } from './append';
+
+const BUCKET_NAME = 'uploads';
+
+export const LONG_TABLE_SUFFIX = '__long';
+export const PIVOT_TABLE_SUFFIX = '__pivot';
+
+export const PIVOT_AGGREGATES: PivotAggregate[] = ['sum', 'avg', 'min', 'max', 'count'];
+
+// A pivot column with more distinct values than this would make an unusably wide table
+const MAX_PIVOT_COLUMNS = 100;
+
+/**
+ * A transform requested from the schema view, by the table's sanitized column names.
+ * Columns identifying each row default to the table's other non-numeric columns.
+ */
+export type TransformRequest =
+  | { kind: 'unpivot'; table: string; valueColumns: string[]; idColumns?: string[] }
+  | {
+    kind: 'pivot';
+    table: string;
+    pivotColumn: string;
+    valueColumn: string;
+    aggregate: PivotAggregate;
+    rowColumns?: string[];
+  };
+
+/**
+ * A table created by a transform, with what schema generation needs to know about it
+ */
+export interface DerivedTable<T extends TableTransform = TableTransform> {
+  transform: T;
+  columns: TableColumns;
+  sample: Record<string, unknown>[];
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * A name not yet used, suffixed _2, _3, ... when taken
+ */
+function uniqueName(name: string, used: Set<string>): string {
+  let unique = name;
+  for (let n = 2; used.has(unique); n++) {
+    unique = `${name}_${n}`;
+  }
+  used.add(unique);
+  return unique;
+}
+
+/**
+ * The value every column has, or undefined when they differ or some have none
+ */
+function sharedValue<T>(values: (T | undefined)[]): T | undefined {
+  const [first] = values;
+  return first !== undefined && values.every(value => JSON.stringify(value) === JSON.stringify(first))
+    ? first
+    : undefined;
+}
+
+async function readSample(connection: DuckDBConnection, table: string): Promise<Record<string, unknown>[]> {
+  const result = await connection.run(`SELECT * FROM ${quoteIdentifier(table)} LIMIT 5`);
+  return result.getRowObjectsJson();
+}
+
+/**
+ * Create the long form of a wide table: one row per source row and wide column, with
+ * the column's header, its position and its value. Rows keep the source row order.
+ */
+export async function createUnpivotTable(
+  connection: DuckDBConnection,
+  source: string,
+  target: string,
+  columns: TableColumns,
+  layout: CrosstabLayout,
+  origin: UnpivotTransform['origin']
+): Promise<DerivedTable<UnpivotTransform>> {
+  const { idColumns, valueColumns } = layout;
+  const headerOf = (column: string) => columns.headers[column] || column;
+
+  // Periods become a period column; any other wide columns an attribute column
+  const label = valueColumns.every(column => isPeriodHeader(headerOf(column))) ? 'period' : 'attribute';
+  const used = new Set(idColumns);
+  const nameColumn = uniqueName(label, used);
+  const indexColumn = uniqueName(`${label}_index`, used);
+  const valueColumn = uniqueName('value', used);
+
+  const valueTypes = valueColumns.map(column => columns.types[column]);
+  const valueType: ColumnType = sharedValue(valueTypes) ?? 'DOUBLE';
+
+  const ids = idColumns.map(quoteIdentifier);
+  const selects = valueColumns.map((column, i) => [
+    'SELECT rowid AS "__row"',
+    ...ids,
+    `${quoteLiteral(headerOf(column))} AS ${quoteIdentifier(nameColumn)}`,
+    `${i + 1} AS ${quoteIdentifier(indexColumn)}`,
+    `CAST(${quoteIdentifier(column)} AS ${valueType}) AS ${quoteIdentifier(valueColumn)}`
+  ].join(', ') + ` FROM ${quoteIdentifier(source)}`);
+
+  await connection.run(`
+    CREATE OR REPLACE TABLE ${quoteIdentifier(target)} AS
+    SELECT * EXCLUDE ("__row") FROM (${selects.join('\nUNION ALL\n')})
+    ORDER BY "__row", ${quoteIdentifier(indexColumn)}
+  `);
+  console.log(`↔️ Unpivoted ${source} into ${target}: ${valueColumns.length} columns into ${nameColumn}/${valueColumn}`);
+
+  const unit = sharedValue(valueColumns.map(column => columns.units?.[column]));
+  const format = sharedValue(valueColumns.map(column => columns.formats?.[column]));
+  const labelHeader = label === 'period' ? 'Period' : 'Attribute';
+
+  return {
+    transform: {
+      kind: 'unpivot',
+      source_table: source,
+      table: target,
+      origin,
+      id_columns: idColumns,
+      value_columns: valueColumns,
+      name_column: nameColumn,
+      index_column: indexColumn,
+      value_column: valueColumn
+    },
+    columns: {
+      names: [...idColumns, nameColumn, indexColumn, valueColumn],
+      types: {
+        ...Object.fromEntries(idColumns.map(column => [column, columns.types[column]])),
+        [nameColumn]: 'VARCHAR',
+        [indexColumn]: 'INTEGER',
+        [valueColumn]: valueType
+      },
+      headers: {
+        ...Object.fromEntries(idColumns.map(column => [column, headerOf(column)])),
+        [nameColumn]: labelHeader,
+        [indexColumn]: `${labelHeader} order`,
+        [valueColumn]: 'Value'
+      },
+      ...(format ? { formats: { [valueColumn]: format } } : {}),
+      ...(unit ? { units: { [valueColumn]: unit } } : {})
+    },
+    sample: await readSample(connection, target)
+  };
+}
+
+/**
+ * Long form of a table laid out as a wide crosstab, created next to it as <table>__long,
+ * or null when the table is not one. The wide table is kept as it was imported.
+ */
+export async function unpivotCrosstab(
+  connection: DuckDBConnection,
+  table: string,
+  columns: TableColumns
+): Promise<DerivedTable<UnpivotTransform> | null> {
+  const layout = detectCrosstab(columns.names.map(name => ({
+    name,
+    type: columns.types[name],
+    header: columns.headers[name] || name
+  })));
+  if (!layout) return null;
+
+  console.log(`📅 ${table} is a crosstab of ${layout.valueColumns.length} periods`);
+  return createUnpivotTable(connection, table, `${table}${LONG_TABLE_SUFFIX}`, columns, layout, 'ingestion');
+}
+
+/**
+ * Create a pivot of a long table: one row per combination of the row columns, one column
+ * per distinct value of the pivot column (in order of first appearance) holding the
+ * aggregate of the value column
+ */
+export async function createPivotTable(
+  connection: DuckDBConnection,
+  source: string,
+  target: string,
+  columns: TableColumns,
+  options: { rowColumns: string[]; pivotColumn: string; valueColumn: string; aggregate: PivotAggregate },
+  origin: PivotTransform['origin']
+): Promise<DerivedTable<PivotTransform>> {
+  const { rowColumns, pivotColumn, valueColumn, aggregate } = options;
+  const pivot = quoteIdentifier(pivotColumn);
+
+  const valuesResult = await connection.run(`
+    SELECT CAST(${pivot} AS VARCHAR)
+    FROM ${quoteIdentifier(source)}
+    WHERE ${pivot} IS NOT NULL
+    GROUP BY 1
+    ORDER BY min(rowid)
+    LIMIT ${MAX_PIVOT_COLUMNS + 1}
+  `);
+  const values = (await valuesResult.getRows()).map(([value]) => String(value));
+  if (!values.length) {
+    throw new Error(`${pivotColumn} has no values to pivot on`);
+  }
+  if (values.length > MAX_PIVOT_COLUMNS) {
+    throw new Error(`${pivotColumn} has more than ${MAX_PIVOT_COLUMNS} distinct values, too many to turn into columns`);
+  }
+
+  const aggregateType: ColumnType = aggregate === 'count' ? 'BIGINT' : 'DOUBLE';
+  const rows = rowColumns.map(quoteIdentifier);
+  await connection.run(`
+    CREATE OR REPLACE TABLE ${quoteIdentifier(target)} AS
+    SELECT * FROM (
+      PIVOT (
+        SELECT ${[...rows, `CAST(${pivot} AS VARCHAR) AS ${pivot}`, quoteIdentifier(valueColumn)].join(', ')}
+        FROM ${quoteIdentifier(source)}
+      )
+      ON ${pivot} IN (${values.map(quoteLiteral).join(', ')})
+      USING CAST(${aggregate}(${quoteIdentifier(valueColumn)}) AS ${aggregateType})
+      ${rows.length ? `GROUP BY ${rows.join(', ')}` : ''}
+    )
+    ${rows.length ? `ORDER BY ${rows.join(', ')}` : ''}
+  `);
+
+  // Pivoted columns are named after the values; give them column names like any other
+  const used = new Set(rowColumns);
+  const valueNames = sanitizeColumnNames(values).map(name => uniqueName(name, used));
+  for (const [i, value] of values.entries()) {
+    if (valueNames[i] !== value) {
+      await connection.run(
+        `ALTER TABLE ${quoteIdentifier(target)} RENAME COLUMN ${quoteIdentifier(value)} TO ${quoteIdentifier(valueNames[i])}`
+      );
+    }
+  }
+  console.log(`↔️ Pivoted ${source} into ${target}: ${values.length} ${pivotColumn} values as columns`);
+
+  const unit = aggregate === 'count' ? undefined : columns.units?.[valueColumn];
+
+  return {
+    transform: {
+      kind: 'pivot',
+      source_table: source,
+      table: target,
+      origin,
+      row_columns: rowColumns,
+      pivot_column: pivotColumn,
+      value_column: valueColumn,
+      aggregate
+    },
+    columns: {
+      names: [...rowColumns, ...valueNames],
+      types: {
+        ...Object.fromEntries(rowColumns.map(column => [column, columns.types[column]])),
+        ...Object.fromEntries(valueNames.map(name => [name, aggregateType]))
+      },
+      headers: {
+        ...Object.fromEntries(rowColumns.map(column => [column, columns.headers[column] || column])),
+        ...Object.fromEntries(valueNames.map((name, i) => [name, values[i]]))
+      },
+      ...(unit ? { units: Object.fromEntries(valueNames.map(name => [name, unit])) } : {})
+    },
+    sample: await readSample(connection, target)
+  };
+}
+
+/**
+ * What a derived table holds, as its schema description
+ */
+export function describeTransform(transform: TableTransform): string {
+  if (transform.kind === 'unpivot') {
+    const ids = transform.id_columns.join(', ');
+    return `Long form of ${transform.source_table}: one row per ${ids} and ${transform.name_column}, `
+      + `with the ${transform.value_columns.length} columns ${transform.value_columns.join(', ')} `
+      + `as rows (${transform.index_column} keeps their order) and their values in ${transform.value_column}`;
+  }
+
+  const rows = transform.row_columns.length ? `one row per ${transform.row_columns.join(', ')}` : 'a single row';
+  return `Pivot of ${transform.source_table}: ${rows}, one column per ${transform.pivot_column} value `
+    + `holding the ${transform.aggregate} of ${transform.value_column}`;
+}
+
+/**
+ * Schema of a derived table, described from its transform when there is no LLM description
+ */
+export async function generateDerivedSchema(
+  derived: DerivedTable,
+  profile?: TableProfile
+): Promise<TableSchema> {
+  const schema = await generateTableSchema(derived.transform.table, derived.sample, derived.columns, profile);
+  return { ...schema, description: schema.description || describeTransform(derived.transform) };
+}
+
+/**
+ * What a stored table's schema says about its columns
+ */
+export function schemaColumns(schema: TableSchema): TableColumns {
+  const columns: TableColumns = { names: [], types: {}, headers: {}, formats: {}, units: {} };
+  for (const column of schema.columns) {
+    columns.names.push(column.name);
+    columns.types[column.name] = column.type as ColumnType;
+    columns.headers[column.name] = column.header;
+    if (column.format) columns.formats![column.name] = column.format;
+    if (column.unit) columns.units![column.name] = column.unit;
+  }
+  return columns;
+}
+
+/**
+ * Apply a requested transform to a processed file: the derived table is added to a copy
+ * of its database, uploaded with its profile.json and metadata.json to a new revision
+ * folder like an append. The file record is switched to it only if no append replaced
+ * the database meanwhile; the previous revision is removed after that.
+ */
+export async function transformStoredTable(
+  supabase: SupabaseClient,
+  fileRecord: DuckDBFileRecord,
+  request: TransformRequest
+): Promise<{ metadata: ExcelMetadata; table: string }> {
+  const tempFiles: string[] = [];
+
+  try {
+    const localMetadataPath = await downloadFileFromStorage(supabase, fileRecord.metadata_path);
+    tempFiles.push(localMetadataPath);
+    const metadata = upgradeMetadata(JSON.parse(await fs.readFile(localMetadataPath, 'utf-8')));
+
+    const schema = metadata.table_schemas[request.table];
+    if (!schema) {
+      throw new Error(`Table not found: ${request.table}`);
+    }
+    const columns = schemaColumns(schema);
+    const otherColumns = (exclude: string[]) => columns.names.filter(
+      name => !exclude.includes(name) && !isNumericType(columns.types[name])
+    );
+
+    const requested = request.kind === 'unpivot'
+      ? [...request.valueColumns, ...(request.idColumns || [])]
+      : [request.pivotColumn, request.valueColumn, ...(request.rowColumns || [])];
+    const unknown = requested.filter(name => !columns.names.includes(name));
+    if (unknown.length) {
+      throw new Error(`Unknown columns in ${request.table}: ${unknown.join(', ')}`);
+    }
+
+    const localDbPath = await downloadFileFromStorage(supabase, fileRecord.duckdb_path);
+    tempFiles.push(localDbPath);
+    const instance = await DuckDBInstance.create(localDbPath);
+    const connection = await instance.connect();
+
+    let derived: DerivedTable;
+    try {
+      const tablesResult = await connection.run('SHOW TABLES');
+      const used = new Set((await tablesResult.getRows()).map(([name]) => String(name)));
+      const suffix = request.kind === 'unpivot' ? LONG_TABLE_SUFFIX : PIVOT_TABLE_SUFFIX;
+      const target = uniqueName(`${request.table}${suffix}`, used);
+
+      if (request.kind === 'unpivot') {
+        if (!request.valueColumns.length) {
+          throw new Error('Choose at least one column to unpivot');
+        }
+        const idColumns = request.idColumns || otherColumns(request.valueColumns);
+        derived = await createUnpivotTable(connection, request.table, target, columns, {
+          idColumns,
+          valueColumns: request.valueColumns
+        }, 'user');
+      } else {
+        const rowColumns = request.rowColumns || otherColumns([request.pivotColumn, request.valueColumn]);
+        derived = await createPivotTable(connection, request.table, target, columns, {
+          rowColumns,
+          pivotColumn: request.pivotColumn,
+          valueColumn: request.valueColumn,
+          aggregate: request.aggregate
+        }, 'user');
+      }
+    } finally {
+      await closeDatabase(instance, connection);
+    }
+
+    const profile = await tryProfileDatabase(localDbPath, metadata.workbook_id, metadata.file_id);
+    const { table } = derived.transform;
+    metadata.table_schemas[table] = await generateDerivedSchema(derived, profile?.tables[table]);
+    metadata.transforms = [...(metadata.transforms || []), derived.transform];
+
+    // Same batch as the current revision, the rows have not changed
+    const revision = getRevisionPaths(
+      fileRecord.duckdb_path,
+      metadata.batches?.at(-1)?.batch ?? 1,
+      crypto.randomUUID()
+    );
+    const revisionFiles = [revision.duckdbPath, revision.metadataPath, revision.profilePath];
+
+    const dbUpload = await uploadToStorage(supabase, localDbPath, revision.duckdbPath);
+    if (!dbUpload.success) {
+      throw new Error(`Failed to upload database: ${dbUpload.error}`);
+    }
+
+    if (profile) {
+      const localProfilePath = path.join(os.tmpdir(), `${metadata.file_id}.${PROFILE_FILE_NAME}`);
+      tempFiles.push(localProfilePath);
+      await fs.writeFile(localProfilePath, JSON.stringify(profile, null, 2));
+      const profileUpload = await uploadToStorage(supabase, localProfilePath, revision.profilePath);
+      if (!profileUpload.success) {
+        console.error(`⚠️ Failed to upload profile: ${profileUpload.error}`);
+      }
+    }
+
+    const newMetadataPath = path.join(os.tmpdir(), `${metadata.file_id}.metadata.json`);
+    tempFiles.push(newMetadataPath);
+    await fs.writeFile(newMetadataPath, JSON.stringify(metadata, null, 2));
+    const metadataUpload = await uploadToStorage(supabase, newMetadataPath, revision.metadataPath);
+    if (!metadataUpload.success) {
+      await supabase.storage.from(BUCKET_NAME).remove(revisionFiles);
+      throw new Error(`Failed to upload metadata: ${metadataUpload.error}`);
+    }
+
+    const { data, error } = await supabase
+      .from('duckdb_files')
+      .update({
+        duckdb_path: revision.duckdbPath,
+        metadata_path: revision.metadataPath,
+        updated_at: new Date().toISOString()
+      })
+      .eq('file_id', fileRecord.file_id)
+      .eq('duckdb_path', fileRecord.duckdb_path)
+      .select('file_id')
+      .maybeSingle();
+
+    if (error || !data) {
+      await supabase.storage.from(BUCKET_NAME).remove(revisionFiles);
+      throw new Error(error
+        ? `Failed to update file record: ${error.message}`
+        : 'The dataset changed while the table was being transformed, please try again');
+    }
+
+    const previousFiles = [
+      fileRecord.duckdb_path,
+      fileRecord.metadata_path,
+      path.posix.join(path.posix.dirname(fileRecord.metadata_path), PROFILE_FILE_NAME)
+    ];
+    const { error: removeError } = await supabase.storage.from(BUCKET_NAME).remove(previousFiles);
+    if (removeError) {
+      console.error('⚠️ Failed to remove the previous database:', removeError);
+    }
+
+    return { metadata, table };
+  } finally {
+    await cleanupTempFiles(...tempFiles);
+  }
+}
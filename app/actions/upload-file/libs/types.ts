@@ -10,40 +10,354 @@ export interface DuckDBFileRecord {
   metadata_path: string;
   sha_hash: string;
   sheets_processed: number;
-  status: 'created' | 'processing' | 'completed' | 'failed';
+  // 'appending' while another file's rows are merged in; the stored database stays queryable
+  status: 'created' | 'queued' | 'processing' | 'appending' | 'completed' | 'completed_with_warnings' | 'failed';
+  // Ingestion stage while processing or appending
+  stage?: IngestionStage | null;
+  // Why the last ingestion or append attempt failed
+  error_message?: string | null;
+  progress?: IngestionProgress | null;
+  // Result of validating the generated database against its metadata
+  validation?: ValidationResult | null;
+  // SHA-256 of the uploaded file's contents
+  content_hash?: string | null;
+  // Versions of the same workbook share a document ID (the first version's file ID)
+  document_id?: string | null;
+  version?: number;
   created_at: string;
   updated_at: string;
 }
 
+// Most levels of nested JSON objects and Parquet structs an upload can flatten into columns
+export const MAX_FLATTEN_DEPTH = 5;
+
+/**
+ * Whether a file's database is ready to query: completed, with or without validation warnings
+ */
+export function isReadyStatus(status: string): boolean {
+  return status === 'completed' || status === 'completed_with_warnings';
+}
+
+/**
+ * Whether a file's stored database can be queried: ready, or ready with rows being
+ * appended, which replaces the database only once the merged one is stored and valid
+ */
+export function isQueryableStatus(status: string): boolean {
+  return isReadyStatus(status) || status === 'appending';
+}
+
+/**
+ * Stages a file moves through while its ingestion job runs
+ */
+export type IngestionStage = 'downloading' | 'parsing' | 'schema' | 'profiling' | 'uploading' | 'verifying';
+
+/**
+ * Snapshot of an ingestion job's progress, stored on the file record for the UI
+ */
+export interface IngestionProgress {
+  stage: IngestionStage;
+  // Sheets parsed so far, out of the workbook's sheets
+  sheets?: { done: number; total: number; current?: string };
+  // Rows inserted per table
+  tables: { name: string; sheet: string; rows: number; total_rows: number }[];
+  // Tables whose schema description has been generated
+  schemas?: { done: number; total: number };
+  // Stage the job was in when it failed
+  failed_stage?: IngestionStage;
+}
+
+/**
+ * What an ingestion job does with its upload: build the file's database from it, or
+ * append its rows to the file's existing dataset
+ */
+export type IngestionMode = 'ingest' | 'append';
+
+export interface IngestionJob {
+  job_id: string;
+  // For an append, the dataset the rows go to
+  file_id: string;
+  storage_path: string;
+  original_name: string;
+  mode: IngestionMode;
+  // SHA-256 of an appended upload, so the same extract is not appended twice
+  content_hash: string | null;
+  // Levels of nested objects to flatten, chosen on upload; null uses JSON_FLATTEN_DEPTH
+  flatten_depth: number | null;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  attempts: number;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+/**
+ * A resumable upload: the file is sent straight to storage in chunks, then completed
+ */
+export interface UploadSession {
+  session_id: string;
+  user_id: string;
+  file_id: string;
+  file_name: string;
+  storage_path: string;
+  file_size: number;
+  content_type: string | null;
+  version_of: string | null;
+  append_to: string | null;
+  flatten_depth: number | null;
+  status: 'uploading' | 'completed' | 'failed';
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
 export interface ProcessedExcelResult {
   sha: string;
   dbFile: string;
   metadata: ExcelMetadata;
+  // Null when profiling failed; the file is still usable without one
+  profile: WorkbookProfile | null;
   sheetsProcessed: number;
   tableColumnMappings: Record<string, string[]>;
+  tableColumnTypes: Record<string, Record<string, ColumnType>>;
+  tableColumnUnits: Record<string, Record<string, ColumnUnit>>;
 }
 
+/**
+ * Contents of a workbook's metadata.json. Files written before `version` existed are
+ * upgraded when read (see upgradeMetadata).
+ */
 export interface ExcelMetadata {
+  // Format version, METADATA_VERSION for files written now
+  version: number;
   workbook_id: string;
   file_id: string;
+  // Where each table came from, with its cell ranges
   sheets: SheetInfo[];
-  table_schemas: Record<string, string>;
+  table_schemas: Record<string, TableSchema>;
+  formulas?: FormulaSummary;
+  annotations?: AnnotationSummary;
+  // Hidden sheets left out of the database (HIDDEN_SHEETS=exclude)
+  excluded_sheets?: { name: string; visibility: HiddenVisibility }[];
+  // Keys and joins between the tables, when they could be detected
+  relationships?: TableRelationships;
+  // Tables derived from others by unpivoting or pivoting them
+  transforms?: TableTransform[];
+  // Uploads whose rows make up the tables, once a file has been appended to the dataset
+  batches?: DatasetBatch[];
+}
+
+/**
+ * One upload of a dataset: the first file, or one appended to it. Its rows carry its
+ * number in the _batch column and its file name in _source.
+ */
+export interface DatasetBatch {
+  batch: number;
+  source_file: string;
+  appended_at: string;
+  tables: TableDrift[];
+  // Tables of the dataset the upload had no data for
+  missing_tables: string[];
+}
+
+/**
+ * How a table of an appended upload compared with the table its rows went to
+ */
+export interface TableDrift {
+  table: string;
+  // Sheet or table name in the appended file
+  source: string;
+  // Share of columns the two tables have in common, from 0 to 1
+  match: number;
+  // Set when no table matched, so the rows became a new table
+  new_table?: boolean;
+  rows: number;
+  // Columns only the upload has, added to the table with NULL for earlier batches
+  added_columns: string[];
+  // Columns the upload lacks, NULL in its rows
+  removed_columns: string[];
+  // Columns whose header changed at the same position, appended to the existing column
+  renamed_columns: { from: string; to: string }[];
+  // Columns widened to hold both uploads' values
+  retyped_columns: { column: string; from: string; to: string }[];
+}
+
+/**
+ * A table derived from another: the long form of a wide crosstab, or a pivot of a long
+ * table. Created during ingestion for detected crosstabs, or on request from the schema view.
+ */
+export type TableTransform = UnpivotTransform | PivotTransform;
+
+export type PivotAggregate = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+export interface UnpivotTransform {
+  kind: 'unpivot';
+  source_table: string;
+  table: string;
+  origin: 'ingestion' | 'user';
+  // Columns repeated on every row of the long table
+  id_columns: string[];
+  // Wide columns turned into rows, in sheet order
+  value_columns: string[];
+  // Long table columns holding each wide column's header, its position and its value
+  name_column: string;
+  index_column: string;
+  value_column: string;
+}
+
+export interface PivotTransform {
+  kind: 'pivot';
+  source_table: string;
+  table: string;
+  origin: 'ingestion' | 'user';
+  // Columns identifying each row of the pivot table
+  row_columns: string[];
+  // Column whose values become columns, aggregated from value_column
+  pivot_column: string;
+  value_column: string;
+  aggregate: PivotAggregate;
+}
+
+/**
+ * Candidate keys and foreign-key relationships between a workbook's tables, detected
+ * from column names and values after profiling
+ */
+export interface TableRelationships {
+  // Columns of each table that are unique and never empty, most key-like first
+  primary_keys: Record<string, string[]>;
+  foreign_keys: ForeignKey[];
+}
+
+export interface ForeignKey {
+  table: string;
+  column: string;
+  references_table: string;
+  references_column: string;
+  // Share of the column's distinct values found in the referenced key
+  containment: number;
+  // How closely the column's name matches the referenced key and table, 0 to 1
+  name_similarity: number;
+}
+
+/**
+ * Data profile of a workbook's tables, computed after ingestion and stored as profile.json
+ * next to metadata.json
+ */
+export interface WorkbookProfile {
+  workbook_id: string;
+  file_id: string;
+  tables: Record<string, TableProfile>;
+}
+
+export interface TableProfile {
+  row_count: number;
+  columns: Record<string, ColumnProfile>;
+}
+
+export interface ColumnProfile {
+  // DuckDB column type
+  type: string;
+  // Share of rows that are NULL or blank text
+  null_ratio: number;
+  distinct_count: number;
+  // Numeric columns as numbers, date and time columns as ISO text
+  min?: number | string | null;
+  max?: number | string | null;
+  mean?: number | null;
+  percentiles?: { p25: number | null; p50: number | null; p75: number | null };
+  // Most frequent values of text and boolean columns
+  top_values?: { value: string; count: number }[];
+  // Every distinct value fits in top_values, so they are the column's allowed values
+  categorical?: boolean;
+}
+
+/**
+ * Unit detected on a numeric column. Percentages are stored as fractions (12% -> 0.12).
+ */
+export type ColumnUnit =
+  | { kind: 'currency'; currency: string }
+  | { kind: 'percent' };
+
+/**
+ * Companion table listing the workbook's formula cells, when it has any
+ */
+export interface FormulaSummary {
+  table: string;
+  count: number;
 }
 
+/**
+ * Companion table listing the workbook's cell comments and hyperlinks, when it has any
+ */
+export interface AnnotationSummary {
+  table: string;
+  comments: number;
+  hyperlinks: number;
+}
+
+/**
+ * How a sheet is hidden in Excel: hidden sheets can be unhidden from the UI, very hidden
+ * ones only from VBA
+ */
+export type HiddenVisibility = 'hidden' | 'very_hidden';
+
+/**
+ * DuckDB column type produced by type inference
+ */
+export type ColumnType =
+  | 'BOOLEAN'
+  | 'INTEGER'
+  | 'BIGINT'
+  | 'DOUBLE'
+  | 'DATE'
+  | 'TIMESTAMP'
+  | 'TIME'
+  | 'VARCHAR'
+  | `DECIMAL(${number},${number})`;
+
+/**
+ * Where a table's data came from: a detected sheet region, an Excel Table (ListObject)
+ * or a workbook named range
+ */
+export type TableSource = 'sheet' | 'excel_table' | 'named_range';
+
 export interface SheetInfo {
   table: string;
   original_name: string;
+  source?: TableSource;
+  name?: string;
+  region?: number;
+  range?: string;
+  header_range?: string;
+  data_range?: string;
+  // Set when the table comes from a hidden sheet
+  visibility?: HiddenVisibility;
+  // Merged cell ranges within the table; merged labels in data rows are filled down
+  merged_ranges?: string[];
 }
 
+/**
+ * Structured schema of a table, always built locally from its columns, sample rows and
+ * profile. Descriptions are only set when the optional LLM enrichment ran.
+ */
 export interface TableSchema {
   tableName: string;
+  description?: string;
   columns: ColumnInfo[];
 }
 
 export interface ColumnInfo {
   name: string;
   type: string;
-  description: string;
+  // Original spreadsheet header
+  header: string;
+  // Original Excel number format, where not General
+  format?: string;
+  unit?: ColumnUnit;
+  // A few distinct values from the sample rows
+  samples: string[];
+  profile?: ColumnProfile;
+  description?: string;
 }
 
 export interface StorageUploadResult {
@@ -55,4 +369,39 @@ export interface StorageUploadResult {
 export interface FileStatusUpdate {
   status: string;
   metadata?: Record<string, unknown>;
-} 
\ No newline at end of file
+}
+
+export interface ValidationSchema {
+  expectedTables: string[];
+  expectedColumns: Record<string, string[]>; // tableName -> columnNames
+  expectedDataTypes: Record<string, Record<string, string>>; // tableName -> columnName -> dataType
+}
+
+export interface ValidationResult {
+  success: boolean;
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+  summary: {
+    tablesValidated: number;
+    columnsValidated: number;
+    dataTypesValidated: number;
+  };
+}
+
+export interface ValidationError {
+  type: 'missing_table' | 'missing_column' | 'wrong_data_type' | 'database_error';
+  table?: string;
+  column?: string;
+  expected?: string;
+  actual?: string;
+  message: string;
+}
+
+export interface ValidationWarning {
+  type: 'extra_table' | 'extra_column' | 'unexpected_data_type' | 'empty_table';
+  table?: string;
+  column?: string;
+  expected?: string;
+  actual?: string;
+  message: string;
+}
@@ -1,52 +1,20 @@
 import { DuckDBInstance } from '@duckdb/node-api';
-import { createClient } from '@/utils/supabase/server';
-import { downloadFileFromStorage } from './storage';
+import { ExcelMetadata, ValidationSchema, ValidationResult } from './types';
 
-export interface ValidationSchema {
-  expectedTables: string[];
-  expectedColumns: Record<string, string[]>; // tableName -> columnNames
-  expectedDataTypes: Record<string, Record<string, string>>; // tableName -> columnName -> dataType
-}
-
-export interface ValidationResult {
-  success: boolean;
-  errors: ValidationError[];
-  warnings: ValidationWarning[];
-  summary: {
-    tablesValidated: number;
-    columnsValidated: number;
-    dataTypesValidated: number;
-  };
-}
-
-export interface ValidationError {
-  type: 'missing_table' | 'missing_column' | 'wrong_data_type' | 'database_error';
-  table?: string;
-  column?: string;
-  expected?: string;
-  actual?: string;
-  message: string;
-}
-
-export interface ValidationWarning {
-  type: 'extra_table' | 'extra_column' | 'unexpected_data_type';
-  table?: string;
-  column?: string;
-  expected?: string;
-  actual?: string;
-  message: string;
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
 }
 
 /**
- * Load DuckDB database from storage into memory and validate schema
+ * Open a DuckDB database file and validate its tables, columns and data types against
+ * the expected schema. Missing tables/columns and wrong types are errors; extra and
+ * empty tables and extra columns are warnings.
  */
 export async function validateDatabase(
-  tenantId: string,
-  workbookId: string,
+  dbPath: string,
   expectedSchema: ValidationSchema
 ): Promise<ValidationResult> {
-  console.log('🔍 Starting database validation...');
-  console.log('Expected schema:', JSON.stringify(expectedSchema, null, 2));
+  console.log(`🔍 Starting database validation of ${dbPath}...`);
   
   const result: ValidationResult = {
     success: true,
@@ -59,29 +27,18 @@ export async function validateDatabase(
     }
   };
 
-  try {
-    // Download database from storage
-    const supabase = await createClient();
-    const storagePath = `${tenantId}/duckdb/${workbookId}/${workbookId}.duckdb`;
-    console.log(`Downloading database for validation from: ${storagePath}`);
-    
-    const localDbPath = await downloadFileFromStorage(supabase, storagePath);
-    console.log(`Database downloaded to: ${localDbPath}`);
+  let instance: DuckDBInstance | null = null;
 
-    // Load database into memory
-    const instance = await DuckDBInstance.create(':memory:');
+  try {
+    instance = await DuckDBInstance.create(dbPath, { access_mode: 'READ_ONLY' });
     const connection = await instance.connect();
 
-    // Attach the downloaded database
-    await connection.run(`ATTACH '${localDbPath}' AS source_db`);
-    console.log('Database attached to memory instance');
-
     // Get actual tables from database
     const tablesResult = await connection.run(`
-      SELECT name 
-      FROM source_db.sqlite_master 
-      WHERE type='table' 
-      ORDER BY name
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_schema = 'main' 
+      ORDER BY table_name
     `);
     const actualTables = await tablesResult.getRows();
     const actualTableNames = actualTables.map(row => row[0] as string);
@@ -102,6 +59,17 @@ export async function validateDatabase(
       } else {
         console.log(`✅ TABLE FOUND: '${expectedTable}' exists in database`);
         result.summary.tablesValidated++;
+
+        const countResult = await connection.run(`SELECT COUNT(*) FROM "${expectedTable}"`);
+        const rowCount = Number((await countResult.getRows())[0][0]);
+        if (rowCount === 0) {
+          console.log(`⚠️  EMPTY TABLE: '${expectedTable}' has no rows`);
+          result.warnings.push({
+            type: 'empty_table',
+            table: expectedTable,
+            message: `Table '${expectedTable}' has no rows`
+          });
+        }
       }
     }
 
@@ -126,8 +94,8 @@ export async function validateDatabase(
       // Get actual columns and their data types
       const columnsResult = await connection.run(`
         SELECT column_name, data_type 
-        FROM source_db.information_schema.columns 
-        WHERE table_name = '${tableName}'
+        FROM information_schema.columns 
+        WHERE table_schema = 'main' AND table_name = ${quoteLiteral(tableName)}
         ORDER BY ordinal_position
       `);
       const actualColumns = await columnsResult.getRows();
@@ -197,7 +165,7 @@ export async function validateDatabase(
       }
     }
 
-    // Clean up - DuckDB automatically manages connections
+    connection.closeSync();
     console.log(`Validation completed: ${result.summary.tablesValidated} tables, ${result.summary.columnsValidated} columns, ${result.summary.dataTypesValidated} data types validated`);
     console.log(`Errors: ${result.errors.length}, Warnings: ${result.warnings.length}`);
     
@@ -220,66 +188,47 @@ export async function validateDatabase(
       message: `Failed to validate database: ${error instanceof Error ? error.message : 'Unknown error'}`
     });
     result.success = false;
+  } finally {
+    instance?.closeSync();
   }
 
   return result;
 }
 
 /**
- * Create validation schema from Excel metadata
+ * Create validation schema from Excel metadata: every table of its schemas, with their
+ * column names and types
  */
-export function createValidationSchemaFromMetadata(
-  tableSchemas: Record<string, string>,
-  expectedColumns: Record<string, string[]>
-): ValidationSchema {
+export function createValidationSchemaFromMetadata(metadata: ExcelMetadata): ValidationSchema {
   console.log('📋 Creating validation schema from metadata...');
-  console.log('Table schemas:', Object.keys(tableSchemas));
-  console.log('Expected columns:', expectedColumns);
   
-  const expectedTables = Object.keys(tableSchemas);
+  const expectedTables = Object.keys(metadata.table_schemas);
+  const expectedColumns: Record<string, string[]> = {};
   const expectedDataTypes: Record<string, Record<string, string>> = {};
 
-  // Parse table schemas to extract expected data types
-  for (const [tableName, schema] of Object.entries(tableSchemas)) {
-    console.log(`Parsing schema for table '${tableName}':`);
-    console.log(schema);
-    
-    expectedDataTypes[tableName] = {};
-    
-    // Extract column names and types from schema description
-    const lines = schema.split('\n');
-    for (const line of lines) {
-      if (line.includes(':')) {
-        const match = line.match(/- (\w+) \(([^)]+)\):/);
-        if (match) {
-          const [, columnName, dataType] = match;
-          expectedDataTypes[tableName][columnName] = dataType.toUpperCase();
-          console.log(`  Extracted: ${columnName} -> ${dataType.toUpperCase()}`);
-        }
-      }
-    }
+  for (const [tableName, schema] of Object.entries(metadata.table_schemas)) {
+    expectedColumns[tableName] = schema.columns.map(column => column.name);
+    expectedDataTypes[tableName] = Object.fromEntries(
+      schema.columns.map(column => [column.name, column.type.toUpperCase()])
+    );
   }
 
-  const validationSchema = {
+  console.log(`📋 Expecting ${expectedTables.length} tables: ${expectedTables.join(', ')}`);
+  
+  return {
     expectedTables,
     expectedColumns,
     expectedDataTypes
   };
-  
-  console.log('📋 Created validation schema:', JSON.stringify(validationSchema, null, 2));
-  
-  return validationSchema;
 }
 
 /**
- * Validate database using metadata from processing
+ * Validate a database file against the metadata generated while processing it
  */
 export async function validateDatabaseWithMetadata(
-  tenantId: string,
-  workbookId: string,
-  tableSchemas: Record<string, string>,
-  expectedColumns: Record<string, string[]>
+  dbPath: string,
+  metadata: ExcelMetadata
 ): Promise<ValidationResult> {
-  const validationSchema = createValidationSchemaFromMetadata(tableSchemas, expectedColumns);
-  return validateDatabase(tenantId, workbookId, validationSchema);
-} 
\ No newline at end of file
+  const validationSchema = createValidationSchemaFromMetadata(metadata);
+  return validateDatabase(dbPath, validationSchema);
+}
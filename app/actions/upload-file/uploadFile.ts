@@ -1,38 +1,70 @@
 'use server';
 
+import { after } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'node:path';
 import crypto from 'node:crypto';
-import os from 'node:os';
 import { 
-  processExcelFile,
-  uploadToStorage,
-  downloadFileFromStorage,
-  cleanupTempFiles
+  getFileRecord,
+  findFileByContentHash,
+  hasAppendedContent,
+  getDocumentVersions,
+  getUploadSizeLimit,
+  getUploadSession,
+  enqueueIngestionJob,
+  runIngestionJob,
+  isZipArchive,
+  extractSpreadsheets,
+  createWorkbookId,
+  isReadyStatus,
+  MAX_FLATTEN_DEPTH,
+  SPREADSHEET_EXTENSIONS
 } from '@/app/actions/upload-file/libs';
-import { DuckDBInstance } from '@duckdb/node-api';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DuckDBFileRecord, IngestionJob } from '@/app/actions/upload-file/libs';
 
 const BUCKET_NAME = 'uploads';
 
-interface UploadResult {
+// Supabase's resumable (TUS) endpoint requires 6MB chunks
+const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+
+export interface UploadResult {
   success: boolean;
   fileId?: string;
   fileName?: string;
   message?: string;
   error?: string;
-  processingResult?: {
-    workbookId: string;
-    sheetsProcessed: number;
-    tables: {
-      name: string;
-      rowCount: number;
-      columns: string[];
-    }[];
-  };
+  // Set when the contents were already uploaded; fileId then points at the existing file
+  duplicate?: boolean;
+  version?: number;
+  // Processing continues in the background; watch the file record's status
+  status?: DuckDBFileRecord['status'];
+  // One result per spreadsheet when a zip archive was expanded
+  files?: UploadResult[];
 }
 
+export interface ResumableUploadSession {
+  success: boolean;
+  error?: string;
+  sessionId?: string;
+  bucket?: string;
+  // Object the browser uploads the chunks to
+  storagePath?: string;
+  chunkSize?: number;
+}
+
+type UploadedFile = {
+  name: string;
+  type: string;
+  // Levels of nested JSON objects to flatten, null for the default
+  flattenDepth?: number | null;
+} & (
+  | { data: Buffer; fileId?: undefined; storagePath?: undefined; contentHash?: undefined }
+  // A file already in storage, from a resumable upload, hashed while streaming it
+  | { data?: undefined; fileId: string; storagePath: string; contentHash: string }
+);
+
 /**
  * Sanitize filename for storage
  */
@@ -55,120 +87,488 @@ function generateUniqueFileName(originalName: string): string {
 }
 
 /**
- * Simple verification - download database and try to query it
+ * SHA-256 of a file's contents, used to detect re-uploads of the same file
  */
-async function verifyDatabase(
+function getContentHash(file: UploadedFile): string {
+  return file.data
+    ? crypto.createHash('sha256').update(file.data).digest('hex')
+    : file.contentHash;
+}
+
+/**
+ * Size and content hash of a file a resumable upload stored, streamed from storage so
+ * the file is never held in memory
+ */
+async function hashStoredUpload(
   supabase: SupabaseClient,
-  sha: string,
-  expectedSheets: number
-): Promise<{
-  success: boolean;
-  tables: {
-    name: string;
-    rowCount: number;
-    columns: string[];
-  }[];
-  error?: string;
-}> {
-  let localDbPath: string | null = null;
+  storagePath: string
+): Promise<{ size: number; contentHash: string }> {
+  const { data: signed, error } = await supabase.storage
+    .from(BUCKET_NAME)
+    .createSignedUrl(storagePath, 60);
+
+  if (error || !signed) {
+    throw new Error(error?.message || 'file not found');
+  }
+
+  const response = await fetch(signed.signedUrl);
+  if (!response.ok || !response.body) {
+    throw new Error(`download failed with status ${response.status}`);
+  }
+
+  const hash = crypto.createHash('sha256');
+  const reader = response.body.getReader();
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hash.update(value);
+    size += value.length;
+  }
+
+  return { size, contentHash: hash.digest('hex') };
+}
+
+/**
+ * Read a zip archive a resumable upload stored; its entries can only be extracted from
+ * the whole file
+ */
+async function downloadStoredUpload(supabase: SupabaseClient, storagePath: string): Promise<Buffer> {
+  const { data: blob, error } = await supabase.storage.from(BUCKET_NAME).download(storagePath);
+  if (error || !blob) {
+    throw new Error('Could not read zip archive: ' + (error?.message || 'file not found'));
+  }
+  return Buffer.from(await blob.arrayBuffer());
+}
+
+/**
+ * Check an upload's type before anything is stored; returns the error to report, if any
+ */
+function validateUploadType(
+  fileName: string,
+  type: string,
+  versionOf: string | null,
+  appendTo: string | null
+): string | null {
+  // Browsers report CSV/TSV, Parquet and JSON MIME types inconsistently, so the extension is accepted too;
+  // the actual format is sniffed from the contents later.
+  // Zip archives of spreadsheets are expanded into one file per spreadsheet.
+  const allowedTypes = [
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-excel.sheet.binary.macroEnabled.12',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'text/csv',
+    'application/csv',
+    'text/tab-separated-values',
+    'application/vnd.apache.parquet',
+    'application/json',
+    'application/x-ndjson'
+  ];
+  const extension = path.extname(fileName).toLowerCase();
+  const isArchive = isZipArchive(fileName);
+
+  if (!isArchive && !allowedTypes.includes(type) && !SPREADSHEET_EXTENSIONS.includes(extension)) {
+    return 'Invalid file type. Only Excel, OpenDocument, CSV/TSV, Parquet, JSON and zip files are allowed.';
+  }
+
+  if (isArchive && versionOf) {
+    return 'A new version must be a single spreadsheet, not a zip archive';
+  }
+
+  if (isArchive && appendTo) {
+    return 'Files are appended to a dataset one at a time, not as a zip archive';
+  }
+
+  if (versionOf && appendTo) {
+    return 'A file is either a new version or appended to a dataset, not both';
+  }
+
+  return null;
+}
+
+/**
+ * Check the flatten depth chosen for an upload; returns the error to report, if any
+ */
+function validateFlattenDepth(flattenDepth: number | null): string | null {
+  if (flattenDepth === null) return null;
+  if (!Number.isInteger(flattenDepth) || flattenDepth < 0 || flattenDepth > MAX_FLATTEN_DEPTH) {
+    return `The JSON flatten depth must be a whole number from 0 to ${MAX_FLATTEN_DEPTH}`;
+  }
+  return null;
+}
+
+function formatLimit(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))}MB`;
+}
+
+/**
+ * Resolve the document a new version belongs to and the version number it gets.
+ * Returns the latest existing version too, so identical re-uploads can be detected.
+ */
+async function resolveNextVersion(
+  supabase: SupabaseClient,
+  versionOf: string
+): Promise<{ documentId: string; version: number; latest: DuckDBFileRecord }> {
+  const parent = await getFileRecord(supabase, versionOf);
+  if (!parent) {
+    throw new Error('The file to add a version to was not found');
+  }
+
+  // Files uploaded before versioning are their own document
+  const documentId = parent.document_id || parent.file_id;
+  const versions = await getDocumentVersions(supabase, documentId);
+  const latest = versions[0] || parent;
+
+  return {
+    documentId,
+    version: (latest.version || 1) + 1,
+    latest
+  };
+}
+
+/**
+ * Remove a file a resumable upload stored, once it turns out not to be needed
+ */
+async function removeStoredUpload(supabase: SupabaseClient, file: UploadedFile): Promise<void> {
+  if (!file.storagePath) return;
+
+  const { error } = await supabase.storage.from(BUCKET_NAME).remove([file.storagePath]);
+  if (error) {
+    console.error('Failed to remove stored upload:', error);
+  }
+}
+
+/**
+ * Store one uploaded spreadsheet: skip exact duplicates, resolve its version, upload it
+ * to storage, create its duckdb_files record and queue its ingestion job
+ */
+async function storeUploadedFile(
+  supabase: SupabaseClient,
+  file: UploadedFile,
+  versionOf: string | null,
+  jobs: IngestionJob[]
+): Promise<UploadResult> {
+  const contentHash = getContentHash(file);
+
+  let documentId: string | null = null;
+  let version = 1;
+
+  if (versionOf) {
+    const next = await resolveNextVersion(supabase, versionOf);
+
+    if (next.latest.content_hash === contentHash) {
+      await removeStoredUpload(supabase, file);
+      return {
+        success: true,
+        duplicate: true,
+        fileId: next.latest.file_id,
+        fileName: next.latest.original_name,
+        version: next.latest.version || 1,
+        message: 'This file is identical to the latest version, no new version was created'
+      };
+    }
+
+    documentId = next.documentId;
+    version = next.version;
+  } else {
+    const existing = await findFileByContentHash(supabase, contentHash);
+
+    if (existing) {
+      console.log(`♻️ Duplicate upload of ${existing.original_name} (${existing.file_id})`);
+      await removeStoredUpload(supabase, file);
+      return {
+        success: true,
+        duplicate: true,
+        fileId: existing.file_id,
+        fileName: existing.original_name,
+        version: existing.version || 1,
+        message: `This file was already uploaded as ${existing.original_name}`
+      };
+    }
+  }
+
+  // Generate unique file ID and filename, unless a resumable upload already stored the file
+  const fileId = file.fileId || uuidv4();
+  const uniqueFileName = file.storagePath
+    ? path.posix.basename(file.storagePath)
+    : generateUniqueFileName(file.name);
   
+  // Store in the new structure: duckdb/{sha}/original_file.xlsx
+  const sha = createWorkbookId(fileId);
+  const storagePath = file.storagePath || `duckdb/${sha}/${uniqueFileName}`;
+
   try {
-    console.log('🔍 Starting database verification...');
-    
-    // Download the database from storage
-    const dbStoragePath = `duckdb/${sha}/${sha}.duckdb`;
-    localDbPath = await downloadFileFromStorage(supabase, dbStoragePath);
-    console.log(`Database downloaded to: ${localDbPath}`);
-
-    // Check file size
-    const fs = await import('fs/promises');
-    const downloadedStats = await fs.stat(localDbPath);
-    console.log(`Downloaded file size: ${downloadedStats.size} bytes`);
-    
-    if (downloadedStats.size === 0) {
-      throw new Error('Downloaded file is empty (0 bytes)');
+    // Upload file to Supabase storage
+    const { error: uploadError } = file.data
+      ? await supabase.storage
+        .from(BUCKET_NAME)
+        .upload(storagePath, file.data, { 
+          upsert: false,
+          contentType: file.type || 'application/octet-stream'
+        })
+      : { error: null };
+
+    if (uploadError) {
+      console.error('Upload error:', uploadError);
+      return {
+        success: false,
+        fileName: file.name,
+        error: 'Failed to upload file to storage: ' + uploadError.message
+      };
+    }
+
+    // Create duckdb_files record with initial status
+    const duckdbRecord = {
+      file_id: fileId,
+      file_name: uniqueFileName,
+      original_name: file.name,
+      duckdb_path: `duckdb/${sha}/${sha}.duckdb`,
+      metadata_path: `duckdb/${sha}/metadata.json`,
+      sha_hash: sha,
+      content_hash: contentHash,
+      // A new document is identified by its first version's file ID
+      document_id: documentId || fileId,
+      version,
+      sheets_processed: 0,
+      status: 'created',
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+
+    const { error: duckdbInsertError } = await supabase
+      .from('duckdb_files')
+      .insert(duckdbRecord)
+      .select('*')
+      .single();
+
+    if (duckdbInsertError) {
+      console.error('DuckDB record insert error:', duckdbInsertError);
+      // Clean up uploaded file if duckdb_files insert fails
+      await supabase.storage.from(BUCKET_NAME).remove([storagePath]);
+      
+      return {
+        success: false,
+        fileName: file.name,
+        error: 'Failed to create DuckDB file record: ' + duckdbInsertError.message
+      };
     }
+
+    jobs.push(await enqueueIngestionJob(supabase, fileId, storagePath, file.name, {
+      flattenDepth: file.flattenDepth
+    }));
+
+    return {
+      success: true,
+      fileId: fileId,
+      fileName: file.name,
+      version,
+      status: 'queued',
+      message: version > 1
+        ? `Version ${version} uploaded, processing has started`
+        : 'File uploaded, processing has started'
+    };
+
+  } catch (error) {
+    console.error('Upload/Queueing error:', error);
     
-    // Create DuckDB instance and connect
-    const instance = await DuckDBInstance.create(localDbPath);
-    const connection = await instance.connect();
-    console.log('Database connection established');
-
-    // Get table list
-    const tablesResult = await connection.run("SHOW TABLES");
-    const tables = await tablesResult.getRows();
-    const tableNames = tables.map((row: unknown[]) => row[0] as string);
-    console.log(`Tables found: ${tableNames.length}, Expected: ${expectedSheets}`);
-
-    // Get table information
-    const tableInfo = [];
+    // Update status to failed if we have a file record
+    try {
+      await supabase
+        .from('duckdb_files')
+        .update({
+          status: 'failed',
+          error_message: error instanceof Error ? error.message : 'Unknown error',
+          updated_at: new Date().toISOString()
+        })
+        .eq('file_id', fileId);
+    } catch (updateError) {
+      console.error('Failed to update status to failed:', updateError);
+    }
     
-    for (const tableName of tableNames) {
-      try {
-        // Count rows
-        const countResult = await connection.run(`SELECT COUNT(*) FROM ${tableName}`);
-        const countData = await countResult.getRows();
-        const rowCount = Number(countData[0][0]);
-        
-        // Get column information
-        const columnsResult = await connection.run(`DESCRIBE ${tableName}`);
-        const columnsData = await columnsResult.getRows();
-        const columns = columnsData.map((row: unknown[]) => row[0] as string);
-        
-        console.log(`Table ${tableName}: ${rowCount} rows`);
-        
-        tableInfo.push({
-          name: tableName,
-          rowCount,
-          columns
-        });
-        
-      } catch (tableError) {
-        console.error(`Error querying table ${tableName}:`, tableError);
-      }
+    // Clean up any uploaded file on error
+    try {
+      await supabase.storage.from(BUCKET_NAME).remove([storagePath]);
+    } catch (cleanupError) {
+      console.error('Failed to clean up file:', cleanupError);
     }
 
-    // Close connection
-    try {
-      if (connection && typeof connection.disconnectSync === 'function') {
-        connection.disconnectSync();
-      } else if (connection && typeof connection.closeSync === 'function') {
-        connection.closeSync();
+    return {
+      success: false,
+      fileName: file.name,
+      error: 'Failed to queue upload: ' + (error instanceof Error ? error.message : 'Unknown error')
+    };
+  }
+}
+
+/**
+ * Run the queued ingestion jobs one after another once the response is sent; the worker
+ * picks them up instead if this run is cut short
+ */
+function startIngestion(supabase: SupabaseClient, jobs: IngestionJob[]): void {
+  if (!jobs.length) return;
+
+  after(async () => {
+    for (const job of jobs) {
+      try {
+        await runIngestionJob(supabase, job);
+      } catch (error) {
+        console.error('Background ingestion error:', error);
       }
-    } catch (closeError) {
-      console.error('Error closing connection:', closeError);
     }
+  });
+}
 
-    console.log(`Verification complete: ${tableInfo.length} tables`);
+/**
+ * Store a file to be appended to an existing dataset, in the dataset's folder, and queue
+ * its append job. The dataset stays queryable while the job merges the rows in.
+ */
+async function storeAppendUpload(
+  supabase: SupabaseClient,
+  file: UploadedFile,
+  appendTo: string
+): Promise<UploadResult> {
+  const dataset = await getFileRecord(supabase, appendTo);
+  if (!dataset || !isReadyStatus(dataset.status)) {
+    await removeStoredUpload(supabase, file);
+    return {
+      success: false,
+      fileName: file.name,
+      error: !dataset
+        ? 'The dataset to append to was not found'
+        : dataset.status === 'appending'
+          ? 'Another file is still being appended to this dataset'
+          : 'The dataset must finish processing before files can be appended to it'
+    };
+  }
 
+  const contentHash = getContentHash(file);
+
+  if (dataset.content_hash === contentHash || await hasAppendedContent(supabase, dataset.file_id, contentHash)) {
+    console.log(`♻️ Duplicate append of ${file.name} to ${dataset.original_name} (${dataset.file_id})`);
+    await removeStoredUpload(supabase, file);
     return {
-      success: tableInfo.length > 0,
-      tables: tableInfo
+      success: true,
+      duplicate: true,
+      fileId: dataset.file_id,
+      fileName: dataset.original_name,
+      message: `This file is already part of ${dataset.original_name}`
     };
+  }
 
+  const storagePath = file.storagePath || `duckdb/${dataset.sha_hash}/${generateUniqueFileName(file.name)}`;
+  if (file.data) {
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET_NAME)
+      .upload(storagePath, file.data, {
+        upsert: false,
+        contentType: file.type || 'application/octet-stream'
+      });
+
+    if (uploadError) {
+      console.error('Upload error:', uploadError);
+      return {
+        success: false,
+        fileName: file.name,
+        error: 'Failed to upload file to storage: ' + uploadError.message
+      };
+    }
+  }
+
+  try {
+    const job = await enqueueIngestionJob(supabase, dataset.file_id, storagePath, file.name, {
+      mode: 'append',
+      contentHash,
+      flattenDepth: file.flattenDepth
+    });
+    startIngestion(supabase, [job]);
   } catch (error) {
-    console.error('Database verification failed:', error);
+    console.error('Append queueing error:', error);
+    await supabase.storage.from(BUCKET_NAME).remove([storagePath]);
     return {
       success: false,
-      tables: [],
-      error: error instanceof Error ? error.message : 'Unknown error'
+      fileName: file.name,
+      error: 'Failed to queue append: ' + (error instanceof Error ? error.message : 'Unknown error')
     };
-  } finally {
-    // Clean up downloaded file
-    if (localDbPath) {
-      try {
-        const fs = await import('fs/promises');
-        await fs.unlink(localDbPath);
-      } catch (cleanupError) {
-        console.error('Error cleaning up downloaded file:', cleanupError);
-      }
-    }
   }
+
+  return {
+    success: true,
+    fileId: dataset.file_id,
+    fileName: file.name,
+    status: 'appending',
+    message: `File uploaded, appending it to ${dataset.original_name}`
+  };
+}
+
+/**
+ * Store an upload and start its ingestion: a spreadsheet as one file, a zip archive
+ * as one file per spreadsheet it contains, or a file appended to an existing dataset
+ */
+async function storeUpload(
+  supabase: SupabaseClient,
+  file: UploadedFile,
+  versionOf: string | null,
+  appendTo: string | null = null
+): Promise<UploadResult> {
+  if (appendTo) {
+    return storeAppendUpload(supabase, file, appendTo);
+  }
+
+  const jobs: IngestionJob[] = [];
+
+  if (!isZipArchive(file.name)) {
+    const result = await storeUploadedFile(supabase, file, versionOf, jobs);
+    startIngestion(supabase, jobs);
+    return result;
+  }
+
+  let entries: ReturnType<typeof extractSpreadsheets>;
+  try {
+    entries = extractSpreadsheets(file.data || await downloadStoredUpload(supabase, file.storagePath));
+  } catch (error) {
+    await removeStoredUpload(supabase, file);
+    return {
+      success: false,
+      fileName: file.name,
+      error: error instanceof Error ? error.message : 'Could not read zip archive'
+    };
+  }
+
+  const files: UploadResult[] = [];
+  for (const entry of entries) {
+    files.push(await storeUploadedFile(
+      supabase,
+      { name: entry.name, type: '', data: entry.data, flattenDepth: file.flattenDepth },
+      null,
+      jobs
+    ));
+  }
+  startIngestion(supabase, jobs);
+
+  // The spreadsheets are stored on their own, so the archive itself is not kept
+  await removeStoredUpload(supabase, file);
+
+  const stored = files.filter(result => result.success).length;
+  return {
+    success: stored > 0,
+    fileName: file.name,
+    files,
+    message: `Expanded ${entries.length} spreadsheets from ${file.name}`,
+    error: stored > 0 ? undefined : 'None of the spreadsheets in the archive could be uploaded'
+  };
 }
 
 export async function uploadFileAction(formData: FormData): Promise<UploadResult> {
   try {
     const file = formData.get('file') as File;
+    // File ID of an existing upload this file is a new version of
+    const versionOf = formData.get('versionOf') as string | null;
+    // File ID of an existing dataset this file's rows are appended to
+    const appendTo = formData.get('appendTo') as string | null;
+    // Levels of nested JSON objects to flatten into columns, when not the default
+    const depthField = formData.get('flattenDepth') as string | null;
+    const flattenDepth = depthField ? Number(depthField) : null;
 
     if (!file) {
       return {
@@ -177,27 +577,12 @@ export async function uploadFileAction(formData: FormData): Promise<UploadResult
       };
     }
 
-    // Validate file type
-    const allowedTypes = [
-      'application/vnd.ms-excel',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'text/csv',
-      'application/csv'
-    ];
-
-    if (!allowedTypes.includes(file.type)) {
-      return {
-        success: false,
-        error: 'Invalid file type. Only Excel and CSV files are allowed.'
-      };
-    }
-
-    // Validate file size (100MB limit)
-    const maxSize = 100 * 1024 * 1024; // 100MB
-    if (file.size > maxSize) {
+    const typeError = validateUploadType(file.name, file.type, versionOf, appendTo)
+      || validateFlattenDepth(flattenDepth);
+    if (typeError) {
       return {
         success: false,
-        error: 'File size exceeds 100MB limit'
+        error: typeError
       };
     }
 
@@ -215,165 +600,193 @@ export async function uploadFileAction(formData: FormData): Promise<UploadResult
 
     console.log('Authenticated user:', user.email);
 
-    // Generate unique file ID and filename
-    const fileId = uuidv4();
-    const uniqueFileName = generateUniqueFileName(file.name);
+    // Validate file size against the tenant's limit
+    const maxSize = await getUploadSizeLimit(supabase);
+    if (file.size > maxSize) {
+      return {
+        success: false,
+        error: `File size exceeds ${formatLimit(maxSize)} limit`
+      };
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    return await storeUpload(supabase, { name: file.name, type: file.type, data, flattenDepth }, versionOf, appendTo);
+
+  } catch (error) {
+    console.error('Upload action error:', error);
     
-    // Store in the new structure: duckdb/{sha}/original_file.xlsx
-    const sha = crypto.createHash('sha256').update(fileId).digest('hex').slice(0, 12);
-    const storagePath = `duckdb/${sha}/${uniqueFileName}`;
+    return {
+      success: false,
+      error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error')
+    };
+  }
+}
 
-    let localFilePath: string | null = null;
+/**
+ * Start a resumable upload. The size is checked against the tenant's limit before any
+ * bytes are sent; the browser then uploads the file to storage in chunks and calls
+ * completeResumableUploadAction.
+ */
+export async function startResumableUploadAction(upload: {
+  fileName: string;
+  fileSize: number;
+  contentType: string;
+  versionOf?: string | null;
+  appendTo?: string | null;
+  flattenDepth?: number | null;
+}): Promise<ResumableUploadSession> {
+  try {
+    const versionOf = upload.versionOf || null;
+    const appendTo = upload.appendTo || null;
+    const flattenDepth = upload.flattenDepth ?? null;
+
+    const typeError = validateUploadType(upload.fileName, upload.contentType, versionOf, appendTo)
+      || validateFlattenDepth(flattenDepth);
+    if (typeError) {
+      return { success: false, error: typeError };
+    }
 
-    try {
-      // Upload file to Supabase storage
-      const { error: uploadError } = await supabase.storage
-        .from(BUCKET_NAME)
-        .upload(storagePath, file, { 
-          upsert: false,
-          contentType: file.type
-        });
-
-      if (uploadError) {
-        console.error('Upload error:', uploadError);
-        return {
-          success: false,
-          error: 'Failed to upload file to storage: ' + uploadError.message
-        };
-      }
+    const supabase = await createClient();
 
-      // Create duckdb_files record with initial status
-      const duckdbRecord = {
-        file_id: fileId,
-        file_name: uniqueFileName,
-        original_name: file.name,
-        duckdb_path: `duckdb/${sha}/${sha}.duckdb`,
-        metadata_path: `duckdb/${sha}/metadata.json`,
-        sha_hash: sha,
-        sheets_processed: 0,
-        status: 'processing',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return { success: false, error: 'Authentication required' };
+    }
 
-      const { error: duckdbInsertError } = await supabase
-        .from('duckdb_files')
-        .insert(duckdbRecord)
-        .select('*')
-        .single();
-
-      if (duckdbInsertError) {
-        console.error('DuckDB record insert error:', duckdbInsertError);
-        // Clean up uploaded file if duckdb_files insert fails
-        await supabase.storage.from(BUCKET_NAME).remove([storagePath]);
-        
-        return {
-          success: false,
-          error: 'Failed to create DuckDB file record: ' + duckdbInsertError.message
-        };
-      }
+    const maxSize = await getUploadSizeLimit(supabase);
+    if (upload.fileSize > maxSize) {
+      return { success: false, error: `File size exceeds ${formatLimit(maxSize)} limit` };
+    }
 
-      // Download file from storage for processing
-      localFilePath = await downloadFileFromStorage(supabase, storagePath);
-
-      // Process the Excel file
-      const { dbFile, sheetsProcessed } = await processExcelFile(
-        localFilePath, 
-        fileId
-      );
-
-      // Upload processed files to storage
-      const dbUploadResult = await uploadToStorage(
-        supabase, 
-        dbFile, 
-        `duckdb/${sha}/${sha}.duckdb`
-      );
-      
-      const metadataPath = path.join(os.tmpdir(), `${sha}.json`);
-      const metadataUploadResult = await uploadToStorage(
-        supabase, 
-        metadataPath, 
-        `duckdb/${sha}/metadata.json`
-      );
-
-      if (!dbUploadResult.success || !metadataUploadResult.success) {
-        throw new Error('Failed to upload processed files to storage');
-      }
+    // A file appended to a dataset is stored next to the dataset's other uploads
+    const dataset = appendTo ? await getFileRecord(supabase, appendTo) : null;
+    if (appendTo && !dataset) {
+      return { success: false, error: 'The dataset to append to was not found' };
+    }
 
-      // Update file record with completion status and metadata
-      const { error: updateError } = await supabase
-        .from('duckdb_files')
-        .update({
-          status: 'completed',
-          sheets_processed: sheetsProcessed,
-          updated_at: new Date().toISOString()
-        })
-        .eq('file_id', fileId);
+    const fileId = uuidv4();
+    const sha = dataset ? dataset.sha_hash : createWorkbookId(fileId);
+    const storagePath = `duckdb/${sha}/${generateUniqueFileName(upload.fileName)}`;
 
-      if (updateError) {
-        console.error('Failed to update file status:', updateError);
-        throw new Error('Failed to update file status');
-      }
+    const { data: session, error } = await supabase
+      .from('upload_sessions')
+      .insert({
+        user_id: user.id,
+        file_id: fileId,
+        file_name: upload.fileName,
+        storage_path: storagePath,
+        file_size: upload.fileSize,
+        content_type: upload.contentType || null,
+        version_of: versionOf,
+        append_to: appendTo,
+        flatten_depth: flattenDepth
+      })
+      .select('session_id')
+      .single();
+
+    if (error) {
+      console.error('Upload session insert error:', error);
+      return { success: false, error: 'Failed to start upload: ' + error.message };
+    }
 
-      // Verify the uploaded database
-      console.log('Starting post-upload verification...');
-      const verificationResult = await verifyDatabase(supabase, sha, sheetsProcessed);
+    console.log(`📦 Started resumable upload of ${upload.fileName} (${upload.fileSize} bytes)`);
 
-      // Clean up temporary files
-      await cleanupTempFiles(localFilePath, dbFile, metadataPath);
+    return {
+      success: true,
+      sessionId: session.session_id,
+      bucket: BUCKET_NAME,
+      storagePath,
+      chunkSize: RESUMABLE_CHUNK_SIZE
+    };
+  } catch (error) {
+    console.error('Start upload action error:', error);
+    return {
+      success: false,
+      error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error')
+    };
+  }
+}
 
-      return {
-        success: true,
-        fileId: fileId,
-        fileName: file.name,
-        message: 'File uploaded and processed successfully',
-        processingResult: {
-          workbookId: sha,
-          sheetsProcessed,
-          tables: verificationResult.tables
-        }
-      };
+/**
+ * Complete a resumable upload once all chunks are in storage: check the assembled file,
+ * then deduplicate, record and queue it like any other upload
+ */
+export async function completeResumableUploadAction(sessionId: string): Promise<UploadResult> {
+  try {
+    const supabase = await createClient();
 
-    } catch (error) {
-      console.error('Upload/Processing error:', error);
-      
-      // Update status to failed if we have a file record
-      try {
-        await supabase
-          .from('duckdb_files')
-          .update({
-            status: 'failed',
-            updated_at: new Date().toISOString()
-          })
-          .eq('file_id', fileId);
-      } catch (updateError) {
-        console.error('Failed to update status to failed:', updateError);
-      }
-      
-      // Clean up any uploaded file on error
-      try {
-        await supabase.storage.from(BUCKET_NAME).remove([storagePath]);
-      } catch (cleanupError) {
-        console.error('Failed to clean up file:', cleanupError);
-      }
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return { success: false, error: 'Authentication required' };
+    }
 
-      // Clean up temporary files
-      if (localFilePath) {
-        await cleanupTempFiles(localFilePath);
-      }
+    const session = await getUploadSession(supabase, sessionId);
+    if (!session) {
+      return { success: false, error: 'Upload session not found' };
+    }
+    if (session.status !== 'uploading') {
+      return { success: false, fileName: session.file_name, error: `Upload session is already ${session.status}` };
+    }
+
+    const failSession = async (error: string): Promise<UploadResult> => {
+      await supabase
+        .from('upload_sessions')
+        .update({ status: 'failed', error, completed_at: new Date().toISOString() })
+        .eq('session_id', sessionId);
+      await supabase.storage.from(BUCKET_NAME).remove([session.storage_path]);
+      return { success: false, fileName: session.file_name, error };
+    };
 
+    let stored: Awaited<ReturnType<typeof hashStoredUpload>>;
+    try {
+      stored = await hashStoredUpload(supabase, session.storage_path);
+    } catch (error) {
       return {
         success: false,
-        error: 'Failed to process upload: ' + (error instanceof Error ? error.message : 'Unknown error')
+        fileName: session.file_name,
+        error: 'The upload is not complete yet: ' + (error instanceof Error ? error.message : 'file not found')
       };
     }
 
+    if (stored.size !== Number(session.file_size)) {
+      return await failSession(`Expected ${session.file_size} bytes but ${stored.size} were uploaded`);
+    }
+
+    // The declared size was checked when the session started, but the limit may have changed since
+    const maxSize = await getUploadSizeLimit(supabase);
+    if (stored.size > maxSize) {
+      return await failSession(`File size exceeds ${formatLimit(maxSize)} limit`);
+    }
+
+    const result = await storeUpload(
+      supabase,
+      {
+        name: session.file_name,
+        type: session.content_type || '',
+        fileId: session.file_id,
+        storagePath: session.storage_path,
+        contentHash: stored.contentHash,
+        flattenDepth: session.flatten_depth
+      },
+      session.version_of,
+      session.append_to
+    );
+
+    await supabase
+      .from('upload_sessions')
+      .update({
+        status: result.success ? 'completed' : 'failed',
+        error: result.error || null,
+        completed_at: new Date().toISOString()
+      })
+      .eq('session_id', sessionId);
+
+    return result;
   } catch (error) {
-    console.error('Upload action error:', error);
-    
+    console.error('Complete upload action error:', error);
     return {
       success: false,
       error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error')
     };
   }
-}
\ No newline at end of file
+}
@@ -1,8 +1,49 @@
+import path from 'node:path';
 import { DuckDBInstance } from '@duckdb/node-api';
 import type { DuckDBConnection } from './types';
 import { logEvent } from './langfuse';
 import type { LangfuseTraceClient } from 'langfuse-core';
 
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+export interface AttachedDatabase {
+  alias: string;
+  path: string;
+}
+
+/**
+ * Database aliases for the files of a chat. A single file keeps the source_db alias;
+ * several files are named after their uploads (wb_sales_2024, wb_sales_2024_v2), unique
+ * within the chat. The wb_ prefix keeps a file named like a SQL keyword or one of DuckDB's
+ * catalogs (case, default, main) from clashing with it.
+ */
+export function createDatabaseAliases(files: { original_name: string; version?: number }[]): string[] {
+  if (files.length === 1) {
+    return ['source_db'];
+  }
+
+  const used = new Set<string>();
+  return files.map(file => {
+    let base = path.parse(file.original_name).name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '');
+    if (file.version && file.version > 1) {
+      base = `${base}_v${file.version}`;
+    }
+    base = `wb_${base || 'workbook'}`;
+
+    let alias = base;
+    for (let suffix = 2; used.has(alias); suffix++) {
+      alias = `${base}_${suffix}`;
+    }
+    used.add(alias);
+    return alias;
+  });
+}
+
 export class DatabaseManager {
   private instance: DuckDBInstance | null = null;
   private connection: DuckDBConnection | null = null;
@@ -12,10 +53,10 @@ export class DatabaseManager {
     this.trace = trace;
   }
 
-  async initialize(localDbPath: string): Promise<void> {
+  async initialize(databases: AttachedDatabase[]): Promise<void> {
     if (this.trace) {
       logEvent(this.trace, 'database-initialization-started', {
-        local_db_path: localDbPath,
+        databases: databases,
       });
     }
     
@@ -23,15 +64,17 @@ export class DatabaseManager {
     this.instance = await DuckDBInstance.create(':memory:');
     this.connection = await this.instance.connect();
 
-    // Attach the downloaded database
-    await this.connection.run(`ATTACH '${localDbPath}' AS source_db`);
+    // Attach each downloaded database under its own alias
+    for (const database of databases) {
+      await this.connection.run(`ATTACH ${quoteLiteral(database.path)} AS ${database.alias} (READ_ONLY)`);
+    }
     
     if (this.trace) {
       logEvent(this.trace, 'database-initialization-completed', {
-        local_db_path: localDbPath,
+        databases: databases,
         instance_created: true,
         connection_established: true,
-        database_attached: true,
+        databases_attached: databases.length,
       });
     }
   }
@@ -1,6 +1,9 @@
 import path from 'node:path';
 import fs from 'node:fs/promises';
 import { downloadFileFromStorage, cleanupTempFiles } from '@/app/actions/upload-file/libs/storage';
+import { PROFILE_FILE_NAME } from '@/app/actions/upload-file/libs/profile';
+import { upgradeMetadata } from '@/app/actions/upload-file/libs/metadata';
+import type { WorkbookProfile } from '@/app/actions/upload-file/libs/types';
 import type { DatabaseMetadata, FileRecord } from './types';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { logEvent } from './langfuse';
@@ -31,15 +34,22 @@ export class FileManager {
       const localMetadataPath = await downloadFileFromStorage(supabase, metadataStoragePath);
       
       const metadataContent = await fs.readFile(localMetadataPath, 'utf-8');
-      const metadata = JSON.parse(metadataContent) as DatabaseMetadata;
+      // Files written before metadata was versioned are upgraded on the fly
+      const metadata: DatabaseMetadata = upgradeMetadata(JSON.parse(metadataContent));
       
       await cleanupTempFiles(localMetadataPath);
+
+      const profile = await this.loadProfile(supabase, dbDir);
+      if (profile) {
+        metadata.profiles = profile.tables;
+      }
       
       if (this.trace) {
         logEvent(this.trace, 'metadata-loading-completed', {
           metadata_size: metadataContent.length,
           sheets_count: metadata?.sheets?.length || 0,
           has_error: !!metadata.error,
+          has_profiles: !!metadata.profiles,
         });
       }
 
@@ -54,6 +64,23 @@ export class FileManager {
     }
   }
 
+  /**
+   * The workbook's column profiles, or null for files ingested before profiling existed
+   */
+  private async loadProfile(supabase: SupabaseClient, dbDir: string): Promise<WorkbookProfile | null> {
+    try {
+      const localProfilePath = await downloadFileFromStorage(supabase, path.join(dbDir, PROFILE_FILE_NAME));
+      const profile = JSON.parse(await fs.readFile(localProfilePath, 'utf-8')) as WorkbookProfile;
+      await cleanupTempFiles(localProfilePath);
+      return profile;
+    } catch {
+      if (this.trace) {
+        logEvent(this.trace, 'profile-loading-skipped', { db_dir: dbDir });
+      }
+      return null;
+    }
+  }
+
   async downloadDatabaseFile(
     supabase: SupabaseClient, 
     duckdbPath: string
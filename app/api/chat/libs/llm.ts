@@ -1,7 +1,8 @@
 import { streamText, generateObject } from 'ai';
 import { z } from 'zod';
-import type { ChatMessage, DatabaseMetadata, StreamChunk, DatabaseManager } from './types';
+import type { ChatMessage, ChatWorkbook, StreamChunk, DatabaseManager } from './types';
 import { sqlQuerySchema } from './types';
+import { renderTableSchema } from '@/app/actions/upload-file/libs/schema';
 import { openai, createSpan, logEvent } from './langfuse';
 import type { LangfuseTraceClient } from 'langfuse-core';
 
@@ -17,6 +18,21 @@ const MODEL_CONFIG = {
   },
 } as const;
 
+/**
+ * A table as queries reference it, prefixed with its workbook's database alias
+ */
+function qualify(workbook: ChatWorkbook, table: string): string {
+  return `${workbook.alias}.${table}`;
+}
+
+/**
+ * Whether a query reads the given alias-qualified table
+ */
+function referencesTable(sqlQuery: string, qualifiedName: string): boolean {
+  const escaped = qualifiedName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}\\b`, 'i').test(sqlQuery);
+}
+
 export class LLMService {
   private trace: LangfuseTraceClient | null;
 
@@ -26,7 +42,7 @@ export class LLMService {
   
   async generateSqlQuery(
     messages: ChatMessage[], 
-    metadata: DatabaseMetadata,
+    workbooks: ChatWorkbook[],
     dbManager?: DatabaseManager
   ): Promise<string> {
     const maxRetries = 2;
@@ -37,15 +53,16 @@ export class LLMService {
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
         const sqlPrompt: string = attempt === 0 
-          ? this.buildSqlPrompt(messages, metadata)
-          : this.buildRetrySqlPrompt(messages, metadata, lastQuery!, lastError!, tableSamples);
+          ? this.buildSqlPrompt(messages, workbooks)
+          : this.buildRetrySqlPrompt(messages, workbooks, lastQuery!, lastError!, tableSamples);
+        const availableTables = this.listTables(workbooks);
         
         // Create span for SQL generation
         const sqlSpan = this.trace ? createSpan(this.trace, `sql-generation-attempt-${attempt + 1}`, {
           model: MODEL_CONFIG.sqlGeneration.model,
           temperature: MODEL_CONFIG.sqlGeneration.temperature,
           prompt_length: sqlPrompt.length,
-          tables_count: metadata?.sheets?.length || 0,
+          tables_count: availableTables.length,
           attempt: attempt + 1,
         }) : null;
 
@@ -57,7 +74,7 @@ export class LLMService {
               temperature: MODEL_CONFIG.sqlGeneration.temperature,
               prompt_length: sqlPrompt.length,
               messages_count: messages.length,
-              tables_available: metadata?.sheets?.length || 0,
+              tables_available: availableTables.length,
               attempt: attempt + 1,
             });
           }
@@ -67,7 +84,7 @@ export class LLMService {
             logEvent(this.trace, `sql-generation-attempt-${attempt + 1}-start`, {
               messages_count: messages.length,
               last_user_message: messages[messages.length - 1]?.content?.slice(0, 100),
-              available_tables: metadata?.sheets?.map(s => s.table) || [],
+              available_tables: availableTables,
               attempt: attempt + 1,
               is_retry: attempt > 0,
             });
@@ -104,7 +121,7 @@ export class LLMService {
               input: {
                 prompt: sqlPrompt,
                 messages: messages,
-                metadata: metadata
+                workbooks: workbooks
               },
               output: {
                 sql_query: cleanSqlQuery,
@@ -142,7 +159,7 @@ export class LLMService {
               
               // Get table samples for the retry
               if (attempt === 0) {
-                tableSamples = await this.getTableSamples(dbManager, cleanSqlQuery);
+                tableSamples = await this.getTableSamples(dbManager, cleanSqlQuery, workbooks);
               }
               
               if (this.trace) {
@@ -201,10 +218,10 @@ export class LLMService {
     sqlQuery: string, 
     rows: unknown[][], 
     executionTime: number,
-    metadata?: DatabaseMetadata
+    workbooks: ChatWorkbook[] = []
   ): Promise<ReadableStream> {
     // Build the response prompt first (this includes column header extraction)
-    const responsePrompt = await this.buildResponsePrompt(sqlQuery, rows, metadata);
+    const responsePrompt = await this.buildResponsePrompt(sqlQuery, rows, workbooks);
     
     // Create span for response generation (after prompt is built)
     const responseSpan = this.trace ? createSpan(this.trace, 'response-generation', {
@@ -355,9 +372,9 @@ export class LLMService {
     });
   }
 
-  private buildSqlPrompt(messages: ChatMessage[], metadata: DatabaseMetadata): string {
+  private buildSqlPrompt(messages: ChatMessage[], workbooks: ChatWorkbook[]): string {
     // Format schema in a clean, readable way
-    const formattedSchema = this.formatDatabaseSchema(metadata?.table_schemas);
+    const formattedSchema = this.formatDatabaseSchema(workbooks);
     
     return `You are a SQL expert. Based on the following database schema and user conversation, generate a SQL query to answer the user's question.
 
@@ -365,43 +382,181 @@ Database Schema:
 ${formattedSchema}
 
 Available Tables:
-${(metadata?.sheets || []).map((sheet) => `- ${sheet.table} (originally "${sheet.original_name}")`).join('\n')}
-
+${this.formatAvailableTables(workbooks)}
+${this.formatWorkbooks(workbooks)}${this.formatFormulaHint(workbooks)}${this.formatAnnotationHint(workbooks)}${this.formatJoinPaths(workbooks)}${this.formatColumnUnits(workbooks)}${this.formatColumnHeaders(workbooks)}${this.formatColumnProfiles(workbooks)}
 User Conversation:
 ${messages.map(msg => `${msg.role}: ${msg.content}`).join('\n')}
 
-IMPORTANT: When referencing tables in your SQL query, you MUST prefix each table name with "source_db." (e.g., "source_db.sheet_sheet1" instead of just "sheet_sheet1").
+IMPORTANT: ${this.formatTablePrefixRule(workbooks)}
 
 Generate ONLY a valid SQL SELECT query. Do not include any explanations or markdown formatting. Only use the tables and columns that exist in the schema above.`;
   }
 
-  private formatDatabaseSchema(tableSchemas?: Record<string, unknown>): string {
-    if (!tableSchemas || Object.keys(tableSchemas).length === 0) {
-      return 'No database schema available.';
+  private listTables(workbooks: ChatWorkbook[]): string[] {
+    return workbooks.flatMap(workbook => [
+      ...(workbook.metadata?.sheets || []).map(sheet => qualify(workbook, sheet.table)),
+      ...(workbook.metadata?.transforms || []).map(transform => qualify(workbook, transform.table))
+    ]);
+  }
+
+  private formatTablePrefixRule(workbooks: ChatWorkbook[]): string {
+    if (workbooks.length <= 1) {
+      return 'When referencing tables in your SQL query, you MUST prefix each table name with "source_db." (e.g., "source_db.sheet_sheet1" instead of just "sheet_sheet1").';
     }
 
-    const formattedTables = Object.entries(tableSchemas).map(([tableName, schema]) => {
-      if (typeof schema === 'string') {
-        // The schema is already formatted as a string, just return it
-        return schema;
-      } else {
-        // Fallback for unexpected schema format
-        return `Table: ${tableName}\nColumns: Schema format not recognized`;
-      }
-    });
+    // Every file is its own attached database, so an unprefixed table name is ambiguous
+    const [first, second] = workbooks;
+    return `The tables come from ${workbooks.length} files, each attached as its own database. When referencing tables in your SQL query, you MUST prefix each table name with its file's alias (e.g., "${first.alias}.sheet_sheet1" or "${second.alias}.sheet_sheet1"). To compare files, JOIN their tables on shared columns or UNION ALL them with a literal column naming the file.`;
+  }
+
+  private formatWorkbooks(workbooks: ChatWorkbook[]): string {
+    if (workbooks.length <= 1) return '';
+
+    const lines = workbooks.map(workbook => `- ${workbook.alias}: "${workbook.name}"`);
+    return `\nFiles (alias: uploaded file):\n${lines.join('\n')}\n`;
+  }
+
+  private formatAvailableTables(workbooks: ChatWorkbook[]): string {
+    return workbooks.flatMap(workbook => {
+      const metadata = workbook.metadata;
+      const tables = (metadata?.sheets || []).map((sheet) => {
+        // Tables from a sheet region, Excel Table or named range list the cell block they came from
+        let source = `originally "${sheet.original_name}"`;
+        if (sheet.source === 'excel_table') {
+          source = `Excel table "${sheet.name}" on "${sheet.original_name}", cells ${sheet.range}`;
+        } else if (sheet.source === 'named_range') {
+          source = `named range "${sheet.name}" on "${sheet.original_name}", cells ${sheet.range}`;
+        } else if (sheet.region) {
+          source = `originally block ${sheet.region} of "${sheet.original_name}", cells ${sheet.range}`;
+        }
+        const hidden = sheet.visibility ? ', on a hidden sheet' : '';
+        return `- ${qualify(workbook, sheet.table)} (${source}${hidden})`;
+      });
+
+      // Long forms of crosstabs are easier to filter and aggregate by period than the wide tables
+      const derived = (metadata?.transforms || []).map(transform => transform.kind === 'unpivot'
+        ? `- ${qualify(workbook, transform.table)} (long form of ${transform.source_table}: ${transform.value_columns.length} columns as rows, labelled in ${transform.name_column}, ordered by ${transform.index_column}, values in ${transform.value_column}; prefer it for questions across ${transform.name_column}s)`
+        : `- ${qualify(workbook, transform.table)} (pivot of ${transform.source_table}: ${transform.aggregate} of ${transform.value_column} per ${transform.pivot_column} value as columns)`
+      );
+
+      return [...tables, ...derived];
+    }).join('\n');
+  }
+
+  private formatFormulaHint(workbooks: ChatWorkbook[]): string {
+    // Questions about how a figure is calculated are answered from the workbook's own formulas
+    return workbooks.map(({ alias, name, metadata }) => {
+      if (!metadata?.formulas) return '';
+      const workbook = workbooks.length > 1 ? `"${name}"` : 'workbook';
+      return `
+The ${workbook}'s formulas are stored in ${metadata.formulas.table} (${metadata.formulas.count} formula cells). For questions about how a value or column is calculated, select the formula and value columns from ${alias}.${metadata.formulas.table}, filtering on header, column_name, table_name or cell, and use DISTINCT or LIMIT since a formula is usually repeated down a column.
+`;
+    }).join('');
+  }
+
+  private formatAnnotationHint(workbooks: ChatWorkbook[]): string {
+    return workbooks.map(({ alias, name, metadata }) => {
+      if (!metadata?.annotations) return '';
+      const { table, comments, hyperlinks } = metadata.annotations;
+      const workbook = workbooks.length > 1 ? `"${name}"` : 'workbook';
+      return `
+The ${workbook}'s cell comments (${comments}) and hyperlinks (${hyperlinks}) are stored in ${table}. For questions about notes, comments or links on the data, select text, target, author and value from ${alias}.${table}, filtering on kind, table_name, column_name or row_number.
+`;
+    }).join('');
+  }
+
+  private formatJoinPaths(workbooks: ChatWorkbook[]): string {
+    // Detected keys and the joins between tables, so questions spanning sheets join on them
+    const keys = workbooks.flatMap(workbook => Object.entries(workbook.metadata?.relationships?.primary_keys || {})
+      .map(([tableName, columns]) => `- ${qualify(workbook, tableName)}: ${columns[0]}`));
+    const joins = workbooks.flatMap(workbook => (workbook.metadata?.relationships?.foreign_keys || []).map(fk => {
+      const table = qualify(workbook, fk.table);
+      const references = qualify(workbook, fk.references_table);
+      return `- JOIN ${references} ON ${table}.${fk.column} = ${references}.${fk.references_column} (${Math.round(fk.containment * 100)}% of ${fk.table}.${fk.column} values found)`;
+    }));
+
+    let hint = '';
+    if (keys.length) hint += `\nPrimary Keys:\n${keys.join('\n')}\n`;
+    if (joins.length) hint += `\nJoin Paths (use these to combine tables):\n${joins.join('\n')}\n`;
+    return hint;
+  }
+
+  private formatColumnUnits(workbooks: ChatWorkbook[], sqlQuery?: string): string {
+    // When a query is given, only list units for the tables it reads
+    const lines = workbooks.flatMap(workbook => Object.entries(workbook.metadata?.table_schemas || {})
+      .map(([tableName, schema]) => [qualify(workbook, tableName), schema] as const)
+      .filter(([tableName]) => !sqlQuery || referencesTable(sqlQuery, tableName))
+      .flatMap(([tableName, schema]) => schema.columns.flatMap(({ name, unit }) => {
+        if (!unit) return [];
+        return unit.kind === 'currency'
+          ? [`- ${tableName}.${name}: amounts in ${unit.currency}`]
+          : [`- ${tableName}.${name}: percentage stored as a fraction (0.12 means 12%)`];
+      })));
+
+    return lines.length ? `\nColumn Units:\n${lines.join('\n')}\n` : '';
+  }
 
-    return formattedTables.join('\n\n');
+  private formatColumnHeaders(workbooks: ChatWorkbook[], sqlQuery?: string): string {
+    // Only list headers the column name does not already spell out, e.g. "Amount (€)" -> amount_2
+    // The formulas and annotations tables have no spreadsheet headers of their own
+    const lines = workbooks.flatMap(({ alias, metadata }) => Object.entries(metadata?.table_schemas || {})
+      .filter(([tableName]) => tableName !== metadata?.formulas?.table && tableName !== metadata?.annotations?.table)
+      .map(([tableName, schema]) => [`${alias}.${tableName}`, schema] as const)
+      .filter(([tableName]) => !sqlQuery || referencesTable(sqlQuery, tableName))
+      .flatMap(([tableName, schema]) => schema.columns
+        .filter(({ name, header }) => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_') !== name)
+        .map(({ name, header }) => `- ${tableName}.${name}: "${header}"`)));
+
+    return lines.length ? `\nOriginal Spreadsheet Headers:\n${lines.join('\n')}\n` : '';
+  }
+
+  private formatColumnProfiles(workbooks: ChatWorkbook[]): string {
+    const formatNumber = (value: number) => String(Number(value.toPrecision(6)));
+
+    // Only columns whose profile says something the schema does not: allowed values,
+    // ranges, and columns that are mostly empty
+    const tables = workbooks.flatMap(workbook => Object.entries(workbook.metadata?.profiles || {}).map(([tableName, profile]) => {
+      const lines = Object.entries(profile.columns).flatMap(([column, stats]) => {
+        const hints: string[] = [];
+        if (stats.categorical && stats.top_values?.length) {
+          hints.push(`one of ${stats.top_values.map(v => `'${v.value.replace(/'/g, "''")}'`).join(', ')}`);
+        } else if (typeof stats.min === 'number' && typeof stats.max === 'number') {
+          const median = stats.percentiles?.p50;
+          hints.push(`${formatNumber(stats.min)} to ${formatNumber(stats.max)}${typeof median === 'number' ? `, median ${formatNumber(median)}` : ''}`);
+        } else if (typeof stats.min === 'string' && typeof stats.max === 'string') {
+          hints.push(`${stats.min} to ${stats.max}`);
+        }
+        if (stats.null_ratio >= 0.5) {
+          hints.push(`${Math.round(stats.null_ratio * 100)}% empty`);
+        }
+        return hints.length ? [`  - ${column}: ${hints.join('; ')}`] : [];
+      });
+      return `- ${qualify(workbook, tableName)} (${profile.row_count} rows)${lines.length ? `\n${lines.join('\n')}` : ''}`;
+    }));
+
+    return tables.length ? `\nColumn Profiles:\n${tables.join('\n')}\n` : '';
+  }
+
+  private formatDatabaseSchema(workbooks: ChatWorkbook[]): string {
+    // Tables are named as the query must reference them, with their database's alias
+    const schemas = workbooks.flatMap(workbook => Object.values(workbook.metadata?.table_schemas || {})
+      .map(schema => ({ ...schema, tableName: qualify(workbook, schema.tableName) })));
+    if (schemas.length === 0) {
+      return 'No database schema available.';
+    }
+
+    return schemas.map(renderTableSchema).join('\n\n');
   }
 
   private buildRetrySqlPrompt(
     messages: ChatMessage[], 
-    metadata: DatabaseMetadata, 
+    workbooks: ChatWorkbook[], 
     failedQuery: string, 
     error: Error, 
     tableSamples: Record<string, unknown[][]>
   ): string {
     // Format schema in a clean, readable way
-    const formattedSchema = this.formatDatabaseSchema(metadata?.table_schemas);
+    const formattedSchema = this.formatDatabaseSchema(workbooks);
     
     // Format table samples for better readability
     const formattedSamples = Object.entries(tableSamples).map(([tableName, rows]) => {
@@ -418,8 +573,8 @@ Database Schema:
 ${formattedSchema}
 
 Available Tables:
-${(metadata?.sheets || []).map((sheet) => `- ${sheet.table} (originally "${sheet.original_name}")`).join('\n')}
-
+${this.formatAvailableTables(workbooks)}
+${this.formatWorkbooks(workbooks)}${this.formatFormulaHint(workbooks)}${this.formatAnnotationHint(workbooks)}${this.formatJoinPaths(workbooks)}${this.formatColumnUnits(workbooks)}${this.formatColumnHeaders(workbooks)}${this.formatColumnProfiles(workbooks)}
 User Conversation:
 ${messages.map(msg => `${msg.role}: ${msg.content}`).join('\n')}
 
@@ -433,26 +588,27 @@ ACTUAL DATA SAMPLES:
 ${formattedSamples}
 
 IMPORTANT: 
-1. When referencing tables in your SQL query, you MUST prefix each table name with "source_db." (e.g., "source_db.sheet_sheet1" instead of just "sheet_sheet1").
+1. ${this.formatTablePrefixRule(workbooks)}
 2. Analyze the error message and the actual data samples to understand what went wrong.
 3. Generate ONLY a valid SQL SELECT query that will execute successfully.
 4. Do not include any explanations or markdown formatting.
 5. Only use the tables and columns that exist in the schema above.`;
   }
 
-  private async getTableSamples(dbManager: DatabaseManager, query: string): Promise<Record<string, unknown[][]>> {
+  private async getTableSamples(
+    dbManager: DatabaseManager,
+    query: string,
+    workbooks: ChatWorkbook[]
+  ): Promise<Record<string, unknown[][]>> {
     const tableSamples: Record<string, unknown[][]> = {};
     
     try {
-      // Extract table names from the query (simple regex for now)
-      const tableMatches = query.match(/source_db\.(\w+)/g);
-      if (!tableMatches) return tableSamples;
-      
-      const tableNames = [...new Set(tableMatches.map(match => match.replace('source_db.', '')))];
+      // Only sample tables the failed query read
+      const tableNames = this.listTables(workbooks).filter(tableName => referencesTable(query, tableName));
       
       for (const tableName of tableNames) {
         try {
-          const sampleQuery = `SELECT * FROM source_db.${tableName} LIMIT 3`;
+          const sampleQuery = `SELECT * FROM ${tableName} LIMIT 3`;
           const rows = await dbManager.executeQuery(sampleQuery);
           tableSamples[tableName] = rows;
         } catch (error) {
@@ -467,12 +623,12 @@ IMPORTANT:
     return tableSamples;
   }
 
-  private async buildResponsePrompt(sqlQuery: string, rows: unknown[][], metadata?: DatabaseMetadata): Promise<string> {
+  private async buildResponsePrompt(sqlQuery: string, rows: unknown[][], workbooks: ChatWorkbook[]): Promise<string> {
     // Create span for response prompt building
     const promptSpan = this.trace ? createSpan(this.trace, 'response-prompt-building', {
       sql_query: sqlQuery,
       rows_count: rows.length,
-      has_metadata: !!metadata,
+      workbooks_count: workbooks.length,
     }) : null;
 
     try {
@@ -481,25 +637,34 @@ IMPORTANT:
         logEvent(this.trace, 'response-prompt-building-started', {
           sql_query: sqlQuery,
           rows_count: rows.length,
-          has_metadata: !!metadata,
+          workbooks_count: workbooks.length,
         });
       }
 
       // Extract column headers from the SQL query and metadata
-      const columnHeaders = await this.extractColumnHeaders(sqlQuery, metadata);
+      const columnHeaders = await this.extractColumnHeaders(sqlQuery, workbooks);
       
       // Format data with headers if available
       const formattedData = this.formatDataWithHeaders(rows, columnHeaders);
       
+      // Results read from the formulas table describe how figures are calculated, not figures themselves
+      const formulaGuidance = workbooks.some(({ alias, metadata }) =>
+        metadata?.formulas && referencesTable(sqlQuery, `${alias}.${metadata.formulas.table}`))
+        ? 'The data lists Excel formulas from the workbook. Explain in plain words how the values are calculated, naming the columns and cells the formulas refer to.\n\n'
+        : '';
+
+      const columnUnits = this.formatColumnUnits(workbooks, sqlQuery);
+      const headerNotes = this.formatColumnHeaders(workbooks, sqlQuery);
+
       const responsePrompt = `You are a master data analyst with 20+ years of experience. Analyze the query results below and provide a direct, actionable response. Cut through the noise and focus on what matters.
 
 Query: ${sqlQuery}
 Rows: ${rows.length}
-
+${columnUnits}${headerNotes}
 Data:
 ${formattedData} ${rows.length > 100 ? '\n... (showing first 100 rows)' : ''}
 
-Give me the key findings. Be conversational but concise. No fluff, no obvious statements. What insights should I act on? Respond in plain text only - no markdown or formatting.`;
+${formulaGuidance}${headerNotes ? 'Refer to columns by their original spreadsheet header.\n\n' : ''}${columnUnits ? 'Present amounts with their currency and fractions of percentage columns as percentages.\n\n' : ''}Give me the key findings. Be conversational but concise. No fluff, no obvious statements. What insights should I act on? Respond in plain text only - no markdown or formatting.`;
 
       // Log successful response prompt building
       if (this.trace) {
@@ -519,7 +684,7 @@ Give me the key findings. Be conversational but concise. No fluff, no obvious st
           input: {
             sql_query: sqlQuery,
             rows_count: rows.length,
-            metadata: metadata,
+            workbooks: workbooks,
             column_headers: columnHeaders,
           },
           output: {
@@ -549,8 +714,8 @@ Give me the key findings. Be conversational but concise. No fluff, no obvious st
     }
   }
 
-  private async extractColumnHeaders(sqlQuery: string, metadata?: DatabaseMetadata): Promise<string[] | null> {
-    if (!metadata?.table_schemas) {
+  private async extractColumnHeaders(sqlQuery: string, workbooks: ChatWorkbook[]): Promise<string[] | null> {
+    if (!workbooks.some(workbook => workbook.metadata?.table_schemas)) {
       return null;
     }
 
@@ -559,7 +724,7 @@ Give me the key findings. Be conversational but concise. No fluff, no obvious st
       model: 'gpt-4o-mini',
       temperature: 0.1,
       sql_query: sqlQuery,
-      tables_count: Object.keys(metadata.table_schemas || {}).length,
+      tables_count: this.listTables(workbooks).length,
     }) : null;
 
     try {
@@ -569,7 +734,7 @@ Give me the key findings. Be conversational but concise. No fluff, no obvious st
           model: 'gpt-4o-mini',
           temperature: 0.1,
           sql_query: sqlQuery,
-          tables_available: Object.keys(metadata.table_schemas || {}),
+          tables_available: this.listTables(workbooks),
         });
       }
 
@@ -579,9 +744,7 @@ Give me the key findings. Be conversational but concise. No fluff, no obvious st
 SQL Query: ${sqlQuery}
 
 Available table schemas:
-${Object.entries(metadata.table_schemas || {}).map(([tableName, schema]) => 
-  `Table: ${tableName}\n${schema}`
-).join('\n\n')}
+${this.formatDatabaseSchema(workbooks)}
 
 Rules:
 1. Only include columns that are explicitly SELECTed in the query
@@ -623,7 +786,7 @@ Example output: ["park_name", "visitor_difference"]`;
           input: {
             prompt: columnAnalysisPrompt,
             sql_query: sqlQuery,
-            metadata: metadata
+            workbooks: workbooks
           },
           output: {
             column_headers: columnHeaders,
@@ -652,12 +815,12 @@ Example output: ["park_name", "visitor_difference"]`;
       }
 
       console.warn('Failed to extract column headers using LLM, falling back to basic parsing:', error);
-      return this.extractColumnHeadersFallback(sqlQuery, metadata);
+      return this.extractColumnHeadersFallback(sqlQuery, workbooks);
     }
   }
 
-  private extractColumnHeadersFallback(sqlQuery: string, metadata?: DatabaseMetadata): string[] | null {
-    if (!metadata?.table_schemas) {
+  private extractColumnHeadersFallback(sqlQuery: string, workbooks: ChatWorkbook[]): string[] | null {
+    if (!workbooks.some(workbook => workbook.metadata?.table_schemas)) {
       return null;
     }
 
@@ -665,40 +828,37 @@ Example output: ["park_name", "visitor_difference"]`;
     if (this.trace) {
       logEvent(this.trace, 'column-header-extraction-fallback-used', {
         sql_query: sqlQuery,
-        fallback_method: 'basic_parsing',
+        fallback_method: 'table_schema_columns',
       });
     }
 
     // Extract table names from the SQL query
-    const tableMatches = sqlQuery.match(/source_db\.(\w+)/g);
-    if (!tableMatches) {
+    const tables = workbooks.flatMap(workbook => Object.values(workbook.metadata?.table_schemas || {})
+      .map(schema => ({ tableName: qualify(workbook, schema.tableName), schema }))
+      .filter(({ tableName }) => referencesTable(sqlQuery, tableName)));
+    if (!tables.length) {
       return null;
     }
 
-    const tableNames = [...new Set(tableMatches.map(match => match.replace('source_db.', '')))];
+    const tableNames = tables.map(({ tableName }) => tableName);
     
     // For now, we'll use the first table's schema as column headers
     // In a more sophisticated implementation, we could parse the SELECT clause
     // to determine which columns are being selected
-    for (const tableName of tableNames) {
-      const tableSchema = metadata.table_schemas[tableName];
-      if (tableSchema && typeof tableSchema === 'string') {
-        // Parse the schema string to extract column names
-        const columnMatches = tableSchema.match(/- (\w+) \(/g);
-        if (columnMatches) {
-          const headers = columnMatches.map(match => match.replace('- ', '').replace(' (', ''));
-          
-          // Log fallback success
-          if (this.trace) {
-            logEvent(this.trace, 'column-header-extraction-fallback-success', {
-              table_name: tableName,
-              column_headers: headers,
-              headers_count: headers.length,
-            });
-          }
-          
-          return headers;
+    for (const { tableName, schema: tableSchema } of tables) {
+      if (tableSchema.columns.length) {
+        const headers = tableSchema.columns.map(column => column.name);
+        
+        // Log fallback success
+        if (this.trace) {
+          logEvent(this.trace, 'column-header-extraction-fallback-success', {
+            table_name: tableName,
+            column_headers: headers,
+            headers_count: headers.length,
+          });
         }
+        
+        return headers;
       }
     }
 
@@ -1,5 +1,9 @@
 import { z } from 'zod';
 import type { LangfuseTraceClient } from 'langfuse-core';
+import type { ExcelMetadata, TableProfile } from '@/app/actions/upload-file/libs/types';
+
+// Most files one chat can query together
+export const MAX_CHAT_FILES = 5;
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
@@ -8,7 +12,9 @@ export interface ChatMessage {
 
 export interface ChatRequest {
   messages: ChatMessage[];
-  file_id: string;
+  file_id?: string;
+  // Several files queried together; takes precedence over file_id
+  file_ids?: string[];
 }
 
 export interface DuckDBConnection {
@@ -28,6 +34,8 @@ export interface FileRecord {
   status: string;
   duckdb_path: string;
   sheets_processed: number;
+  original_name: string;
+  version?: number;
 }
 
 export interface StreamChunk {
@@ -38,12 +46,25 @@ export interface StreamChunk {
   executionTime?: number;
 }
 
-export interface DatabaseMetadata {
-  table_schemas?: Record<string, unknown>;
-  sheets?: Array<{table: string; original_name: string}>;
+/**
+ * A workbook's metadata.json, upgraded to the current format, with the column profiles
+ * from its profile.json. Only `error` is set when the metadata could not be loaded.
+ */
+export interface DatabaseMetadata extends Partial<ExcelMetadata> {
+  profiles?: Record<string, TableProfile>;
   error?: string;
 }
 
+/**
+ * One of the files a chat queries, attached to the query database under its own alias
+ */
+export interface ChatWorkbook {
+  alias: string;
+  fileId: string;
+  name: string;
+  metadata: DatabaseMetadata;
+}
+
 // Validation schemas
 export const sqlQuerySchema = z.object({
   query: z.string().describe('A valid SQL SELECT query')
@@ -54,5 +75,8 @@ export const chatRequestSchema = z.object({
     role: z.enum(['user', 'assistant', 'system']),
     content: z.string()
   })),
-  file_id: z.string()
+  file_id: z.string().optional(),
+  file_ids: z.array(z.string()).optional()
+}).refine(request => !!request.file_id || !!request.file_ids?.length, {
+  message: 'A file_id or file_ids is required'
 }); 
\ No newline at end of file
@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { getFileRecord } from '@/app/actions/upload-file/libs/database';
+import { isQueryableStatus } from '@/app/actions/upload-file/libs/types';
 import { handleApiAuthSession } from '@/utils/auth/setAuthSession';
 
-import { DatabaseManager, validateSqlQuery } from './libs/database';
+import { DatabaseManager, validateSqlQuery, createDatabaseAliases } from './libs/database';
+import type { AttachedDatabase } from './libs/database';
 import { LLMService } from './libs/llm';
 import { FileManager } from './libs/file-operations';
 import { createChatTrace, langfuse, createSpan, logEvent } from './libs/langfuse';
-import type { ChatRequest, FileRecord } from './libs/types';
+import { MAX_CHAT_FILES } from './libs/types';
+import type { ChatRequest, ChatWorkbook, FileRecord } from './libs/types';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 300;
@@ -26,34 +29,43 @@ export async function POST(request: NextRequest) {
   dbManager.setTrace(trace);
   fileManager.setTrace(trace);
   
-  let localDbPath: string | null = null;
+  const localDbPaths: string[] = [];
   let userId: string | null = null;
 
   try {
     // 1. Parse and validate request
     const body: ChatRequest = await request.json();
-    if (!body?.messages || !Array.isArray(body.messages) || !body.file_id) {
+    // Several files are queried together; a single file_id is still accepted
+    const fileIds = [...new Set(body?.file_ids?.length ? body.file_ids : body?.file_id ? [body.file_id] : [])];
+    if (!body?.messages || !Array.isArray(body.messages) || !fileIds.length) {
       logEvent(trace, 'request-validation-failed', {
         error: 'Missing required parameters',
         has_messages: !!body?.messages,
-        has_file_id: !!body?.file_id,
+        has_file_id: fileIds.length > 0,
       });
       return NextResponse.json(
-        { error: 'Missing required parameters: messages and file_id' },
+        { error: 'Missing required parameters: messages and file_id or file_ids' },
         { status: 400 }
       );
     }
 
-    // Update trace with file ID
+    if (fileIds.length > MAX_CHAT_FILES) {
+      return NextResponse.json(
+        { error: `At most ${MAX_CHAT_FILES} files can be queried together` },
+        { status: 400 }
+      );
+    }
+
+    // Update trace with file IDs
     trace.update({
       metadata: {
-        fileId: body.file_id,
+        fileIds,
         messagesCount: body.messages.length,
       }
     });
 
     logEvent(trace, 'request-received', {
-      file_id: body.file_id,
+      file_ids: fileIds,
       messages_count: body.messages.length,
       last_user_message: body.messages[body.messages.length - 1]?.content?.slice(0, 100),
     });
@@ -77,51 +89,64 @@ export async function POST(request: NextRequest) {
     logEvent(trace, 'authentication-success', { userId: userId || 'anonymous' });
     authSpan.end();
 
-    // 3. Get file record and verify access
-    const fileSpan = createSpan(trace, 'file-access', { file_id: body.file_id });
-    const fileRecord = await getFileRecord(supabase, body.file_id) as FileRecord;
-    if (!fileRecord) {
-      logEvent(trace, 'file-access-denied', { file_id: body.file_id });
-      fileSpan.end();
-      return NextResponse.json(
-        { error: 'File not found or access denied' },
-        { status: 404 }
-      );
-    }
+    // 3. Get file records and verify access
+    const fileSpan = createSpan(trace, 'file-access', { file_ids: fileIds });
+    const fileRecords: FileRecord[] = [];
+    for (const fileId of fileIds) {
+      const fileRecord = await getFileRecord(supabase, fileId) as FileRecord;
+      if (!fileRecord) {
+        logEvent(trace, 'file-access-denied', { file_id: fileId });
+        fileSpan.end();
+        return NextResponse.json(
+          { error: 'File not found or access denied' },
+          { status: 404 }
+        );
+      }
 
-    if (fileRecord.status !== 'completed') {
-      logEvent(trace, 'file-not-ready', { 
-        file_id: body.file_id, 
-        status: fileRecord.status 
+      if (!isQueryableStatus(fileRecord.status)) {
+        logEvent(trace, 'file-not-ready', { 
+          file_id: fileId, 
+          status: fileRecord.status 
+        });
+        fileSpan.end();
+        return NextResponse.json(
+          { error: `File ${fileRecord.original_name} is not ready for querying. Current status: ${fileRecord.status}` },
+          { status: 400 }
+        );
+      }
+
+      logEvent(trace, 'file-access-success', {
+        file_id: fileId,
+        status: fileRecord.status,
+        sheets_processed: fileRecord.sheets_processed,
       });
-      fileSpan.end();
-      return NextResponse.json(
-        { error: `File is not ready for querying. Current status: ${fileRecord.status}` },
-        { status: 400 }
-      );
+      fileRecords.push(fileRecord);
     }
-
-    logEvent(trace, 'file-access-success', {
-      file_id: body.file_id,
-      status: fileRecord.status,
-      sheets_processed: fileRecord.sheets_processed,
-    });
     fileSpan.end();
 
-    // 4. Load metadata and setup database
+    // 4. Load metadata and setup database, each file attached under its own alias
     const setupSpan = createSpan(trace, 'database-setup');
-    const metadata = await fileManager.loadMetadata(supabase, fileRecord);
-    localDbPath = await fileManager.downloadDatabaseFile(supabase, fileRecord.duckdb_path);
-    await dbManager.initialize(localDbPath);
+    const aliases = createDatabaseAliases(fileRecords);
+    const workbooks: ChatWorkbook[] = [];
+    const databases: AttachedDatabase[] = [];
+    for (const [i, fileRecord] of fileRecords.entries()) {
+      const metadata = await fileManager.loadMetadata(supabase, fileRecord);
+      const localDbPath = await fileManager.downloadDatabaseFile(supabase, fileRecord.duckdb_path);
+      localDbPaths.push(localDbPath);
+      workbooks.push({ alias: aliases[i], fileId: fileIds[i], name: fileRecord.original_name, metadata });
+      databases.push({ alias: aliases[i], path: localDbPath });
+    }
+    await dbManager.initialize(databases);
     
     logEvent(trace, 'database-setup-success', {
-      has_metadata: !metadata.error,
-      tables_available: metadata?.sheets?.length || 0,
+      has_metadata: workbooks.every(workbook => !workbook.metadata.error),
+      databases: aliases,
+      tables_available: workbooks.reduce((sum, workbook) => sum + (workbook.metadata?.sheets?.length || 0), 0),
     });
     setupSpan.end();
 
     // 5. Generate and validate SQL query
-    const sqlQuery = await llmService.generateSqlQuery(body.messages, metadata, dbManager);
+    const sqlQuery = await llmService.generateSqlQuery(body.messages, workbooks, dbManager);
     validateSqlQuery(sqlQuery);
 
     // 6. Execute query and get results
@@ -148,7 +173,7 @@ export async function POST(request: NextRequest) {
     });
 
     // 7. Create streaming response
-    const stream = await llmService.createResponseStream(sqlQuery, rows, executionTime, metadata);
+    const stream = await llmService.createResponseStream(sqlQuery, rows, executionTime, workbooks);
 
     // Log successful completion
     logEvent(trace, 'chat-session-success', {
@@ -191,7 +216,9 @@ export async function POST(request: NextRequest) {
   } finally {
     // Clean up all resources
     dbManager.cleanup();
-    await fileManager.cleanup(localDbPath);
+    for (const localDbPath of localDbPaths) {
+      await fileManager.cleanup(localDbPath);
+    }
     
     // Ensure Langfuse trace is properly closed
     try {
@@ -232,7 +259,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    if (fileRecord.status !== 'completed') {
+    if (!isQueryableStatus(fileRecord.status)) {
       return NextResponse.json(
         { error: `File is not ready. Current status: ${fileRecord.status}` },
         { status: 400 }
@@ -242,7 +269,7 @@ export async function GET(request: NextRequest) {
     // 4. Load metadata and setup database
     const metadata = await fileManager.loadMetadata(supabase, fileRecord);
     localDbPath = await fileManager.downloadDatabaseFile(supabase, fileRecord.duckdb_path);
-    await dbManager.initialize(localDbPath);
+    await dbManager.initialize([{ alias: 'source_db', path: localDbPath }]);
 
     // 5. Get database schema information
     const { tables, schemas } = await dbManager.getTableInfo();
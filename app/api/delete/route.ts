@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { getFileRecord } from '@/app/actions/upload-file/libs/database';
+import { getDatasetFolder, isRevisionFolder } from '@/app/actions/upload-file/libs/append';
 import { handleApiAuthSession } from '@/utils/auth/setAuthSession';
 import { Langfuse } from 'langfuse';
 
@@ -101,8 +102,9 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    // Extract folder path from the duckdb_path (e.g., "tenant123/duckdb/abc123/database.duckdb" -> "tenant123/duckdb/abc123/")
-    const folderPath = fileRecord.duckdb_path.substring(0, fileRecord.duckdb_path.lastIndexOf('/') + 1);
+    // Extract folder path from the duckdb_path (e.g., "tenant123/duckdb/abc123/database.duckdb" -> "tenant123/duckdb/abc123/"),
+    // above the revision folder the database of a dataset with appended files is in
+    const folderPath = `${getDatasetFolder(fileRecord.duckdb_path)}/`;
 
     try {
       // List all files in the folder to delete them
@@ -124,8 +126,19 @@ export async function POST(request: NextRequest) {
       // Delete all files in the folder
       const deletedFiles: string[] = [];
       
-      if (fileList && fileList.length > 0) {
-        const filePaths = fileList.map((file: {name: string}) => `${folderPath}${file.name}`);
+      const filePaths = (fileList || [])
+        .filter((file: {name: string}) => !isRevisionFolder(file.name))
+        .map((file: {name: string}) => `${folderPath}${file.name}`);
+
+      // Databases rebuilt by appends are one level down, in their revision folders
+      for (const folder of (fileList || []).filter((file: {name: string}) => isRevisionFolder(file.name))) {
+        const { data: revisionFiles } = await supabase.storage
+          .from(BUCKET_NAME)
+          .list(`${folderPath}${folder.name}`);
+        filePaths.push(...(revisionFiles || []).map((file: {name: string}) => `${folderPath}${folder.name}/${file.name}`));
+      }
+
+      if (filePaths.length > 0) {
         
         const { error: deleteFilesError } = await supabase.storage
           .from(BUCKET_NAME)
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { processIngestionQueue } from '@/app/actions/upload-file/libs';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * Ingestion worker: runs queued ingestion jobs. Called by the Vercel cron and by the
+ * local worker (`npm run worker`), both authenticated with CRON_SECRET.
+ */
+async function runWorker(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const { processed } = await processIngestionQueue(supabase);
+
+    return NextResponse.json({ success: true, processed });
+  } catch (error) {
+    console.error('Ingestion worker error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return runWorker(request);
+}
+
+export async function POST(request: NextRequest) {
+  return runWorker(request);
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { upgradeStoredMetadata } from '@/app/actions/upload-file/libs';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * Metadata migration: rewrites one batch of stored metadata.json files in the current
+ * format, continuing after the `after` file ID. Called by `npm run upgrade-metadata`,
+ * authenticated with CRON_SECRET.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const after = request.nextUrl.searchParams.get('after') || undefined;
+    const result = await upgradeStoredMetadata(createAdminClient(), after);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Metadata upgrade error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { getFileRecord } from '@/app/actions/upload-file/libs/database';
+import { handleApiAuthSession } from '@/utils/auth/setAuthSession';
+import { isReadyStatus, PivotAggregate } from '@/app/actions/upload-file/libs/types';
+import { transformStoredTable, PIVOT_AGGREGATES, TransformRequest } from '@/app/actions/upload-file/libs';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * The transform in a request body, or null when it is malformed
+ */
+function parseTransformRequest(body: Record<string, unknown>): TransformRequest | null {
+  const { kind, table } = body;
+  if (typeof table !== 'string' || !table) return null;
+
+  if (kind === 'unpivot') {
+    const { valueColumns, idColumns } = body;
+    if (!isStringArray(valueColumns)) return null;
+    if (idColumns !== undefined && !isStringArray(idColumns)) return null;
+    return { kind, table, valueColumns, idColumns };
+  }
+
+  if (kind === 'pivot') {
+    const { pivotColumn, valueColumn, aggregate, rowColumns } = body;
+    if (typeof pivotColumn !== 'string' || typeof valueColumn !== 'string') return null;
+    if (!PIVOT_AGGREGATES.includes(aggregate as PivotAggregate)) return null;
+    if (rowColumns !== undefined && !isStringArray(rowColumns)) return null;
+    return { kind, table, pivotColumn, valueColumn, aggregate: aggregate as PivotAggregate, rowColumns };
+  }
+
+  return null;
+}
+
+/**
+ * Adds an unpivoted or pivoted copy of one of a file's tables, requested from the
+ * schema view. Body: { fileId, kind: 'unpivot' | 'pivot', table, ...columns }.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as Record<string, unknown>;
+    const fileId = body.fileId;
+    const transform = parseTransformRequest(body);
+
+    if (typeof fileId !== 'string' || !fileId || !transform) {
+      return NextResponse.json(
+        { error: 'A file ID, table and valid transform are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    await handleApiAuthSession(supabase, request);
+
+    // Get file record from database (RLS will handle access control)
+    const fileRecord = await getFileRecord(supabase, fileId);
+    if (!fileRecord) {
+      return NextResponse.json(
+        { error: 'File not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    if (!isReadyStatus(fileRecord.status)) {
+      return NextResponse.json(
+        { error: `File is not ready for transforms. Current status: ${fileRecord.status}` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`↔️ ${transform.kind} of ${transform.table} requested for file ${fileId}`);
+    const { table } = await transformStoredTable(supabase, fileRecord, transform);
+
+    return NextResponse.json({ success: true, table });
+  } catch (error) {
+    console.error('Table transform error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { uploadFileAction } from '@/app/actions/upload-file/uploadFile';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * Upload endpoint for the browser: same as uploadFileAction, but as a plain HTTP request
+ * so the client can follow the bytes sent with XMLHttpRequest upload progress events
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const result = await uploadFileAction(formData);
+
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    console.error('Upload route error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
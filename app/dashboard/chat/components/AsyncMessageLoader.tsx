@@ -25,7 +25,7 @@ interface QueryMetadata {
 // Call the chat API with streaming response
 async function streamChatResponse(
   messages: ChatMessage[],
-  fileId: string,
+  fileIds: string[],
   onChunk: (chunk: string) => void,
   onMetadata: (metadata: QueryMetadata) => void
 ): Promise<string> {
@@ -36,7 +36,7 @@ async function streamChatResponse(
     },
     body: JSON.stringify({
       messages,
-      file_id: fileId
+      file_ids: fileIds
     })
   });
 
@@ -115,11 +115,11 @@ export function MessageSkeleton() {
 // Streaming message component that displays real-time responses
 export function StreamingMessage({ 
   messages, 
-  fileId,
+  fileIds,
   onComplete 
 }: { 
   messages: ChatMessage[]; 
-  fileId: string;
+  fileIds: string[];
   onComplete?: (response: string, metadata?: QueryMetadata) => void;
 }) {
   const [streamedContent, setStreamedContent] = useState("");
@@ -140,7 +140,7 @@ export function StreamingMessage({
 
         const fullResponse = await streamChatResponse(
           messages,
-          fileId,
+          fileIds,
           (chunk: string) => {
             if (isMounted) {
               setStreamedContent(prev => prev + chunk);
@@ -174,7 +174,7 @@ export function StreamingMessage({
     return () => {
       isMounted = false;
     };
-  }, [messages, fileId, onComplete]);
+  }, [messages, fileIds, onComplete]);
 
   return (
     <div className="flex flex-col gap-2">
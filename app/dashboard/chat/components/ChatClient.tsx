@@ -28,6 +28,8 @@ interface ChatMessage {
 interface PendingMessage {
   id: string;
   messages: ChatMessage[];
+  // Files selected when the question was asked
+  fileIds: string[];
 }
 
 // Message bubble component for displaying chat messages
@@ -66,11 +68,13 @@ function MessageBubble({ message }: { message: Message }) {
 }
 
 interface ChatClientProps {
-  fileId: string | null;
+  fileIds: string[];
 }
 
 // Main chat interface component
-export function ChatClient({ fileId }: ChatClientProps) {
+export function ChatClient({ fileIds }: ChatClientProps) {
+  // File information is shown for the first selected file
+  const fileId = fileIds[0] || null;
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [pendingMessages, setPendingMessages] = useState<PendingMessage[]>([]);
@@ -120,7 +124,7 @@ export function ChatClient({ fileId }: ChatClientProps) {
 
     // Add user message and create pending streaming message
     setMessages(prev => [...prev, userMessage]);
-    setPendingMessages(prev => [...prev, { id: pendingId, messages: apiMessages }]);
+    setPendingMessages(prev => [...prev, { id: pendingId, messages: apiMessages, fileIds }]);
     setInput("");
   };
 
@@ -177,7 +181,9 @@ export function ChatClient({ fileId }: ChatClientProps) {
           <div className="flex justify-between items-center">
             <div>
               <h3 className="text-sm font-medium">Chat Session</h3>
-              <p className="text-xs text-muted-foreground">File ID: {fileId}</p>
+              <p className="text-xs text-muted-foreground">
+                {fileIds.length > 1 ? `Querying ${fileIds.length} files together` : `File ID: ${fileId}`}
+              </p>
             </div>
             <Button
               variant="outline"
@@ -200,7 +206,11 @@ export function ChatClient({ fileId }: ChatClientProps) {
             {fileId ? (
               <>
                 <p className="text-lg mb-2">Chat with your spreadsheet data</p>
-                <p className="text-sm mb-4">Ask questions and get insights from your uploaded file</p>
+                <p className="text-sm mb-4">
+                  {fileIds.length > 1
+                    ? `Ask questions across your ${fileIds.length} selected files, or compare them`
+                    : 'Ask questions and get insights from your uploaded file'}
+                </p>
                 <div className="text-xs space-y-3">
                   <p>💡 Try: &quot;What are the sales trends?&quot; or &quot;Show me the top customers&quot;</p>
                   <Button 
@@ -257,7 +267,11 @@ export function ChatClient({ fileId }: ChatClientProps) {
                 <p>Loading file information...</p>
               </div>
             ) : metadata ? (
-              <FileMetadataDisplay metadata={metadata} />
+              <FileMetadataDisplay
+                metadata={metadata}
+                fileId={fileId}
+                onTransformed={() => fetchMetadata(fileId)}
+              />
             ) : null}
           </div>
         )}
@@ -272,7 +286,7 @@ export function ChatClient({ fileId }: ChatClientProps) {
           <StreamingMessage 
             key={pendingMsg.id} 
             messages={pendingMsg.messages}
-            fileId={fileId || ''}
+            fileIds={pendingMsg.fileIds}
             onComplete={(response, metadata) => handleResponseComplete(pendingMsg.id, response, metadata)}
           />
         ))}
@@ -1,40 +1,86 @@
 "use client";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { FileIcon, Sheet } from "lucide-react";
+import { FileIcon, Key, Layers, Link2, Sheet } from "lucide-react";
+import type { ColumnInfo, ColumnProfile, TableDrift } from "@/app/actions/upload-file/libs/types";
+import type { FileMetadata } from "../hooks/useFileMetadata";
+import { TableTransformPanel } from "./TableTransformPanel";
 
-interface FileMetadata {
-  workbook_id: string;
-  file_id: string;
-  sheets: Array<{
-    table: string;
-    original_name: string;
-  }>;
-  table_schemas: Record<string, string>;
+function formatNumber(value: number): string {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+/**
+ * Profile facts shown under a column: how empty it is, its range or its most common values
+ */
+function describeProfile(profile: ColumnProfile): string[] {
+  const facts: string[] = [];
+  if (profile.null_ratio > 0) {
+    facts.push(`${Math.round(profile.null_ratio * 100)}% empty`);
+  }
+  facts.push(`${formatNumber(profile.distinct_count)} distinct`);
+
+  if (typeof profile.min === 'number' && typeof profile.max === 'number') {
+    const median = profile.percentiles?.p50;
+    facts.push(`${formatNumber(profile.min)} – ${formatNumber(profile.max)}`);
+    if (typeof profile.mean === 'number') facts.push(`mean ${formatNumber(profile.mean)}`);
+    if (typeof median === 'number') facts.push(`median ${formatNumber(median)}`);
+  } else if (typeof profile.min === 'string' && typeof profile.max === 'string') {
+    facts.push(`${profile.min} – ${profile.max}`);
+  } else if (profile.top_values?.length) {
+    const shown = profile.top_values.slice(0, 5).map(v => `${v.value} (${formatNumber(v.count)})`);
+    const more = profile.categorical ? profile.top_values.length - shown.length : profile.distinct_count - shown.length;
+    facts.push(`${profile.categorical ? 'values' : 'top'}: ${shown.join(', ')}${more > 0 ? `, +${formatNumber(more)} more` : ''}`);
+  }
+  return facts;
+}
+
+/**
+ * The column's description, or its sample values when no description was generated
+ */
+function describeColumn(column: ColumnInfo): string {
+  if (column.description) return column.description;
+  return column.samples.length ? `e.g. ${column.samples.join(', ')}` : '';
+}
+
+/**
+ * How an appended table differed from the one its rows went to
+ */
+function describeDrift(drift: TableDrift): string[] {
+  const facts = [`${formatNumber(drift.rows)} rows`];
+  if (drift.new_table) {
+    facts.push('new table');
+    return facts;
+  }
+  if (drift.added_columns.length) facts.push(`added ${drift.added_columns.join(', ')}`);
+  if (drift.removed_columns.length) facts.push(`missing ${drift.removed_columns.join(', ')}`);
+  if (drift.renamed_columns.length) {
+    facts.push(`renamed ${drift.renamed_columns.map(r => `${r.from} → ${r.to}`).join(', ')}`);
+  }
+  if (drift.retyped_columns.length) {
+    facts.push(`widened ${drift.retyped_columns.map(r => `${r.column} (${r.from} → ${r.to})`).join(', ')}`);
+  }
+  return facts;
 }
 
 interface FileMetadataDisplayProps {
   metadata: FileMetadata;
+  fileId?: string;
+  // Called with the new table once an unpivot or pivot has been added
+  onTransformed?: (table: string) => void;
 }
 
-export function FileMetadataDisplay({ metadata }: FileMetadataDisplayProps) {
-  const formatSchemaDescription = (schema: string) => {
-    const lines = schema.split('\n');
-    const columnLines = lines.slice(2); // Skip "Table:" and "Columns:" lines
-    
-    return columnLines
-      .filter(line => line.trim().startsWith('- '))
-      .map(line => {
-        const match = line.match(/- (\w+) \((\w+)\): (.+)/);
-        if (match) {
-          return {
-            name: match[1],
-            description: match[3]
-          };
-        }
-        return null;
-      })
-      .filter((column): column is { name: string; description: string } => column !== null);
+export function FileMetadataDisplay({ metadata, fileId, onTransformed }: FileMetadataDisplayProps) {
+  const relationships = metadata.relationships;
+
+  // Sheet names rather than table names, as elsewhere in this view
+  const tableLabel = (tableName: string): string => {
+    const transform = metadata.transforms?.find(t => t.table === tableName);
+    if (transform) {
+      return `${tableLabel(transform.source_table)} (${transform.kind === 'unpivot' ? 'long form' : 'pivot'})`;
+    }
+    const sheet = metadata.sheets.find(s => s.table === tableName);
+    return sheet?.name || sheet?.original_name || tableName;
   };
 
   return (
@@ -44,40 +90,173 @@ export function FileMetadataDisplay({ metadata }: FileMetadataDisplayProps) {
         <FileIcon className="h-5 w-5 text-muted-foreground" />
         <span className="text-lg font-medium">Your Spreadsheet</span>
         <span className="text-sm text-muted-foreground">• {metadata.sheets.length} sheet{metadata.sheets.length !== 1 ? 's' : ''}</span>
+        {metadata.excluded_sheets?.length ? (
+          <span
+            className="text-sm text-muted-foreground"
+            title={metadata.excluded_sheets.map(s => s.name).join(', ')}
+          >
+            • {metadata.excluded_sheets.length} hidden sheet{metadata.excluded_sheets.length !== 1 ? 's' : ''} excluded
+          </span>
+        ) : null}
       </div>
 
       {/* Sheets overview */}
       <div className="space-y-3">
         {Object.entries(metadata.table_schemas).map(([tableName, schema]) => {
-          const columns = formatSchemaDescription(schema);
+          const { columns } = schema;
           const sheet = metadata.sheets.find(s => s.table === tableName);
+          const isFormulas = tableName === metadata.formulas?.table;
+          const isAnnotations = tableName === metadata.annotations?.table;
+          const transform = metadata.transforms?.find(t => t.table === tableName);
+          const profile = metadata.profiles?.[tableName];
+          const primaryKey = relationships?.primary_keys[tableName]?.[0];
           
           return (
             <Card key={tableName} className="border border-border/50">
               <CardHeader className="pb-3">
                 <CardTitle className="flex items-center gap-2 text-base">
                   <Sheet className="h-4 w-4" />
-                  {sheet?.original_name || 'Sheet'}
-                  <span className="text-sm font-normal text-muted-foreground">({columns.length} columns)</span>
+                  {isFormulas
+                    ? `Formulas (${metadata.formulas?.count} cells)`
+                    : isAnnotations
+                      ? `Comments and links (${metadata.annotations?.comments} comments, ${metadata.annotations?.hyperlinks} links)`
+                      : transform
+                        ? tableLabel(tableName)
+                        : sheet?.name ? `${sheet.name} (${sheet.original_name})` : sheet?.original_name || 'Sheet'}
+                  {(sheet?.region || sheet?.name) && (
+                    <span className="text-sm font-normal text-muted-foreground">{sheet.range}</span>
+                  )}
+                  {sheet?.visibility && (
+                    <span className="rounded bg-muted px-1.5 text-xs font-normal text-muted-foreground">
+                      {sheet.visibility === 'very_hidden' ? 'very hidden' : 'hidden'}
+                    </span>
+                  )}
+                  <span className="text-sm font-normal text-muted-foreground">
+                    ({columns.length} columns{profile ? `, ${formatNumber(profile.row_count)} rows` : ''}
+                    {sheet?.merged_ranges ? `, ${sheet.merged_ranges.length} merged ranges` : ''})
+                  </span>
                 </CardTitle>
               </CardHeader>
               <CardContent className="pt-0">
                 <div className="space-y-2">
-                  <p className="text-sm text-muted-foreground mb-3">Available data in this sheet:</p>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    {schema.description || 'Available data in this sheet:'}
+                  </p>
                   <div className="grid gap-2">
-                    {columns.map((column, index) => (
-                      <div key={index} className="flex items-start gap-3 p-2 bg-muted/30 rounded">
-                        <span className="font-medium text-sm min-w-0 flex-shrink-0">{column.name}</span>
-                        <span className="text-sm text-muted-foreground">{column.description}</span>
-                      </div>
-                    ))}
+                    {columns.map(column => {
+                      const columnProfile = column.profile || profile?.columns[column.name];
+                      const foreignKey = relationships?.foreign_keys.find(
+                        fk => fk.table === tableName && fk.column === column.name
+                      );
+                      return (
+                        <div key={column.name} className="flex items-start gap-3 p-2 bg-muted/30 rounded">
+                          <span className="font-medium text-sm min-w-0 flex-shrink-0">
+                            {column.header || column.name}
+                            {column.header && column.header !== column.name && (
+                              <span className="ml-1 font-mono text-xs font-normal text-muted-foreground">{column.name}</span>
+                            )}
+                            {column.name === primaryKey && (
+                              <Key className="ml-1 inline h-3 w-3 text-yellow-600" aria-label="Primary key" />
+                            )}
+                          </span>
+                          <div className="min-w-0">
+                            <p className="text-sm text-muted-foreground">
+                              <span className="font-mono text-xs">{column.type}</span>
+                              {describeColumn(column) && ` · ${describeColumn(column)}`}
+                            </p>
+                            {foreignKey && (
+                              <p className="text-xs text-primary mt-0.5">
+                                → {tableLabel(foreignKey.references_table)}.{foreignKey.references_column}
+                              </p>
+                            )}
+                            {columnProfile && (
+                              <p className="text-xs text-muted-foreground/80 mt-0.5">
+                                {describeProfile(columnProfile).join(' · ')}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
                   </div>
+                  {fileId && !isFormulas && !isAnnotations && (
+                    <TableTransformPanel
+                      fileId={fileId}
+                      tableName={tableName}
+                      columns={columns}
+                      onTransformed={onTransformed}
+                    />
+                  )}
                 </div>
               </CardContent>
             </Card>
           );
         })}
       </div>
+
+      {/* Detected joins between sheets */}
+      {relationships && relationships.foreign_keys.length > 0 && (
+        <Card className="border border-border/50">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Link2 className="h-4 w-4" />
+              Relationships
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <div className="grid gap-2">
+              {relationships.foreign_keys.map(fk => (
+                <div key={`${fk.table}.${fk.column}`} className="p-2 bg-muted/30 rounded text-sm">
+                  <span className="font-medium">{tableLabel(fk.table)}</span>
+                  <span className="font-mono text-xs text-muted-foreground">.{fk.column}</span>
+                  {' → '}
+                  <span className="font-medium">{tableLabel(fk.references_table)}</span>
+                  <span className="font-mono text-xs text-muted-foreground">.{fk.references_column}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {Math.round(fk.containment * 100)}% of values match
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Files appended to the dataset, with how their columns drifted */}
+      {metadata.batches && metadata.batches.length > 1 && (
+        <Card className="border border-border/50">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Layers className="h-4 w-4" />
+              Batches
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <div className="grid gap-2">
+              {metadata.batches.map(batch => (
+                <div key={batch.batch} className="p-2 bg-muted/30 rounded text-sm space-y-0.5">
+                  <p>
+                    <span className="font-medium">#{batch.batch}</span> {batch.source_file}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {new Date(batch.appended_at).toLocaleDateString()}
+                    </span>
+                  </p>
+                  {batch.tables.map(drift => (
+                    <p key={drift.table} className="text-xs text-muted-foreground">
+                      {drift.source} → {tableLabel(drift.table)}: {describeDrift(drift).join(' · ')}
+                    </p>
+                  ))}
+                  {batch.missing_tables.length > 0 && (
+                    <p className="text-xs text-yellow-700">
+                      No rows for {batch.missing_tables.map(tableLabel).join(', ')}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 } 
\ No newline at end of file
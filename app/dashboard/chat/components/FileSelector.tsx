@@ -1,34 +1,115 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { FileIcon, CheckIcon, RefreshCw, AlertCircle, Plus, Trash2 } from "lucide-react";
-import { useFiles } from "../hooks/useFiles";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FileIcon, CheckIcon, RefreshCw, AlertCircle, Plus, Trash2, History, Upload, ListPlus, ListMinus, FilePlus } from "lucide-react";
+import { useFiles, DuckDbFile } from "../hooks/useFiles";
 import { UploadModal } from "./UploadModal";
 import { DeleteConfirmModal } from "./DeleteConfirmModal";
+import { isQueryableStatus, isReadyStatus } from "@/app/actions/upload-file/libs/types";
+import { MAX_CHAT_FILES } from "@/app/api/chat/libs/types";
+
+interface FileDocument {
+  id: string;
+  // All versions of the file, newest first
+  versions: DuckDbFile[];
+}
+
+/**
+ * Group uploads into documents by their document ID, keeping the newest upload first
+ */
+function groupByDocument(files: DuckDbFile[]): FileDocument[] {
+  const documents = new Map<string, FileDocument>();
+
+  for (const file of files) {
+    const id = file.document_id || file.file_id;
+    if (!documents.has(id)) {
+      documents.set(id, { id, versions: [] });
+    }
+    documents.get(id)!.versions.push(file);
+  }
+
+  for (const document of documents.values()) {
+    document.versions.sort((a, b) => (b.version || 1) - (a.version || 1));
+  }
+
+  return [...documents.values()];
+}
 
 interface FileSelectorProps {
-  selectedFileId: string | null;
-  onFileSelect: (fileId: string) => void;
+  // Files queried together by the chat, in the order they were added
+  selectedFileIds: string[];
+  onSelectionChange: (fileIds: string[]) => void;
 }
 
-export function FileSelector({ selectedFileId, onFileSelect }: FileSelectorProps) {
+export function FileSelector({ selectedFileIds, onSelectionChange }: FileSelectorProps) {
   const { files, loading, error, refetch } = useFiles();
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
   const [deletingFileId, setDeletingFileId] = useState<string | null>(null);
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [fileToDelete, setFileToDelete] = useState<{ id: string; name: string } | null>(null);
+  const [versionOf, setVersionOf] = useState<{ fileId: string; name: string } | null>(null);
+  const [appendTo, setAppendTo] = useState<{ fileId: string; name: string } | null>(null);
 
-  // Auto-select the first file if none selected and files are available
+  const documents = useMemo(() => groupByDocument(files), [files]);
+
+  // Auto-select the latest version of the newest file if none selected and files are available
   useEffect(() => {
-    if (!selectedFileId && files.length > 0) {
-      onFileSelect(files[0].file_id);
+    if (selectedFileIds.length === 0 && documents.length > 0) {
+      onSelectionChange([documents[0].versions[0].file_id]);
+    }
+  }, [selectedFileIds, documents, onSelectionChange]);
+
+  // Chat with a single file
+  const selectOnly = (fileId: string) => {
+    onSelectionChange([fileId]);
+  };
+
+  // Add a file to the files queried together, or take it out again
+  const toggleFile = (fileId: string) => {
+    if (selectedFileIds.includes(fileId)) {
+      onSelectionChange(selectedFileIds.filter(id => id !== fileId));
+    } else if (selectedFileIds.length < MAX_CHAT_FILES) {
+      onSelectionChange([...selectedFileIds, fileId]);
+    }
+  };
+
+  // Switch to another version of a document, keeping the rest of the selection
+  const selectVersion = (document: FileDocument, fileId: string) => {
+    const versionIds = document.versions.map(v => v.file_id);
+    if (!selectedFileIds.some(id => versionIds.includes(id))) {
+      selectOnly(fileId);
+      return;
     }
-  }, [selectedFileId, files, onFileSelect]);
+    onSelectionChange(selectedFileIds.map(id => versionIds.includes(id) ? fileId : id));
+  };
 
-  const handleUploadSuccess = () => {
+  const handleUploadSuccess = (fileId?: string) => {
     refetch(); // Refresh the file list after successful upload
+    // Select the new version, or the existing file when the upload was a duplicate
+    if (fileId) {
+      selectOnly(fileId);
+    }
+  };
+
+  // Upload new files, a new version of `target`, or rows to append to it
+  const openUploadModal = (
+    target: { fileId: string; name: string } | null,
+    mode: 'version' | 'append' = 'version'
+  ) => {
+    setVersionOf(mode === 'version' ? target : null);
+    setAppendTo(mode === 'append' ? target : null);
+    setIsUploadModalOpen(true);
   };
 
   const handleDeleteFile = (fileId: string, fileName: string) => {
@@ -55,9 +136,9 @@ export function FileSelector({ selectedFileId, onFileSelect }: FileSelectorProps
         throw new Error(errorData.error || 'Failed to delete file');
       }
 
-      // If the deleted file was selected, clear the selection
-      if (selectedFileId === fileToDelete.id) {
-        onFileSelect('');
+      // If the deleted file was selected, take it out of the selection
+      if (selectedFileIds.includes(fileToDelete.id)) {
+        onSelectionChange(selectedFileIds.filter(id => id !== fileToDelete.id));
       }
 
       // Close modal and refresh the file list
@@ -85,8 +166,12 @@ export function FileSelector({ selectedFileId, onFileSelect }: FileSelectorProps
     switch (status.toLowerCase()) {
       case 'completed':
         return 'text-green-600';
+      case 'queued':
       case 'processing':
+      case 'appending':
+      case 'completed_with_warnings':
         return 'text-yellow-600';
+      case 'failed':
       case 'error':
         return 'text-red-600';
       default:
@@ -98,8 +183,15 @@ export function FileSelector({ selectedFileId, onFileSelect }: FileSelectorProps
     switch (status.toLowerCase()) {
       case 'completed':
         return '✅';
+      case 'queued':
+        return '🕒';
       case 'processing':
         return '⏳';
+      case 'appending':
+        return '➕';
+      case 'completed_with_warnings':
+        return '⚠️';
+      case 'failed':
       case 'error':
         return '❌';
       default:
@@ -107,11 +199,31 @@ export function FileSelector({ selectedFileId, onFileSelect }: FileSelectorProps
     }
   };
 
+  // Status line for files still being ingested, e.g. "processing · parsing"
+  const getStatusLabel = (file: DuckDbFile) => {
+    if (file.status === 'completed_with_warnings') {
+      const warnings = file.validation?.warnings.length || 0;
+      return `completed · ${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`;
+    }
+    if ((file.status === 'processing' || file.status === 'appending') && file.stage) {
+      return `${file.status} · ${file.stage}`;
+    }
+    if (file.status === 'queued' && file.error_message) {
+      return 'queued for retry';
+    }
+    return file.status;
+  };
+
   return (
     <Card className="h-full">
       <CardHeader>
         <div className="flex items-center justify-between">
-          <CardTitle className="text-lg">Files</CardTitle>
+          <div className="flex items-center gap-2">
+            <CardTitle className="text-lg">Files</CardTitle>
+            {selectedFileIds.length > 1 && (
+              <Badge variant="secondary">{selectedFileIds.length} in chat</Badge>
+            )}
+          </div>
           <Button
             variant="ghost"
             size="icon"
@@ -143,65 +255,157 @@ export function FileSelector({ selectedFileId, onFileSelect }: FileSelectorProps
               Try Again
             </Button>
           </div>
-        ) : files.length === 0 ? (
+        ) : documents.length === 0 ? (
           <div className="p-4 text-center text-muted-foreground">
             <p>No files uploaded yet</p>
             <p className="text-sm mt-1">Upload a file to get started</p>
           </div>
         ) : (
           <div className="space-y-1">
-            {files.map((file) => (
-              <div key={file.file_id} className="group relative">
-                <Button
-                  variant={selectedFileId === file.file_id ? "secondary" : "ghost"}
-                  className="w-full justify-start p-4 h-auto text-left pr-12"
-                  onClick={() => onFileSelect(file.file_id)}
-                >
-                  <div className="flex items-start gap-3 w-full">
-                    <FileIcon className="h-4 w-4 mt-1 flex-shrink-0" />
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2">
-                        <span className="font-medium text-sm truncate">
-                          {file.original_name}
-                        </span>
-                        {selectedFileId === file.file_id && (
-                          <CheckIcon className="h-4 w-4 text-primary flex-shrink-0" />
-                        )}
-                      </div>
-                      <div className="text-xs text-muted-foreground mt-1 space-y-1">
-                        {file.status !== 'completed' && (
-                          <div className="flex items-center gap-2">
-                            <span className={getStatusColor(file.status)}>
-                              {getStatusIcon(file.status)} {file.status}
-                            </span>
-                          </div>
-                        )}
-                        <p>{formatDate(file.created_at)}</p>
-                        {file.sheets_processed > 0 && (
-                          <p>{file.sheets_processed} sheets</p>
-                        )}
+            {documents.map((document) => {
+              // Show the selected version of this file, or its latest version
+              const file = document.versions.find(v => selectedFileIds.includes(v.file_id)) || document.versions[0];
+              const isSelected = selectedFileIds.includes(file.file_id);
+              const hasVersions = document.versions.length > 1;
+              // Only files ready to query can join a chat across several files
+              const canAdd = isQueryableStatus(file.status) && selectedFileIds.length < MAX_CHAT_FILES;
+
+              return (
+                <div key={document.id} className="group relative">
+                  <Button
+                    variant={isSelected ? "secondary" : "ghost"}
+                    className="w-full justify-start p-4 h-auto text-left pr-28"
+                    onClick={() => selectOnly(file.file_id)}
+                  >
+                    <div className="flex items-start gap-3 w-full">
+                      <FileIcon className="h-4 w-4 mt-1 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-sm truncate">
+                            {file.original_name}
+                          </span>
+                          {hasVersions && (
+                            <Badge variant="outline" className="px-1.5 py-0 flex-shrink-0">
+                              v{file.version || 1}
+                            </Badge>
+                          )}
+                          {isSelected && (
+                            <CheckIcon className="h-4 w-4 text-primary flex-shrink-0" />
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground mt-1 space-y-1">
+                          {file.status !== 'completed' && (
+                            <div className="flex items-center gap-2">
+                              <span
+                                className={getStatusColor(file.status)}
+                                title={file.validation?.warnings.map(warning => warning.message).join('\n')}
+                              >
+                                {getStatusIcon(file.status)} {getStatusLabel(file)}
+                              </span>
+                            </div>
+                          )}
+                          {/* A ready file can carry the error of a failed append */}
+                          {file.error_message && (
+                            <p className="text-red-600 line-clamp-2" title={file.error_message}>
+                              {file.error_message}
+                            </p>
+                          )}
+                          <p>{formatDate(file.created_at)}</p>
+                          {file.sheets_processed > 0 && (
+                            <p>{file.sheets_processed} sheets</p>
+                          )}
+                          {hasVersions && file !== document.versions[0] && (
+                            <p>Latest is v{document.versions[0].version || 1}</p>
+                          )}
+                        </div>
                       </div>
                     </div>
+                  </Button>
+                  <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title={isSelected ? "Remove from chat" : "Add to chat"}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleFile(file.file_id);
+                      }}
+                      disabled={!isSelected && !canAdd}
+                    >
+                      {isSelected ? <ListMinus className="h-4 w-4" /> : <ListPlus className="h-4 w-4" />}
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="w-56">
+                        <DropdownMenuLabel>Versions</DropdownMenuLabel>
+                        {document.versions.map((version) => (
+                          <DropdownMenuItem
+                            key={version.file_id}
+                            onSelect={() => selectVersion(document, version.file_id)}
+                            className="flex items-center justify-between gap-2"
+                          >
+                            <span>
+                              v{version.version || 1} · {formatDate(version.created_at)}
+                            </span>
+                            {selectedFileIds.includes(version.file_id) && (
+                              <CheckIcon className="h-4 w-4 text-primary" />
+                            )}
+                          </DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onSelect={() => openUploadModal({
+                            fileId: document.versions[0].file_id,
+                            name: document.versions[0].original_name
+                          })}
+                          className="gap-2"
+                        >
+                          <Upload className="h-4 w-4" />
+                          Upload new version
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onSelect={() => openUploadModal({
+                            fileId: file.file_id,
+                            name: file.original_name
+                          }, 'append')}
+                          disabled={!isReadyStatus(file.status)}
+                          className="gap-2"
+                        >
+                          <FilePlus className="h-4 w-4" />
+                          Append data
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 hover:bg-red-100 hover:text-red-600"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteFile(file.file_id, file.original_name);
+                      }}
+                      disabled={deletingFileId === file.file_id}
+                    >
+                      {deletingFileId === file.file_id ? (
+                        <RefreshCw className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                    </Button>
                   </div>
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="absolute top-2 right-2 h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-100 hover:text-red-600"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleDeleteFile(file.file_id, file.original_name);
-                  }}
-                  disabled={deletingFileId === file.file_id}
-                >
-                  {deletingFileId === file.file_id ? (
-                    <RefreshCw className="h-4 w-4 animate-spin" />
-                  ) : (
-                    <Trash2 className="h-4 w-4" />
-                  )}
-                </Button>
-              </div>
-            ))}
+                </div>
+              );
+            })}
           </div>
         )}
         
@@ -210,7 +414,7 @@ export function FileSelector({ selectedFileId, onFileSelect }: FileSelectorProps
             variant="outline" 
             className="w-full gap-2" 
             size="sm"
-            onClick={() => setIsUploadModalOpen(true)}
+            onClick={() => openUploadModal(null)}
           >
             <Plus className="h-4 w-4" />
             Upload New File
@@ -222,6 +426,8 @@ export function FileSelector({ selectedFileId, onFileSelect }: FileSelectorProps
         open={isUploadModalOpen}
         onOpenChange={setIsUploadModalOpen}
         onUploadSuccess={handleUploadSuccess}
+        versionOf={versionOf}
+        appendTo={appendTo}
       />
 
       <DeleteConfirmModal
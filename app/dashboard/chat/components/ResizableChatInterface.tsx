@@ -10,11 +10,8 @@ import { FileSelector } from "../components/FileSelector";
 import { ChatClient } from "../components/ChatClient";
 
 export function ResizableChatInterface() {
-  const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
-
-  const handleFileSelect = (fileId: string) => {
-    setSelectedFileId(fileId);
-  };
+  // Files the chat queries together; the first one's details are shown in the chat
+  const [selectedFileIds, setSelectedFileIds] = useState<string[]>([]);
 
   return (
     <ResizablePanelGroup
@@ -23,13 +20,13 @@ export function ResizableChatInterface() {
     >
       <ResizablePanel defaultSize={25} minSize={20} maxSize={40}>
         <FileSelector 
-          selectedFileId={selectedFileId}
-          onFileSelect={handleFileSelect}
+          selectedFileIds={selectedFileIds}
+          onSelectionChange={setSelectedFileIds}
         />
       </ResizablePanel>
       <ResizableHandle withHandle />
       <ResizablePanel defaultSize={75}>
-        <ChatClient fileId={selectedFileId} />
+        <ChatClient fileIds={selectedFileIds} />
       </ResizablePanel>
     </ResizablePanelGroup>
   );
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { detectCrosstab, isNumericType } from "@/app/actions/upload-file/libs/crosstab";
+import type { ColumnInfo, PivotAggregate } from "@/app/actions/upload-file/libs/types";
+
+const AGGREGATES: PivotAggregate[] = ["sum", "avg", "min", "max", "count"];
+
+interface TableTransformPanelProps {
+  fileId: string;
+  tableName: string;
+  columns: ColumnInfo[];
+  onTransformed?: (table: string) => void;
+}
+
+/**
+ * Unpivot and pivot forms for one table of the schema view. Either adds a new table
+ * to the file; the table it starts from is left as it is.
+ */
+export function TableTransformPanel({ fileId, tableName, columns, onTransformed }: TableTransformPanelProps) {
+  const [mode, setMode] = useState<"unpivot" | "pivot" | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const numericColumns = columns.filter(c => isNumericType(c.type));
+  const otherColumns = columns.filter(c => !isNumericType(c.type));
+
+  // Start from the detected period columns, otherwise every numeric column
+  const [valueColumns, setValueColumns] = useState<string[]>(
+    () => detectCrosstab(columns)?.valueColumns || numericColumns.map(c => c.name)
+  );
+  const [pivotColumn, setPivotColumn] = useState(otherColumns[0]?.name || "");
+  const [valueColumn, setValueColumn] = useState(numericColumns[0]?.name || "");
+  const [aggregate, setAggregate] = useState<PivotAggregate>("sum");
+
+  if (!numericColumns.length) return null;
+
+  const label = (column: ColumnInfo) => column.header || column.name;
+
+  const toggleValueColumn = (name: string) => {
+    setValueColumns(current =>
+      current.includes(name) ? current.filter(c => c !== name) : [...current, name]
+    );
+  };
+
+  const submit = async () => {
+    setSubmitting(true);
+    try {
+      const transform = mode === "unpivot"
+        ? { kind: "unpivot", table: tableName, valueColumns: columns.map(c => c.name).filter(c => valueColumns.includes(c)) }
+        : { kind: "pivot", table: tableName, pivotColumn, valueColumn, aggregate };
+
+      const response = await fetch("/api/transform", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ fileId, ...transform }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to transform table");
+      }
+
+      toast.success(`Added table ${result.table}`);
+      setMode(null);
+      onTransformed?.(result.table);
+    } catch (error) {
+      console.error("Transform error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to transform table");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const selectClassName = "h-8 rounded-md border bg-background px-2 text-sm";
+
+  return (
+    <div className="mt-3 border-t pt-3">
+      <div className="flex gap-2">
+        <Button
+          variant={mode === "unpivot" ? "secondary" : "outline"}
+          size="sm"
+          onClick={() => setMode(mode === "unpivot" ? null : "unpivot")}
+        >
+          Unpivot columns
+        </Button>
+        {otherColumns.length > 0 && (
+          <Button
+            variant={mode === "pivot" ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setMode(mode === "pivot" ? null : "pivot")}
+          >
+            Pivot
+          </Button>
+        )}
+      </div>
+
+      {mode === "unpivot" && (
+        <div className="mt-3 space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Turn these columns into rows of a new table, one row per column and source row:
+          </p>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {numericColumns.map(column => (
+              <label key={column.name} className="flex items-center gap-1.5 text-sm">
+                <input
+                  type="checkbox"
+                  checked={valueColumns.includes(column.name)}
+                  onChange={() => toggleValueColumn(column.name)}
+                />
+                {label(column)}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {mode === "pivot" && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">One column per</span>
+          <select className={selectClassName} value={pivotColumn} onChange={e => setPivotColumn(e.target.value)}>
+            {otherColumns.map(column => (
+              <option key={column.name} value={column.name}>{label(column)}</option>
+            ))}
+          </select>
+          <span className="text-muted-foreground">holding the</span>
+          <select
+            className={selectClassName}
+            value={aggregate}
+            onChange={e => setAggregate(e.target.value as PivotAggregate)}
+          >
+            {AGGREGATES.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <span className="text-muted-foreground">of</span>
+          <select className={selectClassName} value={valueColumn} onChange={e => setValueColumn(e.target.value)}>
+            {numericColumns.map(column => (
+              <option key={column.name} value={column.name}>{label(column)}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {mode && (
+        <Button
+          size="sm"
+          className="mt-3"
+          onClick={submit}
+          disabled={submitting || (mode === "unpivot" ? !valueColumns.length : !pivotColumn || !valueColumn)}
+        >
+          {submitting ? "Creating table..." : "Create table"}
+        </Button>
+      )}
+    </div>
+  );
+}
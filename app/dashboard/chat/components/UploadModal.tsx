@@ -12,23 +12,35 @@ import { UploadClient } from "../../upload/components/upload-client";
 interface UploadModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onUploadSuccess?: () => void;
+  onUploadSuccess?: (fileId?: string) => void;
+  // Existing file to upload a new version of
+  versionOf?: { fileId: string; name: string } | null;
+  // Existing dataset to append a file's rows to
+  appendTo?: { fileId: string; name: string } | null;
 }
 
-export function UploadModal({ open, onOpenChange, onUploadSuccess }: UploadModalProps) {
+export function UploadModal({ open, onOpenChange, onUploadSuccess, versionOf, appendTo }: UploadModalProps) {
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Upload New File</DialogTitle>
+          <DialogTitle>
+            {appendTo ? 'Append Data' : versionOf ? 'Upload New Version' : 'Upload New Files'}
+          </DialogTitle>
           <DialogDescription>
-            Upload an Excel file (.xlsx) to analyze and chat with your data.
+            {appendTo
+              ? `Add the rows of another extract to ${appendTo.name}. Sheets are matched to its tables by their columns, and every row records the file it came from.`
+              : versionOf
+              ? `Upload a new version of ${versionOf.name}. Earlier versions stay available to chat with.`
+              : 'Upload Excel (.xlsx, .xlsb, .xls), OpenDocument (.ods), CSV/TSV, Parquet or JSON files, a folder or a zip archive of them to analyze and chat with your data.'}
           </DialogDescription>
         </DialogHeader>
         <div className="py-4">
           <UploadClient 
-            onUploadSuccess={() => {
-              onUploadSuccess?.();
+            versionOf={versionOf?.fileId}
+            appendTo={appendTo?.fileId}
+            onUploadSuccess={(fileId) => {
+              onUploadSuccess?.(fileId);
               onOpenChange(false);
             }}
           />
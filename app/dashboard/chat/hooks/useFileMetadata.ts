@@ -1,13 +1,12 @@
 import { useState } from 'react';
+import type { ExcelMetadata, TableProfile } from '@/app/actions/upload-file/libs/types';
 
-interface FileMetadata {
-  workbook_id: string;
-  file_id: string;
-  sheets: Array<{
-    table: string;
-    original_name: string;
-  }>;
-  table_schemas: Record<string, string>;
+/**
+ * A file's metadata as the chat API returns it: upgraded to the current format, with the
+ * column profiles when the file has them
+ */
+export interface FileMetadata extends ExcelMetadata {
+  profiles?: Record<string, TableProfile>;
 }
 
 interface UseFileMetadataReturn {
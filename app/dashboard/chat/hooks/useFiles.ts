@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { createClient } from '@/utils/supabase/client';
+import type { ValidationResult } from '@/app/actions/upload-file/libs/types';
 
-interface DuckDbFile {
+export interface DuckDbFile {
   file_id: string;
   file_name: string;
   original_name: string;
@@ -10,6 +11,12 @@ interface DuckDbFile {
   sha_hash: string;
   sheets_processed: number;
   status: string;
+  stage: string | null;
+  error_message: string | null;
+  content_hash: string | null;
+  document_id: string | null;
+  version: number | null;
+  validation: ValidationResult | null;
   created_at: string;
   updated_at: string;
 }
@@ -21,18 +28,25 @@ interface UseFilesReturn {
   refetch: () => Promise<void>;
 }
 
+// Fallback refresh while files are being ingested, in case realtime updates are missed
+const POLL_INTERVAL_MS = 5000;
+
+const IN_PROGRESS_STATUSES = ['created', 'queued', 'processing', 'appending'];
+
 export function useFiles(): UseFilesReturn {
   const [files, setFiles] = useState<DuckDbFile[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchFiles = async () => {
+  const fetchFiles = useCallback(async (silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) {
+        setLoading(true);
+      }
       setError(null);
-      
+
       const supabase = createClient();
-      
+
       const { data, error: fetchError } = await supabase
         .from('duckdb_files')
         .select(`
@@ -44,6 +58,12 @@ export function useFiles(): UseFilesReturn {
           sha_hash,
           sheets_processed,
           status,
+          stage,
+          error_message,
+          content_hash,
+          document_id,
+          version,
+          validation,
           created_at,
           updated_at
         `)
@@ -59,18 +79,55 @@ export function useFiles(): UseFilesReturn {
       setError(err instanceof Error ? err.message : 'An error occurred while fetching files');
       setFiles([]);
     } finally {
-      setLoading(false);
+      if (!silent) {
+        setLoading(false);
+      }
     }
-  };
+  }, []);
 
   useEffect(() => {
     fetchFiles();
-  }, []);
+  }, [fetchFiles]);
+
+  // Live ingestion status: apply record updates as they stream in, refetch on inserts/deletes
+  useEffect(() => {
+    const supabase = createClient();
+    const channel = supabase
+      .channel('duckdb_files_status')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'duckdb_files' },
+        (payload) => {
+          if (payload.eventType === 'UPDATE') {
+            const updated = payload.new as DuckDbFile;
+            setFiles(current => current.map(file =>
+              file.file_id === updated.file_id ? { ...file, ...updated } : file
+            ));
+          } else {
+            fetchFiles(true);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchFiles]);
+
+  const hasFilesInProgress = files.some(file => IN_PROGRESS_STATUSES.includes(file.status));
+
+  useEffect(() => {
+    if (!hasFilesInProgress) return;
+
+    const timer = setInterval(() => fetchFiles(true), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasFilesInProgress, fetchFiles]);
 
   return {
     files,
     loading,
     error,
-    refetch: fetchFiles,
+    refetch: () => fetchFiles(),
   };
-} 
\ No newline at end of file
+}
@@ -1,40 +1,71 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef } from "react";
 import { useDropzone } from "react-dropzone";
-import { Upload } from "lucide-react";
+import { FolderOpen, Upload } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
-import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+
+// Spreadsheets, plus zip archives of spreadsheets that the server expands
+const ACCEPTED_EXTENSIONS = [
+  '.xlsx', '.xlsb', '.xls', '.ods', '.csv', '.tsv', '.parquet', '.json', '.ndjson', '.jsonl', '.zip'
+];
 
 interface FileDropzoneProps {
-  onFile: (file: File) => void;
-  progress?: number;
+  onFiles: (files: File[]) => void;
+  // Allow several files, folders and zip archives at once
+  multiple?: boolean;
+}
+
+function isAcceptedFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return !name.startsWith('.') && ACCEPTED_EXTENSIONS.some(extension => name.endsWith(extension));
 }
 
-export function FileDropzone({ onFile, progress = 0 }: FileDropzoneProps) {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+export function FileDropzone({ onFiles, multiple = true }: FileDropzoneProps) {
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
-      const file = acceptedFiles[0];
-      setSelectedFile(file);
-      onFile(file);
+      onFiles(acceptedFiles);
     }
-  }, [onFile]);
+  }, [onFiles]);
 
+  // Dropped folders are expanded by react-dropzone and filtered by `accept`
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
-      'application/vnd.ms-excel': ['.xls']
+      'application/vnd.ms-excel.sheet.binary.macroEnabled.12': ['.xlsb'],
+      'application/vnd.ms-excel': ['.xls'],
+      'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
+      'text/csv': ['.csv'],
+      'text/tab-separated-values': ['.tsv'],
+      'application/vnd.apache.parquet': ['.parquet'],
+      'application/json': ['.json'],
+      'application/x-ndjson': ['.ndjson', '.jsonl'],
+      ...(multiple ? { 'application/zip': ['.zip'] } : {})
     },
-    multiple: false
+    multiple
   });
 
+  // webkitdirectory is not a React input prop, so set it on the element directly
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [multiple]);
+
+  const handleFolderSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []).filter(isAcceptedFile);
+    if (files.length > 0) {
+      onFiles(files);
+    }
+    event.target.value = '';
+  };
+
   return (
-    <div className="space-y-4">
-      <Card 
-        {...getRootProps()} 
+    <div className="space-y-2">
+      <Card
+        {...getRootProps()}
         className={`border-dashed cursor-pointer transition-colors hover:bg-muted/50 ${
           isDragActive ? 'border-primary bg-muted/50' : 'border-muted-foreground/25'
         }`}
@@ -43,20 +74,38 @@ export function FileDropzone({ onFile, progress = 0 }: FileDropzoneProps) {
           <input {...getInputProps()} />
           <Upload className="h-12 w-12 text-muted-foreground mb-4" />
           <p className="text-lg font-medium">
-            {isDragActive ? "Drop the file here" : "Drag & drop or click to select"}
+            {isDragActive
+              ? `Drop the ${multiple ? 'files' : 'file'} here`
+              : "Drag & drop or click to select"}
           </p>
           <p className="text-sm text-muted-foreground mt-2">
-            Only .xlsx and .xls files are accepted
+            {multiple
+              ? 'Accepts Excel, .ods, .csv/.tsv, .parquet and JSON files, folders and .zip archives of them'
+              : 'Only Excel, .ods, .csv/.tsv, .parquet and JSON files are accepted'}
           </p>
         </CardContent>
       </Card>
 
-      {selectedFile && (
-        <div className="space-y-2">
-          <p className="text-sm font-medium">Selected file: {selectedFile.name}</p>
-          <Progress value={progress} className="w-full" />
-        </div>
+      {multiple && (
+        <>
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={handleFolderSelect}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full gap-2 text-muted-foreground"
+            onClick={() => folderInputRef.current?.click()}
+          >
+            <FolderOpen className="h-4 w-4" />
+            Select a folder
+          </Button>
+        </>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { AlertTriangle, CheckCircle2, Circle, Loader2, XCircle } from "lucide-react";
+import { isReadyStatus, type IngestionStage } from "@/app/actions/upload-file/libs/types";
+import type { IngestionState } from "../hooks/useIngestionProgress";
+
+const STAGES: { stage: IngestionStage; label: string }[] = [
+  { stage: 'downloading', label: 'Preparing file' },
+  { stage: 'parsing', label: 'Parsing sheets' },
+  { stage: 'profiling', label: 'Profiling columns' },
+  { stage: 'schema', label: 'Generating schema' },
+  { stage: 'uploading', label: 'Saving database' },
+  { stage: 'verifying', label: 'Validating database' },
+];
+
+// Share of the overall progress bar each stage ends at; the upload itself fills the first 30%
+const STAGE_END_PERCENT: Record<IngestionStage, number> = {
+  downloading: 35,
+  parsing: 75,
+  profiling: 78,
+  schema: 90,
+  uploading: 94,
+  verifying: 100,
+};
+
+type StageState = 'pending' | 'active' | 'done' | 'failed';
+
+// An append runs the same stages while the file's current database stays ready
+function isRunning(status: string): boolean {
+  return status === 'processing' || status === 'appending';
+}
+
+/**
+ * Whether an append to a ready file failed, leaving its database as it was
+ */
+export function isFailedAppend(state: IngestionState): boolean {
+  return isReadyStatus(state.status) && !!state.error_message;
+}
+
+/**
+ * Overall progress of an ingestion, from 30 (file uploaded) to 100 (verified)
+ */
+export function getIngestionPercent(state: IngestionState | null): number {
+  if (!state || isReadyStatus(state.status)) {
+    return state ? 100 : 30;
+  }
+
+  const progress = state.progress;
+  if (!progress || !isRunning(state.status)) {
+    return 30;
+  }
+
+  const index = STAGES.findIndex(s => s.stage === progress.stage);
+  const start = index > 0 ? STAGE_END_PERCENT[STAGES[index - 1].stage] : 30;
+  const end = STAGE_END_PERCENT[progress.stage];
+
+  // Within parsing and schema generation, advance by the share of sheets/tables done
+  const counter = progress.stage === 'parsing'
+    ? progress.sheets
+    : progress.stage === 'schema' ? progress.schemas : undefined;
+  const fraction = counter && counter.total ? counter.done / counter.total : 0;
+
+  return Math.round(start + (end - start) * fraction);
+}
+
+/**
+ * One-line summary of an ingestion, e.g. "Parsing sheets (sheet 2 of 5: North)"
+ */
+export function describeIngestion(state: IngestionState | null): string {
+  if (!state) return 'Waiting for status...';
+  if (isFailedAppend(state)) return 'Append failed, the dataset is unchanged';
+  if (state.status === 'completed') return `Done, ${state.sheets_processed} tables`;
+  if (state.status === 'completed_with_warnings') {
+    const warnings = state.validation?.warnings.length || 0;
+    return `Done, ${state.sheets_processed} tables, ${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`;
+  }
+
+  const failedStage = STAGES.find(s => s.stage === state.progress?.failed_stage);
+  if (state.status === 'failed') {
+    return `Failed${failedStage ? ` while ${failedStage.label.toLowerCase()}` : ''}`;
+  }
+  if (state.status === 'queued' || (state.status === 'appending' && !state.stage)) {
+    if (state.error_message) return 'Failed, waiting to retry';
+    return state.status === 'appending' ? 'Waiting to append' : 'Waiting for a worker';
+  }
+
+  const stage = STAGES.find(s => s.stage === state.progress?.stage);
+  if (!stage) return state.status === 'appending' ? 'Appending' : 'Processing';
+  const detail = getStageDetail(state.progress, stage.stage);
+  return detail ? `${stage.label} (${detail})` : stage.label;
+}
+
+function getStageDetail(progress: IngestionState['progress'], stage: IngestionStage): string | null {
+  if (stage === 'parsing' && progress?.sheets) {
+    const { done, total, current } = progress.sheets;
+    return done < total && current
+      ? `sheet ${done + 1} of ${total}: ${current}`
+      : `${total} of ${total} sheets`;
+  }
+  if (stage === 'schema' && progress?.schemas) {
+    return `${progress.schemas.done} of ${progress.schemas.total} tables`;
+  }
+  return null;
+}
+
+function getStageState(state: IngestionState, stage: IngestionStage): StageState {
+  const order = STAGES.findIndex(s => s.stage === stage);
+
+  if (isReadyStatus(state.status) && !state.error_message) return 'done';
+
+  const failedStage = state.progress?.failed_stage;
+  if (failedStage && (state.status === 'failed' || state.error_message)) {
+    const failedOrder = STAGES.findIndex(s => s.stage === failedStage);
+    if (order === failedOrder) return 'failed';
+    return order < failedOrder ? 'done' : 'pending';
+  }
+
+  if (!isRunning(state.status) || !state.progress) return 'pending';
+
+  const currentOrder = STAGES.findIndex(s => s.stage === state.progress!.stage);
+  if (order < currentOrder) return 'done';
+  return order === currentOrder ? 'active' : 'pending';
+}
+
+function StageIcon({ state }: { state: StageState }) {
+  switch (state) {
+    case 'done':
+      return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+    case 'active':
+      return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-600" />;
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground/50" />;
+  }
+}
+
+/**
+ * What validating the database found: errors failed the file, warnings did not
+ */
+function ValidationSummary({ validation }: { validation: NonNullable<IngestionState['validation']> }) {
+  return (
+    <div className="rounded-md border p-2 space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">
+        Validation: {validation.summary.tablesValidated} tables, {validation.summary.columnsValidated} columns checked
+      </p>
+      {validation.errors.map((error, i) => (
+        <p key={`error-${i}`} className="flex items-start gap-1.5 text-xs text-red-600">
+          <XCircle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+          {error.message}
+        </p>
+      ))}
+      {validation.warnings.map((warning, i) => (
+        <p key={`warning-${i}`} className="flex items-start gap-1.5 text-xs text-yellow-700">
+          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+          {warning.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+interface IngestionProgressProps {
+  state: IngestionState | null;
+}
+
+export function IngestionProgress({ state }: IngestionProgressProps) {
+  if (!state) {
+    return null;
+  }
+
+  const progress = state.progress;
+
+  return (
+    <div className="space-y-3 text-sm">
+      {state.status === 'queued' && !state.error_message && (
+        <p className="text-muted-foreground">Waiting for a worker to start processing...</p>
+      )}
+
+      <ul className="space-y-1.5">
+        {STAGES.map(({ stage, label }) => {
+          const stageState = getStageState(state, stage);
+          const detail = getStageDetail(progress, stage);
+
+          return (
+            <li key={stage} className="flex items-center gap-2">
+              <StageIcon state={stageState} />
+              <span className={stageState === 'pending' ? 'text-muted-foreground' : ''}>
+                {label}
+              </span>
+              {detail && stageState !== 'pending' && (
+                <span className="text-xs text-muted-foreground">({detail})</span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {progress && progress.tables.length > 0 && (
+        <div className="rounded-md border p-2 space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Rows inserted</p>
+          {progress.tables.map(table => (
+            <div key={table.name} className="flex justify-between gap-2 text-xs">
+              <span className="truncate" title={`${table.sheet} → ${table.name}`}>
+                {table.name}
+              </span>
+              <span className="text-muted-foreground flex-shrink-0">
+                {table.rows.toLocaleString()}
+                {table.rows < table.total_rows && ` / ${table.total_rows.toLocaleString()}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {state.validation && (state.validation.errors.length > 0 || state.validation.warnings.length > 0) && (
+        <ValidationSummary validation={state.validation} />
+      )}
+
+      {state.error_message && (
+        <p className="text-red-600">
+          {state.status === 'failed' || isFailedAppend(state) ? 'Failed' : 'Failed, retrying'}
+          {progress?.failed_stage && ` while ${STAGES.find(s => s.stage === progress.failed_stage)?.label.toLowerCase()}`}
+          : {state.error_message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckCircle2, Circle, Loader2, RotateCcw, X, XCircle, Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { IngestionProgress, describeIngestion, getIngestionPercent, isFailedAppend } from "./IngestionProgress";
+import { useIngestionProgress } from "../hooks/useIngestionProgress";
+import { isReadyStatus } from "@/app/actions/upload-file/libs/types";
+
+export type QueueItemStatus = 'pending' | 'uploading' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A duckdb_files record created by an upload; a zip archive creates one per spreadsheet
+ */
+export interface QueuedFile {
+  fileId: string;
+  name: string;
+  status: 'processing' | 'completed' | 'failed';
+  // Already uploaded before, so nothing was processed
+  duplicate?: boolean;
+}
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  // Path relative to the dropped folder, or the file name
+  name: string;
+  status: QueueItemStatus;
+  bytesLoaded: number;
+  error?: string;
+  files: QueuedFile[];
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function StatusIcon({ status }: { status: QueueItemStatus }) {
+  switch (status) {
+    case 'completed':
+      return <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />;
+    case 'uploading':
+    case 'processing':
+      return <Loader2 className="h-4 w-4 animate-spin text-primary flex-shrink-0" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-600 flex-shrink-0" />;
+    case 'cancelled':
+      return <Ban className="h-4 w-4 text-muted-foreground flex-shrink-0" />;
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground/50 flex-shrink-0" />;
+  }
+}
+
+interface QueuedFileProgressProps {
+  file: QueuedFile;
+  // Show the file name, for files expanded from a zip archive
+  showName: boolean;
+  onSettled: (fileId: string, status: 'completed' | 'failed') => void;
+}
+
+/**
+ * Live ingestion progress of one uploaded file
+ */
+function QueuedFileProgress({ file, showName, onSettled }: QueuedFileProgressProps) {
+  const [showDetails, setShowDetails] = useState(false);
+  const ingestion = useIngestionProgress(file.duplicate ? null : file.fileId);
+
+  useEffect(() => {
+    if (file.status !== 'processing' || !ingestion) return;
+    // Completed with validation warnings is still completed; the warnings show in the details.
+    // A failed append leaves the dataset ready, with the error on it.
+    if (isReadyStatus(ingestion.status) || ingestion.status === 'failed') {
+      const failed = ingestion.status === 'failed' || isFailedAppend(ingestion);
+      onSettled(file.fileId, failed ? 'failed' : 'completed');
+    }
+  }, [ingestion, file.status, file.fileId, onSettled]);
+
+  if (file.duplicate) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        {showName && <span className="font-medium">{file.name}: </span>}
+        Already uploaded, using the existing file
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className={`truncate ${
+          ingestion && (ingestion.status === 'failed' || isFailedAppend(ingestion))
+            ? 'text-red-600'
+            : ingestion?.status === 'completed_with_warnings' ? 'text-yellow-700' : 'text-muted-foreground'
+        }`}>
+          {showName && <span className="font-medium text-foreground">{file.name}: </span>}
+          {describeIngestion(ingestion)}
+        </span>
+        <button
+          type="button"
+          className="text-muted-foreground hover:text-foreground flex-shrink-0"
+          onClick={() => setShowDetails(!showDetails)}
+        >
+          {showDetails ? 'Hide details' : 'Details'}
+        </button>
+      </div>
+      {file.status === 'processing' && (
+        <Progress value={getIngestionPercent(ingestion)} className="h-1.5" />
+      )}
+      {showDetails && (
+        <div className="pt-1">
+          <IngestionProgress state={ingestion} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface UploadQueueItemProps {
+  item: QueueItem;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onFileSettled: (id: string, fileId: string, status: 'completed' | 'failed') => void;
+}
+
+export function UploadQueueItem({ item, onCancel, onRetry, onRemove, onFileSettled }: UploadQueueItemProps) {
+  const { id } = item;
+  const canCancel = item.status === 'pending' || item.status === 'uploading';
+  const canRetry = item.status === 'failed' || item.status === 'cancelled';
+  const canRemove = item.status !== 'uploading' && item.status !== 'processing';
+  const uploadPercent = item.file.size ? Math.round((item.bytesLoaded / item.file.size) * 100) : 0;
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <StatusIcon status={item.status} />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate" title={item.name}>{item.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {item.status === 'uploading'
+              ? `Uploading ${formatBytes(item.bytesLoaded)} of ${formatBytes(item.file.size)}`
+              : item.status === 'pending'
+                ? `Waiting, ${formatBytes(item.file.size)}`
+                : item.status === 'cancelled' ? 'Cancelled' : formatBytes(item.file.size)}
+          </p>
+        </div>
+        {canCancel && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Cancel" onClick={() => onCancel(id)}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+        {canRetry && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Retry" onClick={() => onRetry(id)}>
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        )}
+        {canRemove && !canRetry && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Remove" onClick={() => onRemove(id)}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {item.status === 'uploading' && <Progress value={uploadPercent} className="h-1.5" />}
+
+      {item.files.map(file => (
+        <QueuedFileProgress
+          key={file.fileId}
+          file={file}
+          showName={item.files.length > 1 || file.name !== item.name}
+          onSettled={(fileId, status) => onFileSettled(id, fileId, status)}
+        />
+      ))}
+
+      {item.error && (
+        <p className="text-xs text-red-600">{item.error}</p>
+      )}
+    </div>
+  );
+}
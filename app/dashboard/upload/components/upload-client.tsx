@@ -1,100 +1,357 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 import { FileDropzone } from "./FileDropzone";
+import { UploadQueueItem, QueueItem, QueuedFile } from "./UploadQueueItem";
 import { Button } from "@/components/ui/button";
-import { uploadFileAction } from "@/app/actions/upload-file/uploadFile";
+import {
+  startResumableUploadAction,
+  completeResumableUploadAction,
+  type UploadResult
+} from "@/app/actions/upload-file/uploadFile";
+import {
+  DIRECT_UPLOAD_LIMIT,
+  getStoredUpload,
+  rememberUpload,
+  forgetUpload,
+  uploadInChunks
+} from "../libs/resumableUpload";
+import { MAX_FLATTEN_DEPTH } from "@/app/actions/upload-file/libs/types";
 
-type UploadStatus = 'idle' | 'uploading' | 'success' | 'error';
+// Files whose nested objects can be flattened into columns, directly or inside an archive
+const NESTED_FILE = /\.(json|ndjson|jsonl|parquet|zip)$/i;
 
 interface UploadClientProps {
-  onUploadSuccess?: () => void;
+  onUploadSuccess?: (fileId?: string) => void;
+  // File ID of an existing upload to add this file as a new version of
+  versionOf?: string;
+  // File ID of an existing dataset to append this file's rows to
+  appendTo?: string;
 }
 
-export function UploadClient({ onUploadSuccess }: UploadClientProps) {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [uploadStatus, setUploadStatus] = useState<UploadStatus>('idle');
-  const [progress, setProgress] = useState(0);
+/**
+ * Post the upload form, reporting bytes sent. XMLHttpRequest is used because fetch
+ * has no upload progress events.
+ */
+function postUpload(
+  formData: FormData,
+  onBytes: (loaded: number) => void,
+  signal: AbortSignal
+): Promise<UploadResult> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', '/api/upload');
+    xhr.responseType = 'json';
 
-  const handleFileSelect = (file: File) => {
-    setSelectedFile(file);
-    setUploadStatus('idle');
-    setProgress(0);
-    toast.success("File received");
-  };
+    xhr.upload.onprogress = (event) => onBytes(event.loaded);
+    xhr.onload = () => {
+      if (xhr.response) {
+        resolve(xhr.response as UploadResult);
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+    signal.addEventListener('abort', () => xhr.abort());
 
-  const handleUpload = async () => {
-    if (!selectedFile) {
-      toast.error("Please select a file first");
-      return;
+    xhr.send(formData);
+  });
+}
+
+/**
+ * Upload a large file in chunks straight to storage, then complete it on the server.
+ * The size limit is checked before any bytes are sent, and a retry continues from the
+ * last chunk that arrived.
+ */
+async function uploadResumable(
+  file: File,
+  options: { versionOf?: string; appendTo?: string; flattenDepth: number | null },
+  onBytes: (loaded: number) => void,
+  signal: AbortSignal
+): Promise<UploadResult> {
+  const key = options.appendTo ? `append:${options.appendTo}` : options.versionOf;
+  let target = getStoredUpload(file, key);
+
+  if (!target) {
+    const session = await startResumableUploadAction({
+      fileName: file.name,
+      fileSize: file.size,
+      contentType: file.type,
+      versionOf: options.versionOf,
+      appendTo: options.appendTo,
+      flattenDepth: options.flattenDepth
+    });
+    if (!session.success || !session.sessionId) {
+      return { success: false, error: session.error || 'Could not start upload' };
     }
 
-    setUploadStatus('uploading');
-    setProgress(25);
-    
+    target = {
+      sessionId: session.sessionId,
+      bucket: session.bucket!,
+      storagePath: session.storagePath!,
+      chunkSize: session.chunkSize!
+    };
+    rememberUpload(file, key, target);
+  }
+
+  const current = target;
+  await uploadInChunks(file, current, {
+    uploadUrl: current.uploadUrl,
+    onUploadUrl: uploadUrl => rememberUpload(file, key, { ...current, uploadUrl }),
+    onBytes,
+    signal
+  });
+
+  // The session is settled either way, so a retry starts a new one
+  const result = await completeResumableUploadAction(current.sessionId);
+  forgetUpload(file, key);
+  return result;
+}
+
+/**
+ * Files created by an upload: one for a spreadsheet, one per spreadsheet for a zip archive
+ */
+function getQueuedFiles(result: UploadResult): QueuedFile[] {
+  const results = result.files || [result];
+  return results
+    .filter(r => r.success && r.fileId)
+    .map(r => ({
+      fileId: r.fileId!,
+      name: r.fileName || '',
+      status: r.duplicate ? 'completed' : 'processing',
+      duplicate: r.duplicate
+    }));
+}
+
+function createQueueItem(file: File): QueueItem {
+  // react-dropzone sets `path` on files from dropped folders, the folder picker webkitRelativePath
+  const relativePath = (file as File & { path?: string }).path?.replace(/^\.?\//, '') || file.webkitRelativePath;
+  return {
+    id: crypto.randomUUID(),
+    file,
+    name: relativePath || file.name,
+    status: 'pending',
+    bytesLoaded: 0,
+    files: []
+  };
+}
+
+export function UploadClient({ onUploadSuccess, versionOf, appendTo }: UploadClientProps) {
+  // A new version or an append is a single file
+  const singleFile = !!(versionOf || appendTo);
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [started, setStarted] = useState(false);
+  // Levels of nested JSON objects to flatten into columns, '' for the server's default
+  const [flattenDepth, setFlattenDepth] = useState('');
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const updateItem = useCallback((id: string, update: (item: QueueItem) => Partial<QueueItem>) => {
+    setItems(current => current.map(item => (item.id === id ? { ...item, ...update(item) } : item)));
+  }, []);
+
+  const handleFiles = (files: File[]) => {
+    const added = files.map(createQueueItem);
+    // A single file replaces whatever was selected
+    setItems(current => (singleFile ? added.slice(0, 1) : [...current, ...added]));
+    toast.success(files.length === 1 ? "File received" : `${files.length} files added to the queue`);
+  };
+
+  const uploadItem = useCallback(async (item: QueueItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    updateItem(item.id, () => ({ status: 'uploading', bytesLoaded: 0, error: undefined, files: [] }));
+
     try {
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-      
-      setProgress(50);
-      
-      const result = await uploadFileAction(formData);
-      
-      setProgress(100);
-      
-      if (result.success) {
-        setUploadStatus('success');
-        toast.success(`File uploaded successfully! ${result.processingResult?.sheetsProcessed || 0} sheets processed.`);
-        onUploadSuccess?.();
+      const onBytes = (loaded: number) => updateItem(item.id, () => ({ bytesLoaded: loaded }));
+      const depth = flattenDepth === '' ? null : Number(flattenDepth);
+      let result: UploadResult;
+
+      if (item.file.size > DIRECT_UPLOAD_LIMIT) {
+        result = await uploadResumable(
+          item.file,
+          { versionOf, appendTo, flattenDepth: depth },
+          onBytes,
+          controller.signal
+        );
       } else {
-        setUploadStatus('error');
-        toast.error(result.error || 'Upload failed');
+        const formData = new FormData();
+        formData.append('file', item.file);
+        if (versionOf) {
+          formData.append('versionOf', versionOf);
+        }
+        if (appendTo) {
+          formData.append('appendTo', appendTo);
+        }
+        if (depth !== null) {
+          formData.append('flattenDepth', String(depth));
+        }
+        result = await postUpload(formData, onBytes, controller.signal);
+      }
+      const files = getQueuedFiles(result);
+
+      if (!result.success || !files.length) {
+        updateItem(item.id, () => ({ status: 'failed', error: result.error || 'Upload failed' }));
+        toast.error(`${item.name}: ${result.error || 'Upload failed'}`);
+        return;
+      }
+
+      // Spreadsheets of a zip archive that could not be stored are reported on the item
+      const rejected = (result.files || []).filter(r => !r.success);
+      const error = rejected.length
+        ? rejected.map(r => `${r.fileName}: ${r.error}`).join('; ')
+        : undefined;
+      const processing = files.some(file => file.status === 'processing');
+
+      updateItem(item.id, () => ({
+        status: processing ? 'processing' : 'completed',
+        bytesLoaded: item.file.size,
+        files,
+        error
+      }));
+
+      if (result.duplicate) {
+        toast.info(result.message || 'This file was already uploaded');
       }
     } catch (error) {
-      setUploadStatus('error');
-      setProgress(0);
-      toast.error('Upload failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        updateItem(item.id, () => ({ status: 'cancelled' }));
+      } else {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        updateItem(item.id, () => ({ status: 'failed', error: message }));
+        toast.error(`${item.name}: ${message}`);
+      }
+    } finally {
+      controllers.current.delete(item.id);
+    }
+  }, [updateItem, versionOf, appendTo, flattenDepth]);
+
+  // Upload one file at a time; files added while the queue runs join it
+  useEffect(() => {
+    if (!started || items.some(item => item.status === 'uploading')) return;
+
+    const next = items.find(item => item.status === 'pending');
+    if (next) {
+      uploadItem(next);
+    }
+  }, [items, started, uploadItem]);
+
+  const handleFileSettled = useCallback((id: string, fileId: string, status: 'completed' | 'failed') => {
+    updateItem(id, item => {
+      const files = item.files.map(file => (file.fileId === fileId ? { ...file, status } : file));
+      if (files.some(file => file.status === 'processing')) {
+        return { files };
+      }
+
+      const failed = files.filter(file => file.status === 'failed').length;
+      return {
+        files,
+        status: failed ? 'failed' : 'completed',
+        error: failed ? `${failed} of ${files.length} files failed to process` : item.error
+      };
+    });
+  }, [updateItem]);
+
+  // Report success once the queue has settled, selecting the last file that was processed
+  const settled = items.length > 0 && items.every(item =>
+    ['completed', 'failed', 'cancelled'].includes(item.status)
+  );
+  const lastCompletedFileId = [...items].reverse()
+    .flatMap(item => (item.status === 'completed' ? item.files : []))
+    .find(file => file.status === 'completed')?.fileId;
+
+  useEffect(() => {
+    if (!started || !settled) return;
+
+    setStarted(false);
+    if (lastCompletedFileId) {
+      const completed = items.filter(item => item.status === 'completed').length;
+      toast.success(completed === 1 ? 'File processed!' : `${completed} files processed!`);
+      onUploadSuccess?.(lastCompletedFileId);
     }
+  }, [started, settled, lastCompletedFileId, items, onUploadSuccess]);
+
+  const handleCancel = (id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      updateItem(id, () => ({ status: 'cancelled' }));
+    }
+  };
+
+  const handleRetry = (id: string) => {
+    updateItem(id, () => ({ status: 'pending', bytesLoaded: 0, error: undefined, files: [] }));
+    setStarted(true);
   };
 
-  const getProgressValue = () => {
-    if (uploadStatus === 'success') return 100;
-    if (uploadStatus === 'uploading') return progress;
-    if (selectedFile && uploadStatus === 'idle') return 10;
-    return 0;
+  const handleRemove = (id: string) => {
+    setItems(current => current.filter(item => item.id !== id));
   };
 
+  const pendingCount = items.filter(item => item.status === 'pending').length;
+  const isRunning = started && !settled;
+  const hasNestedFiles = items.some(item => item.status === 'pending' && NESTED_FILE.test(item.file.name));
+
   return (
     <div className="space-y-4">
-      <FileDropzone 
-        onFile={handleFileSelect}
-        progress={getProgressValue()}
-      />
-      
-      {selectedFile && (
+      <FileDropzone onFiles={handleFiles} multiple={!singleFile} />
+
+      {items.length > 0 && (
         <div className="flex flex-col space-y-2">
-          <Button 
-            onClick={handleUpload}
-            disabled={uploadStatus === 'uploading'}
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {items.map(item => (
+              <UploadQueueItem
+                key={item.id}
+                item={item}
+                onCancel={handleCancel}
+                onRetry={handleRetry}
+                onRemove={handleRemove}
+                onFileSettled={handleFileSettled}
+              />
+            ))}
+          </div>
+
+          {hasNestedFiles && (
+            <div className="flex items-center gap-2 text-sm">
+              <label htmlFor="flatten-depth" className="text-muted-foreground">
+                Nested JSON levels to turn into columns
+              </label>
+              <select
+                id="flatten-depth"
+                className="h-8 rounded-md border bg-background px-2 text-sm"
+                value={flattenDepth}
+                onChange={e => setFlattenDepth(e.target.value)}
+                disabled={isRunning}
+              >
+                <option value="">Default</option>
+                {Array.from({ length: MAX_FLATTEN_DEPTH + 1 }, (_, depth) => (
+                  <option key={depth} value={depth}>
+                    {depth === 0 ? '0 (keep as JSON text)' : depth}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <Button
+            onClick={() => setStarted(true)}
+            disabled={isRunning || pendingCount === 0}
             className="w-full"
           >
-            {uploadStatus === 'uploading' ? 'Uploading...' : 'Upload File'}
+            {isRunning
+              ? 'Uploading...'
+              : pendingCount > 1 ? `Upload ${pendingCount} Files` : 'Upload File'}
           </Button>
-          
-          {uploadStatus === 'success' && (
+
+          {settled && !isRunning && items.every(item => item.status === 'completed') && (
             <p className="text-sm text-green-600 text-center">
               ✅ Upload completed successfully!
             </p>
           )}
-          
-          {uploadStatus === 'error' && (
-            <p className="text-sm text-red-600 text-center">
-              ❌ Upload failed. Please try again.
-            </p>
-          )}
         </div>
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
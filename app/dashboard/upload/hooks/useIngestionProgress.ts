@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { createClient } from '@/utils/supabase/client';
+import type { IngestionProgress, ValidationResult } from '@/app/actions/upload-file/libs/types';
+
+export interface IngestionState {
+  status: string;
+  stage: string | null;
+  error_message: string | null;
+  sheets_processed: number;
+  progress: IngestionProgress | null;
+  validation: ValidationResult | null;
+}
+
+// Fallback refresh in case realtime updates are missed
+const POLL_INTERVAL_MS = 2000;
+
+const FINAL_STATUSES = ['completed', 'completed_with_warnings', 'failed'];
+
+/**
+ * Follow the ingestion of an uploaded file: its status, stage and progress snapshot,
+ * streamed with Supabase realtime and polled until the file is completed or failed.
+ * Once processed, the state includes the database validation's errors and warnings.
+ */
+export function useIngestionProgress(fileId: string | null): IngestionState | null {
+  const [state, setState] = useState<IngestionState | null>(null);
+
+  useEffect(() => {
+    setState(null);
+    if (!fileId) return;
+
+    const supabase = createClient();
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    const stopPolling = () => {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    };
+
+    const apply = (next: IngestionState) => {
+      setState(next);
+      if (FINAL_STATUSES.includes(next.status)) {
+        stopPolling();
+      }
+    };
+
+    const fetchState = async () => {
+      const { data, error } = await supabase
+        .from('duckdb_files')
+        .select('status, stage, error_message, sheets_processed, progress, validation')
+        .eq('file_id', fileId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching ingestion progress:', error);
+        return;
+      }
+      if (data) {
+        apply(data as IngestionState);
+      }
+    };
+
+    const channel = supabase
+      .channel(`ingestion_${fileId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'duckdb_files', filter: `file_id=eq.${fileId}` },
+        (payload) => apply(payload.new as IngestionState)
+      )
+      .subscribe();
+
+    fetchState();
+    timer = setInterval(fetchState, POLL_INTERVAL_MS);
+
+    return () => {
+      stopPolling();
+      supabase.removeChannel(channel);
+    };
+  }, [fileId]);
+
+  return state;
+}
@@ -0,0 +1,223 @@
+import { createClient } from "@/utils/supabase/client";
+
+// Largest file posted directly to the upload route, kept under Vercel's 4.5MB request
+// body limit. Larger files are uploaded in chunks straight to storage, so a dropped
+// connection also resumes where it stopped instead of starting over. The chunk size is
+// set by the server when the upload starts.
+export const DIRECT_UPLOAD_LIMIT = 4 * 1024 * 1024;
+
+// Wait before each retry of a failed chunk
+const RETRY_DELAYS_MS = [1000, 3000, 5000, 10000, 20000];
+
+const STORAGE_KEY_PREFIX = 'resumable-upload:';
+
+export interface ResumableUploadTarget {
+  sessionId: string;
+  bucket: string;
+  storagePath: string;
+  chunkSize: number;
+}
+
+/**
+ * Upload sessions in progress, remembered per file and target (a new version, or the
+ * dataset it is appended to) so a retry, or a reload of the page, continues the same upload
+ */
+interface StoredUpload extends ResumableUploadTarget {
+  uploadUrl?: string;
+}
+
+function getStorageKey(file: File, target?: string): string {
+  return `${STORAGE_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}:${target || ''}`;
+}
+
+export function getStoredUpload(file: File, target?: string): StoredUpload | null {
+  try {
+    const stored = localStorage.getItem(getStorageKey(file, target));
+    return stored ? (JSON.parse(stored) as StoredUpload) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function rememberUpload(file: File, target: string | undefined, upload: StoredUpload): void {
+  try {
+    localStorage.setItem(getStorageKey(file, target), JSON.stringify(upload));
+  } catch {
+    // Without storage the upload still works, it just cannot resume after a reload
+  }
+}
+
+export function forgetUpload(file: File, target?: string): void {
+  try {
+    localStorage.removeItem(getStorageKey(file, target));
+  } catch {
+    // Nothing to forget
+  }
+}
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value);
+      return `${key} ${btoa(String.fromCharCode(...bytes))}`;
+    })
+    .join(',');
+}
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const supabase = createClient();
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Authentication required');
+  }
+
+  return {
+    authorization: `Bearer ${session.access_token}`,
+    'Tus-Resumable': '1.0.0'
+  };
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+/**
+ * Create the upload on Supabase's resumable (TUS) endpoint and return its URL
+ */
+async function createUpload(file: File, target: ResumableUploadTarget): Promise<string> {
+  const endpoint = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`;
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      ...(await getAuthHeaders()),
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': encodeMetadata({
+        bucketName: target.bucket,
+        objectName: target.storagePath,
+        contentType: file.type || 'application/octet-stream'
+      }),
+      // A previous attempt may have left a partial object behind
+      'x-upsert': 'true'
+    }
+  });
+
+  const location = response.headers.get('Location');
+  if (!response.ok || !location) {
+    throw new Error(`Could not start upload (status ${response.status})`);
+  }
+
+  return new URL(location, endpoint).toString();
+}
+
+/**
+ * Bytes of the upload already in storage, or null if the upload no longer exists
+ */
+async function getUploadOffset(uploadUrl: string): Promise<number | null> {
+  const response = await fetch(uploadUrl, {
+    method: 'HEAD',
+    headers: await getAuthHeaders()
+  });
+
+  if (response.status === 404 || response.status === 410 || response.status === 403) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Could not resume upload (status ${response.status})`);
+  }
+
+  return Number(response.headers.get('Upload-Offset') || 0);
+}
+
+/**
+ * Send one chunk, reporting bytes sent. XMLHttpRequest is used because fetch has no
+ * upload progress events.
+ */
+async function sendChunk(
+  uploadUrl: string,
+  chunk: Blob,
+  offset: number,
+  onBytes: (loaded: number) => void,
+  signal: AbortSignal
+): Promise<number> {
+  const headers = await getAuthHeaders();
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', uploadUrl);
+    Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+    xhr.setRequestHeader('Upload-Offset', String(offset));
+    xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+
+    xhr.upload.onprogress = (event) => onBytes(offset + event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(Number(xhr.getResponseHeader('Upload-Offset') || offset + chunk.size));
+      } else {
+        reject(new Error(`Chunk upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+    signal.addEventListener('abort', () => xhr.abort(), { once: true });
+
+    xhr.send(chunk);
+  });
+}
+
+/**
+ * Upload a file to storage in chunks, resuming from the stored upload URL when there is
+ * one. Failed chunks are retried from the offset storage reports, with increasing delays.
+ */
+export async function uploadInChunks(
+  file: File,
+  target: ResumableUploadTarget,
+  options: {
+    uploadUrl?: string;
+    onUploadUrl: (uploadUrl: string) => void;
+    onBytes: (loaded: number) => void;
+    signal: AbortSignal;
+  }
+): Promise<void> {
+  const { onBytes, signal } = options;
+  let uploadUrl = options.uploadUrl;
+  let offset: number | null = null;
+  let retries = 0;
+
+  while (offset === null || offset < file.size) {
+    try {
+      if (uploadUrl && offset === null) {
+        offset = await getUploadOffset(uploadUrl);
+      }
+      if (!uploadUrl || offset === null) {
+        uploadUrl = await createUpload(file, target);
+        options.onUploadUrl(uploadUrl);
+        offset = 0;
+      }
+      onBytes(offset);
+
+      if (offset < file.size) {
+        const chunk = file.slice(offset, offset + target.chunkSize);
+        offset = await sendChunk(uploadUrl, chunk, offset, onBytes, signal);
+        retries = 0;
+      }
+    } catch (error) {
+      if (signal.aborted || (error instanceof DOMException && error.name === 'AbortError')) {
+        throw new DOMException('Upload cancelled', 'AbortError');
+      }
+      if (retries >= RETRY_DELAYS_MS.length) {
+        throw error;
+      }
+
+      console.warn(`Chunk upload failed, retrying (${retries + 1}/${RETRY_DELAYS_MS.length}):`, error);
+      await wait(RETRY_DELAYS_MS[retries++], signal);
+      // Ask storage how much arrived before continuing
+      offset = null;
+    }
+  }
+}
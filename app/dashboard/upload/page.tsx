@@ -14,9 +14,9 @@ export default async function UploadPage() {
       <div className="w-full max-w-lg">
         <div className="space-y-6">
           <div className="text-center">
-            <h1 className="text-2xl font-bold">Upload Excel File</h1>
+            <h1 className="text-2xl font-bold">Upload Excel Files</h1>
             <p className="text-muted-foreground">
-              Select an Excel file to analyze your data
+              Select Excel, OpenDocument, CSV, Parquet or JSON files, a folder or a zip archive to analyze your data
             </p>
           </div>
           
@@ -0,0 +1,49 @@
+// Local ingestion worker for development: polls the ingestion endpoint of a running
+// `npm run dev` server so queued uploads are processed without the Vercel cron.
+//
+//   npm run worker
+//
+// Reads CRON_SECRET from .env.local; INGEST_WORKER_URL and INGEST_WORKER_INTERVAL_MS
+// override the endpoint (default http://localhost:3000/api/ingest) and poll interval.
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local, rely on the environment
+}
+
+const url = process.env.INGEST_WORKER_URL || 'http://localhost:3000/api/ingest';
+const interval = Number(process.env.INGEST_WORKER_INTERVAL_MS || 5000);
+const secret = process.env.CRON_SECRET;
+
+if (!secret) {
+  console.error('CRON_SECRET is not set');
+  process.exit(1);
+}
+
+let stopping = false;
+process.on('SIGINT', () => {
+  stopping = true;
+});
+
+console.log(`👷 Ingestion worker polling ${url} every ${interval}ms`);
+
+while (!stopping) {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${secret}` },
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      console.error('Worker run failed:', result.error || response.status);
+    } else if (result.processed > 0) {
+      console.log(`✅ Processed ${result.processed} job(s)`);
+    }
+  } catch (error) {
+    console.error('Worker request failed:', error instanceof Error ? error.message : error);
+  }
+
+  await new Promise((resolve) => setTimeout(resolve, interval));
+}
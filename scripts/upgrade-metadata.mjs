@@ -0,0 +1,49 @@
+// Upgrades every stored metadata.json to the current format through the metadata upgrade
+// endpoint of a running server, one batch at a time. Safe to re-run: files already in the
+// current format are skipped.
+//
+//   npm run upgrade-metadata
+//
+// Reads CRON_SECRET from .env.local; UPGRADE_METADATA_URL overrides the endpoint
+// (default http://localhost:3000/api/metadata/upgrade).
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local, rely on the environment
+}
+
+const url = process.env.UPGRADE_METADATA_URL || 'http://localhost:3000/api/metadata/upgrade';
+const secret = process.env.CRON_SECRET;
+
+if (!secret) {
+  console.error('CRON_SECRET is not set');
+  process.exit(1);
+}
+
+let after = null;
+const totals = { checked: 0, upgraded: 0, failed: 0 };
+
+do {
+  const response = await fetch(after ? `${url}?after=${encodeURIComponent(after)}` : url, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${secret}` },
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    console.error('Metadata upgrade failed:', result.error || response.status);
+    process.exit(1);
+  }
+
+  totals.checked += result.checked;
+  totals.upgraded += result.upgraded;
+  totals.failed += result.failed.length;
+  for (const { fileId, error } of result.failed) {
+    console.error(`❌ ${fileId}: ${error}`);
+  }
+  after = result.next;
+} while (after);
+
+console.log(`✅ Checked ${totals.checked} file(s), upgraded ${totals.upgraded}, ${totals.failed} failed`);
+process.exit(totals.failed ? 1 : 0);
@@ -0,0 +1,16 @@
+-- Content hashes for duplicate detection, and versions of the same workbook grouped by document
+alter table public.duckdb_files
+  add column if not exists content_hash text,
+  add column if not exists document_id uuid,
+  add column if not exists version integer not null default 1;
+
+-- Existing uploads each start their own document
+update public.duckdb_files
+  set document_id = file_id
+  where document_id is null;
+
+create index if not exists duckdb_files_content_hash_idx
+  on public.duckdb_files (content_hash);
+
+create index if not exists duckdb_files_document_version_idx
+  on public.duckdb_files (document_id, version desc);
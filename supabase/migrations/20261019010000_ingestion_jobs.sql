@@ -0,0 +1,32 @@
+-- Ingestion runs as background jobs; the file record shows which stage it is in
+alter table public.duckdb_files
+  add column if not exists stage text,
+  add column if not exists error_message text;
+
+create table if not exists public.ingestion_jobs (
+  job_id uuid primary key default gen_random_uuid(),
+  file_id uuid not null references public.duckdb_files (file_id) on delete cascade,
+  storage_path text not null,
+  original_name text not null,
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed')),
+  attempts integer not null default 0,
+  error text,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+create index if not exists ingestion_jobs_queue_idx
+  on public.ingestion_jobs (status, created_at);
+
+-- Users may see and run jobs for the files they can see; the worker uses the service role
+alter table public.ingestion_jobs enable row level security;
+
+create policy "Jobs follow their file's access"
+  on public.ingestion_jobs
+  for all
+  using (exists (select 1 from public.duckdb_files f where f.file_id = ingestion_jobs.file_id))
+  with check (exists (select 1 from public.duckdb_files f where f.file_id = ingestion_jobs.file_id));
+
+-- Stream status changes to the file list
+alter publication supabase_realtime add table public.duckdb_files;
@@ -0,0 +1,3 @@
+-- Structured ingestion progress (sheets parsed, rows inserted per table, failed stage)
+alter table public.duckdb_files
+  add column if not exists progress jsonb;
@@ -0,0 +1,33 @@
+-- Per-tenant upload size limit; null falls back to the app default (100MB)
+alter table public.tenants
+  add column if not exists max_upload_bytes bigint check (max_upload_bytes > 0);
+
+-- Resumable uploads: the browser sends the file straight to storage in chunks
+-- (Supabase's TUS endpoint) and completes the session once every byte has arrived
+create table if not exists public.upload_sessions (
+  session_id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  -- File ID the duckdb_files record gets once the upload completes
+  file_id uuid not null,
+  file_name text not null,
+  storage_path text not null,
+  file_size bigint not null,
+  content_type text,
+  -- File ID of an existing upload this file is a new version of
+  version_of uuid,
+  status text not null default 'uploading' check (status in ('uploading', 'completed', 'failed')),
+  error text,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists upload_sessions_user_idx
+  on public.upload_sessions (user_id, status);
+
+alter table public.upload_sessions enable row level security;
+
+create policy "Users manage their own upload sessions"
+  on public.upload_sessions
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
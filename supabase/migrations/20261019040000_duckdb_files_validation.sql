@@ -0,0 +1,4 @@
+-- Result of validating the generated database against its metadata (errors and warnings).
+-- Files whose database validated with warnings get the status 'completed_with_warnings'.
+alter table public.duckdb_files
+  add column if not exists validation jsonb;
@@ -0,0 +1,13 @@
+-- Uploads appended to an existing dataset run as jobs on the dataset's file record.
+-- The content hash lets the same extract be recognised when it is appended again.
+alter table public.ingestion_jobs
+  add column if not exists mode text not null default 'ingest' check (mode in ('ingest', 'append')),
+  add column if not exists content_hash text;
+
+create index if not exists ingestion_jobs_appended_content_idx
+  on public.ingestion_jobs (file_id, content_hash)
+  where mode = 'append';
+
+-- File ID of the dataset a resumable upload is appended to
+alter table public.upload_sessions
+  add column if not exists append_to uuid;
@@ -0,0 +1,7 @@
+-- Levels of nested JSON objects and Parquet structs flattened into columns, chosen per
+-- upload. Null falls back to the JSON_FLATTEN_DEPTH setting.
+alter table public.ingestion_jobs
+  add column if not exists flatten_depth smallint check (flatten_depth between 0 and 5);
+
+alter table public.upload_sessions
+  add column if not exists flatten_depth smallint check (flatten_depth between 0 and 5);
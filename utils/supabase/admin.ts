@@ -0,0 +1,18 @@
+import { createClient } from '@supabase/supabase-js'
+
+// Service-role client for background workers, which run without a user session.
+// Bypasses row level security, so never use it in code reachable from the browser.
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set')
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}